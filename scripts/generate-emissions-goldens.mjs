@@ -20,8 +20,26 @@
 
 import {
   buildEmissionsSchedule,
+  buildPhasedEmissionsSchedule,
   shapeWeights,
 } from "../dist/emissions/emissionsSchedule.js";
+import { buildIntegerEmissionsSchedule } from "../dist/emissions/integerSchedule.js";
+import {
+  constantWeights,
+  halvingWeights,
+  linearWeights,
+  logisticTaperWeights,
+  powerLawWeights,
+} from "../dist/emissions/weightShapes.js";
+import {
+  fingerprintEmissionsParams,
+  fingerprintEmissionsSchedule,
+  fingerprintIntegerEmissionsSchedule,
+} from "../dist/emissions/fingerprint.js";
+import {
+  buildEmissionsMerkleTree,
+  getEmissionsMerkleProof,
+} from "../dist/emissions/merkle.js";
 
 /** Serialize an EmissionsParams object (bigint cap → string). */
 function serializeParams(params) {
@@ -37,8 +55,8 @@ function sum(xs) {
  * Capture a compact fingerprint of a schedule: integer facts exactly,
  * float facts at selected epochs (1-indexed).
  */
-function captureSchedule(overrides, sampleEpochs) {
-  const s = buildEmissionsSchedule(overrides);
+function captureSchedule(overrides, sampleEpochs, options = {}) {
+  const s = buildEmissionsSchedule(overrides, options);
   const emissionsAtEpochs = {};
   const cumulativeAtEpochs = {};
   for (const epoch of sampleEpochs) {
@@ -67,7 +85,9 @@ const golden = {
     tolerancePolicy:
       "Integer values (epoch counts, milestone epochs) must match exactly. " +
       "Float values must match within relative tolerance 1e-12 (float64 " +
-      "transcendentals are not guaranteed bit-identical across JS engines/libm).",
+      "transcendentals are not guaranteed bit-identical across JS engines/libm), " +
+      "except deterministicSchedule, which uses engine-independent " +
+      "transcendentals and must match bit-exactly.",
   },
 
   /**
@@ -109,6 +129,153 @@ const golden = {
     };
   })(),
 
+  /**
+   * Vector 1d — the canonical schedule built with `{ deterministic: true }`
+   * (engine-independent transcendentals). Float values in this vector are
+   * asserted BIT-EXACTLY on every engine, not at tolerance.
+   */
+  deterministicSchedule: captureSchedule({}, [1, 2, 208, 209, 1456, 1457, 2756], {
+    deterministic: true,
+  }),
+
+  /**
+   * Vector 4 — integer base-unit schedules (bigint amounts serialized as
+   * decimal strings). Integer values; asserted exactly.
+   * - small: the Vector 3 parameters at decimals 0 and 18 (full arrays)
+   * - default: the canonical deterministic-mode schedule at decimals 18,
+   *   sampled like Vector 1
+   */
+  integerSchedule: (() => {
+    const smallParams = {
+      cap: 1_000_000n,
+      epochsPerYear: 4,
+      earlyYears: 1,
+      midYears: 1,
+      tailYears: 1,
+    };
+    const small0 = buildIntegerEmissionsSchedule(smallParams, { decimals: 0 });
+    const small18 = buildIntegerEmissionsSchedule(smallParams, { decimals: 18 });
+    const full = buildIntegerEmissionsSchedule({}, { decimals: 18, deterministic: true });
+    const emissionsAtEpochs = {};
+    const cumulativeAtEpochs = {};
+    for (const epoch of [1, 2, 208, 209, 1456, 1457, 2756]) {
+      emissionsAtEpochs[epoch] = full.emissions[epoch - 1].toString();
+      cumulativeAtEpochs[epoch] = full.cumulative[epoch - 1].toString();
+    }
+    return {
+      smallDecimals0: small0.emissions.map(e => e.toString()),
+      smallDecimals18: small18.emissions.map(e => e.toString()),
+      defaultDecimals18: {
+        totalSupply: full.totalSupply.toString(),
+        emissionsAtEpochs,
+        cumulativeAtEpochs,
+      },
+    };
+  })(),
+
+  /**
+   * Vector 5 — SHA-256 fingerprints of canonical serializations
+   * (src/emissions/fingerprint.ts). Schedules are built in deterministic
+   * mode so the digests are engine-independent; compared exactly.
+   */
+  fingerprints: (() => {
+    const schedule = buildEmissionsSchedule({}, { deterministic: true });
+    return {
+      defaultParams: fingerprintEmissionsParams(schedule.params),
+      deterministicSchedule: fingerprintEmissionsSchedule(schedule),
+      integerScheduleDecimals18: fingerprintIntegerEmissionsSchedule(
+        buildIntegerEmissionsSchedule({}, { decimals: 18, deterministic: true })
+      ),
+    };
+  })(),
+
+  /**
+   * Vector 6 — generalized four-phase schedule (buildPhasedEmissionsSchedule):
+   * cap 1,000,000; 4 epochs/year; 1y per phase; targets 0.25 / 0.5 / 0.8 / 1.0.
+   * Built in deterministic mode; full arrays asserted bit-exactly.
+   */
+  fourPhaseSchedule: (() => {
+    const s = buildPhasedEmissionsSchedule(
+      {
+        cap: 1_000_000n,
+        epochsPerYear: 4,
+        phases: [
+          { years: 1, targetFraction: 0.25, shape: 2.0 },
+          { years: 1, targetFraction: 0.5, shape: 1.5 },
+          { years: 1, targetFraction: 0.8, shape: 1.2 },
+          { years: 1, targetFraction: 1.0, shape: 1.0 },
+        ],
+      },
+      { deterministic: true }
+    );
+    return {
+      paramsUsed: { ...s.params, cap: s.params.cap.toString() },
+      totalEpochs: s.totalEpochs,
+      phases: s.phases,
+      emissions: s.emissions,
+      cumulative: s.cumulative,
+    };
+  })(),
+
+  /**
+   * Vector 7 — the canonical schedule with a Bitcoin-style halving early
+   * phase (4 halving blocks), deterministic mode; asserted bit-exactly.
+   * Sample epochs: first, block boundaries 52/53, phase boundaries, final.
+   */
+  halvingEarlySchedule: captureSchedule(
+    { shapeEarly: { kind: "halving", periods: 4 } },
+    [1, 52, 53, 208, 209, 1456, 1457, 2756],
+    { deterministic: true }
+  ),
+
+  /**
+   * Vector 8 — the canonical schedule in continuity mode (shapes after the
+   * early phase solved for C0 phase boundaries), deterministic mode;
+   * asserted bit-exactly, including the solved shapes.
+   */
+  continuitySchedule: (() => {
+    const options = { deterministic: true, continuity: true };
+    return {
+      ...captureSchedule({}, [1, 208, 209, 1456, 1457, 2756], options),
+      continuity: buildEmissionsSchedule({}, options).continuity,
+    };
+  })(),
+
+  /**
+   * Vector 9 — Merkle roots over the integer per-epoch schedule
+   * (src/emissions/merkle.ts): the canonical deterministic-mode schedule at
+   * decimals 18 and the Vector 3 parameters at decimals 0 (with a proof);
+   * compared exactly.
+   */
+  merkleRoots: (() => {
+    const full = buildEmissionsMerkleTree(
+      buildIntegerEmissionsSchedule({}, { decimals: 18, deterministic: true })
+    );
+    const small = buildEmissionsMerkleTree(
+      buildIntegerEmissionsSchedule(
+        { cap: 1_000_000n, epochsPerYear: 4, earlyYears: 1, midYears: 1, tailYears: 1 },
+        { decimals: 0 }
+      )
+    );
+    return {
+      defaultDecimals18: full.root,
+      smallDecimals0: small.root,
+      smallDecimals0ProofEpoch5: getEmissionsMerkleProof(small, 5),
+    };
+  })(),
+
+  /**
+   * Tagged weight-shape kernel vectors (src/emissions/weightShapes.ts).
+   * Transcendental shapes use deterministic mode; asserted bit-exactly.
+   */
+  weightShapes: {
+    "linear_n5": linearWeights(5),
+    "constant_n3": constantWeights(3),
+    "powerLaw_n5_exponent1.5": powerLawWeights(5, 1.5, { deterministic: true }),
+    "logistic_n6_steepness8_midpoint0.5": logisticTaperWeights(6, 8, 0.5, { deterministic: true }),
+    "halving_n8_periods4": halvingWeights(8, 4),
+  },
+
   /** shapeWeights kernel vectors (front-loading weight generator). */
   shapeWeights: {
     "n5_shape2": shapeWeights(5, 2.0),
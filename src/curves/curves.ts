@@ -3,8 +3,17 @@
  * 
  * Mathematical curve functions used for scoring, confidence shaping, and decay modeling.
  * All functions are pure and deterministic.
+ *
+ * Functions that evaluate a transcendental accept an optional trailing
+ * `{ deterministic: true }` to use the engine-independent implementations
+ * from `deterministic/deterministicMath`.
  */
 
+import {
+  transcendentals,
+  type DeterministicOptions
+} from "../deterministic/deterministicMath.js";
+
 /**
  * Standard logistic (sigmoid) function.
  * 
@@ -20,10 +29,18 @@
  * @param L - Maximum value (upper asymptote)
  * @param k - Steepness parameter (positive for increasing, negative for decreasing)
  * @param t0 - Midpoint (inflection point where value = L/2)
+ * @param options - Optional `{ deterministic: true }` for engine-independent exp
  * @returns Logistic curve value at t
  */
-export function logistic(t: number, L: number, k: number, t0: number): number {
-  return L / (1 + Math.exp(-k * (t - t0)));
+export function logistic(
+  t: number,
+  L: number,
+  k: number,
+  t0: number,
+  options: DeterministicOptions = {}
+): number {
+  const { exp } = transcendentals(options);
+  return L / (1 + exp(-k * (t - t0)));
 }
 
 /**
@@ -34,10 +51,16 @@ export function logistic(t: number, L: number, k: number, t0: number): number {
  * @param t - Input value
  * @param k - Steepness parameter
  * @param t0 - Midpoint
+ * @param options - Optional `{ deterministic: true }` for engine-independent exp
  * @returns Value in [0, 1]
  */
-export function logisticNormalized(t: number, k: number, t0: number): number {
-  return logistic(t, 1, k, t0);
+export function logisticNormalized(
+  t: number,
+  k: number,
+  t0: number,
+  options: DeterministicOptions = {}
+): number {
+  return logistic(t, 1, k, t0, options);
 }
 
 /**
@@ -50,14 +73,22 @@ export function logisticNormalized(t: number, k: number, t0: number): number {
  * @param L - Maximum value
  * @param k - Steepness parameter
  * @param t0 - Midpoint
+ * @param options - Optional `{ deterministic: true }` for engine-independent log
  * @returns Input value t, or null if y is out of valid range
  */
-export function inverseLogistic(y: number, L: number, k: number, t0: number): number | null {
+export function inverseLogistic(
+  y: number,
+  L: number,
+  k: number,
+  t0: number,
+  options: DeterministicOptions = {}
+): number | null {
   if (y <= 0 || y >= L) {
     return null; // Out of valid range
   }
   
-  return t0 - (1 / k) * Math.log((L / y) - 1);
+  const { log } = transcendentals(options);
+  return t0 - (1 / k) * log((L / y) - 1);
 }
 
 /**
@@ -68,10 +99,17 @@ export function inverseLogistic(y: number, L: number, k: number, t0: number): nu
  * @param t - Time or input value
  * @param A - Initial value at t=0
  * @param r - Growth rate (positive) or decay rate (negative)
+ * @param options - Optional `{ deterministic: true }` for engine-independent exp
  * @returns Exponential value at t
  */
-export function exponential(t: number, A: number, r: number): number {
-  return A * Math.exp(r * t);
+export function exponential(
+  t: number,
+  A: number,
+  r: number,
+  options: DeterministicOptions = {}
+): number {
+  const { exp } = transcendentals(options);
+  return A * exp(r * t);
 }
 
 /**
@@ -82,13 +120,20 @@ export function exponential(t: number, A: number, r: number): number {
  * @param t - Input value (must be positive for non-integer p)
  * @param A - Scaling constant
  * @param p - Power exponent
+ * @param options - Optional `{ deterministic: true }` for engine-independent pow
  * @returns Power law value at t
  */
-export function powerLaw(t: number, A: number, p: number): number {
+export function powerLaw(
+  t: number,
+  A: number,
+  p: number,
+  options: DeterministicOptions = {}
+): number {
   if (t < 0 && p !== Math.floor(p)) {
     throw new Error("Invalid: negative t with non-integer power");
   }
-  return A * Math.pow(t, p);
+  const { pow } = transcendentals(options);
+  return A * pow(t, p);
 }
 
 /**
@@ -101,10 +146,17 @@ export function powerLaw(t: number, A: number, p: number): number {
  * @param t - Input value
  * @param k - Steepness parameter
  * @param t0 - Midpoint
+ * @param options - Optional `{ deterministic: true }` for engine-independent tanh
  * @returns Value in [0, 1]
  */
-export function tanhNormalized(t: number, k: number, t0: number): number {
-  return (Math.tanh(k * (t - t0)) + 1) / 2;
+export function tanhNormalized(
+  t: number,
+  k: number,
+  t0: number,
+  options: DeterministicOptions = {}
+): number {
+  const { tanh } = transcendentals(options);
+  return (tanh(k * (t - t0)) + 1) / 2;
 }
 
 /**
@@ -5,20 +5,25 @@
  * Used for signal quality assessment and Proof of Insight (PoI) scoring in AFI Protocol.
  */
 
+import { transcendentals } from "../deterministic/deterministicMath.js";
+
 /**
  * Calculate exponential decay value.
  * 
  * Formula: V(t) = V0 * e^(-λ*t) where λ = ln(2) / half-life
  * 
- * @param params - Object containing initialValue, halfLife, and elapsed time
+ * @param params - Object containing initialValue, halfLife, elapsed time, and
+ *   optional `deterministic` flag (engine-independent exp)
  * @returns Decayed value at time t
  */
 export function exponentialDecay(params: {
   initialValue: number;
   halfLife: number;
   elapsed: number;
+  deterministic?: boolean;
 }): number {
   const { initialValue, halfLife, elapsed } = params;
+  const { exp } = transcendentals(params);
   
   if (halfLife <= 0) {
     throw new Error("Invalid: halfLife must be positive");
@@ -27,7 +32,7 @@ export function exponentialDecay(params: {
   // Decay constant: λ = ln(2) / half-life
   const lambda = Math.LN2 / halfLife;
   
-  return initialValue * Math.exp(-lambda * elapsed);
+  return initialValue * exp(-lambda * elapsed);
 }
 
 /**
@@ -35,7 +40,8 @@ export function exponentialDecay(params: {
  * 
  * Formula: V(t) = V0 / (1 + t/t0)^p
  * 
- * @param params - Object containing initialValue, timeScale, power, and elapsed time
+ * @param params - Object containing initialValue, timeScale, power, elapsed time, and
+ *   optional `deterministic` flag (engine-independent pow)
  * @returns Decayed value at time t
  */
 export function powerDecay(params: {
@@ -43,14 +49,16 @@ export function powerDecay(params: {
   timeScale: number;
   power: number;
   elapsed: number;
+  deterministic?: boolean;
 }): number {
   const { initialValue, timeScale, power, elapsed } = params;
+  const { pow } = transcendentals(params);
   
   if (timeScale <= 0) {
     throw new Error("Invalid: timeScale must be positive");
   }
   
-  return initialValue / Math.pow(1 + elapsed / timeScale, power);
+  return initialValue / pow(1 + elapsed / timeScale, power);
 }
 
 /**
@@ -139,18 +147,21 @@ export function adjustedHalfLife(params: {
  * 
  * Useful for scoring signals where recent data is more valuable.
  * 
- * @param params - Object containing baseScore, halfLife, and age
+ * @param params - Object containing baseScore, halfLife, age, and optional
+ *   `deterministic` flag (engine-independent exp)
  * @returns Time-weighted score
  */
 export function timeWeightedScore(params: {
   baseScore: number;
   halfLife: number;
   age: number;
+  deterministic?: boolean;
 }): number {
   return exponentialDecay({
     initialValue: params.baseScore,
     halfLife: params.halfLife,
-    elapsed: params.age
+    elapsed: params.age,
+    deterministic: params.deterministic
   });
 }
 
@@ -0,0 +1,571 @@
+/**
+ * Deterministic Transcendentals
+ *
+ * Engine-independent implementations of exp, expm1, log, pow and tanh.
+ *
+ * ECMAScript leaves Math.exp/log/pow/tanh "implementation-approximated", so
+ * their low-order bits may differ between engines and libm versions. The
+ * functions here are fixed-algorithm ports of FreeBSD msun (fdlibm) written
+ * only in terms of IEEE-754 basic operations (+, -, *, /, sqrt), which JS
+ * requires to be correctly rounded, plus exact bit manipulation. Every
+ * conforming runtime therefore produces bit-identical results.
+ *
+ * Accuracy is that of fdlibm (< 1 ulp); results are not guaranteed to be
+ * correctly rounded, but they are guaranteed to be reproducible. Kernels
+ * that feed hashed or content-addressed outputs opt in through
+ * `{ deterministic: true }` (see `transcendentals`).
+ */
+
+/**
+ * Option accepted by kernels that can switch to the deterministic functions.
+ */
+export interface DeterministicOptions {
+  /** Use the engine-independent transcendentals (default: false, uses Math.*) */
+  deterministic?: boolean;
+}
+
+/**
+ * A set of transcendental functions a kernel evaluates with.
+ */
+export interface Transcendentals {
+  exp: (x: number) => number;
+  expm1: (x: number) => number;
+  log: (x: number) => number;
+  pow: (x: number, y: number) => number;
+  tanh: (x: number) => number;
+}
+
+// Exact word access to float64 values (big-endian layout, engine-independent)
+const view = new DataView(new ArrayBuffer(8));
+
+function highWord(x: number): number {
+  view.setFloat64(0, x);
+  return view.getInt32(0);
+}
+
+function lowWord(x: number): number {
+  view.setFloat64(0, x);
+  return view.getUint32(4);
+}
+
+function fromWords(hi: number, lo: number): number {
+  view.setInt32(0, hi | 0);
+  view.setUint32(4, lo >>> 0);
+  return view.getFloat64(0);
+}
+
+function withLowWord(x: number, lo: number): number {
+  return fromWords(highWord(x), lo);
+}
+
+function withHighWord(x: number, hi: number): number {
+  return fromWords(hi, lowWord(x));
+}
+
+const huge = 1.0e300;
+const tiny = 1.0e-300;
+const twom1000 = 9.33263618503218878990e-302; // 2^-1000
+const two53 = 9007199254740992.0;
+const two54 = 1.80143985094819840000e16;
+const twom54 = 5.55111512312578270212e-17;
+
+const o_threshold = 7.09782712893383973096e2;
+const u_threshold = -7.45133219101941108420e2;
+const ln2_hi = 6.93147180369123816490e-1;
+const ln2_lo = 1.90821492927058770002e-10;
+const invln2 = 1.44269504088896338700e0;
+
+// exp polynomial on [0, 0.34658]
+const P1 = 1.66666666666666019037e-1;
+const P2 = -2.77777777770155933842e-3;
+const P3 = 6.61375632143793436117e-5;
+const P4 = -1.65339022054652515390e-6;
+const P5 = 4.13813679705723846039e-8;
+
+/**
+ * Multiply x by 2^n for -1076 <= n <= 1023 (single rounding for subnormal results).
+ */
+function scalbn(x: number, n: number): number {
+  if (n >= -1022) return x * fromWords((0x3ff + n) << 20, 0);
+  return x * fromWords((0x3ff + n + 54) << 20, 0) * twom54;
+}
+
+/**
+ * Deterministic e^x.
+ *
+ * @param x - Exponent
+ * @returns e^x (fdlibm algorithm, < 1 ulp)
+ */
+export function exp(x: number): number {
+  let hx = highWord(x);
+  const xsb = (hx >>> 31) & 1;
+  hx &= 0x7fffffff;
+
+  // Non-finite and overflow/underflow arguments
+  if (hx >= 0x40862e42) {
+    if (hx >= 0x7ff00000) {
+      if (((hx & 0xfffff) | lowWord(x)) !== 0) return x + x; // NaN
+      return xsb === 0 ? x : 0.0; // exp(+-inf) = {inf, 0}
+    }
+    if (x > o_threshold) return huge * huge;
+    if (x < u_threshold) return twom1000 * twom1000;
+  }
+
+  // Argument reduction: x = k*ln2 + r, |r| <= 0.5*ln2
+  let hi = 0;
+  let lo = 0;
+  let k = 0;
+  let r = x;
+  if (hx > 0x3fd62e42) {
+    if (hx < 0x3ff0a2b2) {
+      if (x === 1.0) return Math.E;
+      hi = xsb === 0 ? x - ln2_hi : x + ln2_hi;
+      lo = xsb === 0 ? ln2_lo : -ln2_lo;
+      k = 1 - xsb - xsb;
+    } else {
+      k = Math.trunc(invln2 * x + (xsb === 0 ? 0.5 : -0.5));
+      hi = x - k * ln2_hi; // k*ln2_hi is exact here
+      lo = k * ln2_lo;
+    }
+    r = hi - lo;
+  } else if (hx < 0x3e300000) {
+    return 1 + x; // |x| < 2^-28
+  }
+
+  const t = r * r;
+  const c = r - t * (P1 + t * (P2 + t * (P3 + t * (P4 + t * P5))));
+  if (k === 0) return 1 - ((r * c) / (c - 2.0) - r);
+  const y = 1 - ((lo - (r * c) / (2.0 - c)) - hi);
+  if (k >= -1021) {
+    if (k === 1024) return y * 2.0 * fromWords(0x7fe00000, 0);
+    return y * fromWords((0x3ff + k) << 20, 0);
+  }
+  return y * fromWords((0x3ff + k + 1000) << 20, 0) * twom1000;
+}
+
+// expm1 scaled polynomial coefficients
+const Q1 = -3.33333333333331316428e-2;
+const Q2 = 1.58730158725481460165e-3;
+const Q3 = -7.93650757867487942473e-5;
+const Q4 = 4.00821782732936239552e-6;
+const Q5 = -2.01099218183624371326e-7;
+
+/**
+ * Deterministic e^x - 1, accurate for small x.
+ *
+ * @param x - Exponent
+ * @returns e^x - 1 (fdlibm algorithm, < 1 ulp)
+ */
+export function expm1(x: number): number {
+  let hx = highWord(x);
+  const xsb = hx & 0x80000000;
+  hx &= 0x7fffffff;
+
+  // Huge and non-finite arguments
+  if (hx >= 0x4043687a) {
+    if (hx >= 0x40862e42) {
+      if (hx >= 0x7ff00000) {
+        if (((hx & 0xfffff) | lowWord(x)) !== 0) return x + x; // NaN
+        return xsb === 0 ? x : -1.0; // expm1(+-inf) = {inf, -1}
+      }
+      if (x > o_threshold) return huge * huge;
+    }
+    if (xsb !== 0) return tiny - 1; // x < -56*ln2
+  }
+
+  // Argument reduction
+  let k = 0;
+  let c = 0;
+  let r = x;
+  if (hx > 0x3fd62e42) {
+    let hi: number;
+    let lo: number;
+    if (hx < 0x3ff0a2b2) {
+      if (xsb === 0) {
+        hi = x - ln2_hi;
+        lo = ln2_lo;
+        k = 1;
+      } else {
+        hi = x + ln2_hi;
+        lo = -ln2_lo;
+        k = -1;
+      }
+    } else {
+      k = Math.trunc(invln2 * x + (xsb === 0 ? 0.5 : -0.5));
+      hi = x - k * ln2_hi;
+      lo = k * ln2_lo;
+    }
+    r = hi - lo;
+    c = (hi - r) - lo;
+  } else if (hx < 0x3c900000) {
+    return x; // |x| < 2^-54
+  }
+
+  const hfx = 0.5 * r;
+  const hxs = r * hfx;
+  const r1 = 1 + hxs * (Q1 + hxs * (Q2 + hxs * (Q3 + hxs * (Q4 + hxs * Q5))));
+  let t = 3.0 - r1 * hfx;
+  let e = hxs * ((r1 - t) / (6.0 - r * t));
+  if (k === 0) return r - (r * e - hxs);
+
+  e = r * (e - c) - c;
+  e -= hxs;
+  if (k === -1) return 0.5 * (r - e) - 0.5;
+  if (k === 1) {
+    if (r < -0.25) return -2.0 * (e - (r + 0.5));
+    return 1 + 2.0 * (r - e);
+  }
+  if (k <= -2 || k > 56) {
+    let y = 1 - (e - r);
+    if (k === 1024) y = y * 2.0 * fromWords(0x7fe00000, 0);
+    else y = y * fromWords((0x3ff + k) << 20, 0);
+    return y - 1;
+  }
+  let y: number;
+  if (k < 20) {
+    t = fromWords(0x3ff00000 - (0x200000 >> k), 0); // 1 - 2^-k
+    y = t - (e - r);
+  } else {
+    t = fromWords((0x3ff - k) << 20, 0); // 2^-k
+    y = r - (e + t);
+    y += 1;
+  }
+  return y * fromWords((0x3ff + k) << 20, 0);
+}
+
+// log polynomial coefficients
+const Lg1 = 6.666666666666735130e-1;
+const Lg2 = 3.999999999940941908e-1;
+const Lg3 = 2.857142874366239149e-1;
+const Lg4 = 2.222219843214978396e-1;
+const Lg5 = 1.818357216161805012e-1;
+const Lg6 = 1.531383769920937332e-1;
+const Lg7 = 1.479819860511658591e-1;
+
+/**
+ * Deterministic natural logarithm.
+ *
+ * @param x - Input value
+ * @returns ln(x) (NaN for x < 0, -Infinity for 0; fdlibm algorithm, < 1 ulp)
+ */
+export function log(x: number): number {
+  let hx = highWord(x);
+  const lx = lowWord(x);
+  let v = x;
+
+  let k = 0;
+  if (hx < 0x00100000) {
+    if (((hx & 0x7fffffff) | lx) === 0) return -Infinity; // log(+-0)
+    if (hx < 0) return NaN; // log(-#)
+    k -= 54;
+    v *= two54; // subnormal: scale up
+    hx = highWord(v);
+  }
+  if (hx >= 0x7ff00000) return v + v;
+  k += (hx >> 20) - 1023;
+  hx &= 0x000fffff;
+  const i = (hx + 0x95f64) & 0x100000;
+  v = withHighWord(v, hx | (i ^ 0x3ff00000)); // normalize v or v/2
+  k += i >> 20;
+  const f = v - 1.0;
+  const dk = k;
+
+  if ((0x000fffff & (2 + hx)) < 3) {
+    // |f| < 2^-20
+    if (f === 0) {
+      return k === 0 ? 0 : dk * ln2_hi + dk * ln2_lo;
+    }
+    const R = f * f * (0.5 - 0.33333333333333333 * f);
+    return k === 0 ? f - R : dk * ln2_hi - ((R - dk * ln2_lo) - f);
+  }
+
+  const s = f / (2.0 + f);
+  const z = s * s;
+  const w = z * z;
+  const t1 = w * (Lg2 + w * (Lg4 + w * Lg6));
+  const t2 = z * (Lg1 + w * (Lg3 + w * (Lg5 + w * Lg7)));
+  const R = t2 + t1;
+  if (((hx - 0x6147a) | (0x6b851 - hx)) > 0) {
+    const hfsq = 0.5 * f * f;
+    if (k === 0) return f - (hfsq - s * (hfsq + R));
+    return dk * ln2_hi - ((hfsq - (s * (hfsq + R) + dk * ln2_lo)) - f);
+  }
+  if (k === 0) return f - s * (f - R);
+  return dk * ln2_hi - ((s * (f - R) - dk * ln2_lo) - f);
+}
+
+// pow constants
+const bp = [1.0, 1.5];
+const dp_h = [0.0, 5.84962487220764160156e-1];
+const dp_l = [0.0, 1.35003920212974897128e-8];
+const L1 = 5.99999999999994648725e-1;
+const L2 = 4.28571428578550184252e-1;
+const L3 = 3.33333329818377432918e-1;
+const L4 = 2.72728123808534006489e-1;
+const L5 = 2.30660745775561754067e-1;
+const L6 = 2.06975017800338417784e-1;
+const lg2 = 6.93147180559945286227e-1;
+const lg2_h = 6.93147182464599609375e-1;
+const lg2_l = -1.90465429995776804525e-9;
+const ovt = 8.0085662595372944372e-17;
+const cp = 9.61796693925975554329e-1;
+const cp_h = 9.61796700954437255859e-1;
+const cp_l = -7.02846165095275826516e-9;
+const ivln2 = 1.44269504088896338700e0;
+const ivln2_h = 1.44269502162933349609e0;
+const ivln2_l = 1.92596299112661746887e-8;
+
+/**
+ * Deterministic x^y.
+ *
+ * @param x - Base
+ * @param y - Exponent
+ * @returns x^y with IEEE-754/ECMAScript special cases (fdlibm algorithm, < 1 ulp)
+ */
+export function pow(x: number, y: number): number {
+  const hx = highWord(x);
+  const lx = lowWord(x);
+  const hy = highWord(y);
+  const ly = lowWord(y);
+  let ix = hx & 0x7fffffff;
+  const iy = hy & 0x7fffffff;
+
+  // y == 0: x^0 = 1
+  if ((iy | ly) === 0) return 1;
+
+  // NaN arguments (ECMAScript: 1^NaN and 1^+-Infinity are NaN)
+  if (Number.isNaN(x) || Number.isNaN(y)) return NaN;
+  if (iy === 0x7ff00000 && ly === 0 && ix === 0x3ff00000 && lx === 0) return NaN;
+
+  // x == 1: 1^y = 1
+  if (hx === 0x3ff00000 && lx === 0) return 1;
+
+  // yisint: 0 = not an integer, 1 = odd integer, 2 = even integer (only needed for x < 0)
+  let yisint = 0;
+  if (hx < 0) {
+    if (iy >= 0x43400000) {
+      yisint = 2;
+    } else if (iy >= 0x3ff00000) {
+      const k = (iy >> 20) - 0x3ff;
+      if (k > 20) {
+        const j = ly >>> (52 - k);
+        if (((j << (52 - k)) >>> 0) === ly) yisint = 2 - (j & 1);
+      } else if (ly === 0) {
+        const j = iy >> (20 - k);
+        if (j << (20 - k) === iy) yisint = 2 - (j & 1);
+      }
+    }
+  }
+
+  // Special values of y
+  if (ly === 0) {
+    if (iy === 0x7ff00000) {
+      // y is +-inf
+      if (((ix - 0x3ff00000) | lx) === 0) return NaN; // (-1)^+-inf
+      if (ix >= 0x3ff00000) return hy >= 0 ? y : 0; // (|x|>1)^+-inf = inf, 0
+      return hy < 0 ? -y : 0; // (|x|<1)^-,+inf = inf, 0
+    }
+    if (iy === 0x3ff00000) {
+      return hy < 0 ? 1 / x : x; // y is +-1
+    }
+    if (hy === 0x40000000) return x * x; // y is 2
+    if (hy === 0x3fe00000 && hx >= 0) return Math.sqrt(x); // y is 0.5, x >= +0
+  }
+
+  let ax = Math.abs(x);
+  // Special values of x: +-0, +-inf, +-1
+  if (lx === 0 && (ix === 0x7ff00000 || ix === 0 || ix === 0x3ff00000)) {
+    let z = ax;
+    if (hy < 0) z = 1 / z;
+    if (hx < 0) {
+      if (((ix - 0x3ff00000) | yisint) === 0) {
+        z = NaN; // (-1)^non-int
+      } else if (yisint === 1) {
+        z = -z; // (x<0)^odd = -(|x|^odd)
+      }
+    }
+    return z;
+  }
+
+  let n = (hx >>> 31) - 1;
+
+  // (x<0)^(non-int) is NaN
+  if ((n | yisint) === 0) return NaN;
+
+  // Sign of result: negative for (-ve)^(odd int)
+  const s = (n | (yisint - 1)) === 0 ? -1 : 1;
+
+  let t1: number;
+  let t2: number;
+  if (iy > 0x41e00000) {
+    // |y| > 2^31
+    if (iy > 0x43f00000) {
+      // |y| > 2^64: must over/underflow
+      if (ix <= 0x3fefffff) return hy < 0 ? huge * huge : tiny * tiny;
+      if (ix >= 0x3ff00000) return hy > 0 ? huge * huge : tiny * tiny;
+    }
+    // Over/underflow if x is not close to one
+    if (ix < 0x3fefffff) return hy < 0 ? s * huge * huge : s * tiny * tiny;
+    if (ix > 0x3ff00000) return hy > 0 ? s * huge * huge : s * tiny * tiny;
+    // |1-x| <= 2^-20: log(x) by x - x^2/2 + x^3/3 - x^4/4
+    const t = ax - 1;
+    const w = t * t * (0.5 - t * (0.3333333333333333333333 - t * 0.25));
+    const u = ivln2_h * t;
+    const v = t * ivln2_l - w * ivln2;
+    t1 = withLowWord(u + v, 0);
+    t2 = v - (t1 - u);
+  } else {
+    n = 0;
+    // Subnormal x
+    if (ix < 0x00100000) {
+      ax *= two53;
+      n -= 53;
+      ix = highWord(ax);
+    }
+    n += (ix >> 20) - 0x3ff;
+    const j = ix & 0x000fffff;
+    // Determine interval
+    ix = j | 0x3ff00000;
+    let k: number;
+    if (j <= 0x3988e) {
+      k = 0; // |x| < sqrt(3/2)
+    } else if (j < 0xbb67a) {
+      k = 1; // |x| < sqrt(3)
+    } else {
+      k = 0;
+      n += 1;
+      ix -= 0x00100000;
+    }
+    ax = withHighWord(ax, ix);
+
+    // ss = s_h + s_l = (x-1)/(x+1) or (x-1.5)/(x+1.5)
+    let u = ax - bp[k];
+    let v = 1 / (ax + bp[k]);
+    const ss = u * v;
+    const s_h = withLowWord(ss, 0);
+    // t_h = ax + bp[k] high
+    let t_h = fromWords(((ix >> 1) | 0x20000000) + 0x00080000 + (k << 18), 0);
+    let t_l = ax - (t_h - bp[k]);
+    const s_l = v * ((u - s_h * t_h) - s_h * t_l);
+    // log(ax)
+    let s2 = ss * ss;
+    let r = s2 * s2 * (L1 + s2 * (L2 + s2 * (L3 + s2 * (L4 + s2 * (L5 + s2 * L6)))));
+    r += s_l * (s_h + ss);
+    s2 = s_h * s_h;
+    t_h = withLowWord(3.0 + s2 + r, 0);
+    t_l = r - ((t_h - 3.0) - s2);
+    // u + v = ss * (1 + ...)
+    u = s_h * t_h;
+    v = s_l * t_h + t_l * ss;
+    // 2/(3log2) * (ss + ...)
+    const p_h = withLowWord(u + v, 0);
+    const p_l = v - (p_h - u);
+    const z_h = cp_h * p_h;
+    const z_l = cp_l * p_h + p_l * cp + dp_l[k];
+    // log2(ax) = (ss + ...) * 2/(3log2) = n + dp_h + z_h + z_l
+    const t = n;
+    t1 = withLowWord(((z_h + z_l) + dp_h[k]) + t, 0);
+    t2 = z_l - (((t1 - t) - dp_h[k]) - z_h);
+  }
+
+  // Split y into y1 + y2 and compute (y1 + y2) * (t1 + t2)
+  const y1 = withLowWord(y, 0);
+  let p_l = (y - y1) * t1 + y * t2;
+  let p_h = y1 * t1;
+  let z = p_l + p_h;
+  let j = highWord(z);
+  let i = lowWord(z);
+  if (j >= 0x40900000) {
+    // z >= 1024
+    if (((j - 0x40900000) | i) !== 0) return s * huge * huge;
+    if (p_l + ovt > z - p_h) return s * huge * huge;
+  } else if ((j & 0x7fffffff) >= 0x4090cc00) {
+    // z <= -1075
+    if (((j - 0xc090cc00) | i) !== 0) return s * tiny * tiny;
+    if (p_l <= z - p_h) return s * tiny * tiny;
+  }
+
+  // 2^(p_h + p_l)
+  i = j & 0x7fffffff;
+  let k = (i >> 20) - 0x3ff;
+  n = 0;
+  if (i > 0x3fe00000) {
+    // |z| > 0.5: n = [z + 0.5]
+    n = j + (0x00100000 >> (k + 1));
+    k = ((n & 0x7fffffff) >> 20) - 0x3ff;
+    const t = fromWords(n & ~(0x000fffff >> k), 0);
+    n = ((n & 0x000fffff) | 0x00100000) >> (20 - k);
+    if (j < 0) n = -n;
+    p_h -= t;
+  }
+  const t = withLowWord(p_l + p_h, 0);
+  const u = t * lg2_h;
+  const v = (p_l - (t - p_h)) * lg2 + t * lg2_l;
+  z = u + v;
+  const w = v - (z - u);
+  const tt = z * z;
+  const tp = z - tt * (P1 + tt * (P2 + tt * (P3 + tt * (P4 + tt * P5))));
+  const r = (z * tp) / (tp - 2) - (w + z * w);
+  z = 1 - (r - z);
+  j = (highWord(z) + (n << 20)) | 0;
+  if (j >> 20 <= 0) {
+    z = scalbn(z, n); // subnormal output
+  } else {
+    z = withHighWord(z, j);
+  }
+  return s * z;
+}
+
+/**
+ * Deterministic hyperbolic tangent.
+ *
+ * @param x - Input value
+ * @returns tanh(x) in [-1, 1] (fdlibm algorithm via expm1)
+ */
+export function tanh(x: number): number {
+  const jx = highWord(x);
+  const ix = jx & 0x7fffffff;
+
+  if (ix >= 0x7ff00000) {
+    // tanh(+-inf) = +-1, tanh(NaN) = NaN
+    return jx >= 0 ? 1 / x + 1 : 1 / x - 1;
+  }
+
+  let z: number;
+  if (ix < 0x40360000) {
+    // |x| < 22
+    if (ix < 0x3e300000) return x; // |x| < 2^-28
+    if (ix >= 0x3ff00000) {
+      // |x| >= 1
+      const t = expm1(2 * Math.abs(x));
+      z = 1 - 2 / (t + 2);
+    } else {
+      const t = expm1(-2 * Math.abs(x));
+      z = -t / (t + 2);
+    }
+  } else {
+    z = 1 - tiny; // |x| >= 22: +-1
+  }
+  return jx >= 0 ? z : -z;
+}
+
+const NATIVE: Transcendentals = {
+  exp: Math.exp,
+  expm1: Math.expm1,
+  log: Math.log,
+  pow: Math.pow,
+  tanh: Math.tanh,
+};
+
+const DETERMINISTIC: Transcendentals = { exp, expm1, log, pow, tanh };
+
+/**
+ * Select the transcendental functions a kernel should evaluate with.
+ *
+ * @param options - `{ deterministic: true }` selects the engine-independent
+ *   implementations; otherwise the native Math functions are used
+ * @returns The selected exp/expm1/log/pow/tanh set
+ */
+export function transcendentals(options: DeterministicOptions = {}): Transcendentals {
+  return options.deterministic ? DETERMINISTIC : NATIVE;
+}
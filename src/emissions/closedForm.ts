@@ -0,0 +1,183 @@
+/**
+ * AFI Closed-Form Emissions Evaluation
+ *
+ * O(1) per-epoch and cumulative emissions without materializing arrays, for
+ * fine-grained cadences (hourly, per-block) where `buildEmissionsSchedule`
+ * would allocate millions of entries.
+ *
+ * Exponential phase weights form a geometric series: with n epochs and
+ * a = shape / (n-1), epoch i of the phase (0-based) has weight
+ *   w[i] = exp(-a * i) * (1 - exp(-a)) / (1 - exp(-a * n))
+ * and its first k epochs carry
+ *   W(k) = (1 - exp(-a * k)) / (1 - exp(-a * n))
+ * of the phase supply (evaluated with expm1; a = 0 is uniform). As in the
+ * builder, phase supplies are cap * (targetFraction - previous) and the
+ * series is rescaled to sum to the cap.
+ *
+ * Only exponential shapes (plain numbers or `{ kind: "exponential" }`) have
+ * this closed form; continuity mode is not supported.
+ *
+ * Accuracy: results match the array-based schedule to within
+ * CLOSED_FORM_EMISSIONS_TOLERANCE, relative to the epoch's emission for
+ * per-epoch amounts and relative to the cap for cumulative amounts, for
+ * schedules of up to 1,000,000 epochs (about 114 years at hourly cadence),
+ * any valid shapes. The difference is the rounding the array builder
+ * accumulates in its float sums, not closed-form error: it is about 7e-14
+ * for curved phases even at hourly cadence, but summing many equal weights
+ * drifts by roughly 5e-17 per epoch of a uniform (shape 0) phase, reaching
+ * about 3e-11 at 1,000,000 epochs. Longer schedules drift proportionally
+ * further. One epoch is excluded: the array
+ * builder folds the unit-sum rounding of a tagged `{ kind: "exponential" }`
+ * phase into its last epoch (see `weightShapes.ts`), moving it by up to 1e-6
+ * relative, which the closed form does not reproduce.
+ */
+
+import { transcendentals } from "../deterministic/deterministicMath.js";
+import {
+  phaseEpochCount,
+  resolveEmissionsParams,
+  toPhasedEmissionsParams,
+  type BuildEmissionsOptions,
+  type DeepPartial,
+  type EmissionsParams
+} from "./emissionsSchedule.js";
+import { assertValidEmissionsParams } from "./validation.js";
+import type { PhaseShape } from "./weightShapes.js";
+
+/**
+ * Relative tolerance of closed-form results against the array-based schedule
+ * of up to 1,000,000 epochs (about 3x the largest measured difference, from
+ * a uniform phase).
+ */
+export const CLOSED_FORM_EMISSIONS_TOLERANCE = 1e-10;
+
+export interface ClosedFormPhase {
+  /** First epoch of the phase (1-indexed) */
+  startEpoch: number;
+  /** Last epoch of the phase (inclusive) */
+  endEpoch: number;
+  /** Phase supply before rescaling: cap * (targetFraction - previous) */
+  supply: number;
+  /** Supply of all earlier phases before rescaling */
+  supplyBefore: number;
+  /** Per-epoch decay rate a = shape / (n-1) (0 for single-epoch phases) */
+  rate: number;
+}
+
+export interface ClosedFormEmissionsSchedule {
+  /** Parameters used to generate this schedule */
+  params: EmissionsParams;
+  /** Total number of epochs in the schedule */
+  totalEpochs: number;
+  phases: ClosedFormPhase[];
+  /** Rescaling factor: cap / total phase supply */
+  scale: number;
+  /** Whether the deterministic transcendentals are used */
+  deterministic: boolean;
+}
+
+function exponentialShape(shape: PhaseShape): number {
+  if (typeof shape === "number") return shape;
+  if (shape.kind === "exponential") return shape.shape;
+  throw new Error("Invalid: closed-form evaluation requires exponential phase shapes");
+}
+
+/**
+ * Build a closed-form emissions schedule (no per-epoch arrays).
+ *
+ * @param params - Overrides deep-merged onto DEFAULT_EMISSIONS_PARAMS
+ * @param options - Optional `{ deterministic: true }` for engine-independent
+ *                  exp and `{ strict: true }` to validate params first
+ * @returns Schedule evaluated lazily by the closed-form getters
+ * @throws Error if a phase shape is not exponential
+ * @throws EmissionsParamsError in strict mode if the effective params are invalid
+ */
+export function buildClosedFormEmissionsSchedule(
+  params: DeepPartial<EmissionsParams> = {},
+  options: Pick<BuildEmissionsOptions, "deterministic" | "strict"> = {}
+): ClosedFormEmissionsSchedule {
+  const p = resolveEmissionsParams(params).params;
+  if (options.strict) {
+    assertValidEmissionsParams(p);
+  }
+
+  const cap = Number(p.cap);
+  const phases: ClosedFormPhase[] = [];
+  let totalEpochs = 0;
+  let supplyBefore = 0;
+  let previousFraction = 0;
+  for (const phase of toPhasedEmissionsParams(p).phases) {
+    const n = phaseEpochCount(phase.years, p.epochsPerYear);
+    const shape = exponentialShape(phase.shape);
+    const supply = cap * (phase.targetFraction - previousFraction);
+    phases.push({
+      startEpoch: totalEpochs + 1,
+      endEpoch: totalEpochs + n,
+      supply,
+      supplyBefore,
+      rate: n > 1 ? shape / (n - 1) : 0,
+    });
+    totalEpochs += n;
+    supplyBefore += supply;
+    previousFraction = phase.targetFraction;
+  }
+
+  return {
+    params: p,
+    totalEpochs,
+    phases,
+    scale: cap / supplyBefore,
+    deterministic: options.deterministic ?? false,
+  };
+}
+
+function phaseAt(schedule: ClosedFormEmissionsSchedule, epoch: number): ClosedFormPhase {
+  for (const phase of schedule.phases) {
+    if (epoch <= phase.endEpoch) return phase;
+  }
+  return schedule.phases[schedule.phases.length - 1];
+}
+
+/**
+ * Get the emission budget for a specific epoch in O(1).
+ *
+ * @param schedule - Closed-form emissions schedule
+ * @param epoch - Epoch number (1-indexed)
+ * @returns Emission budget for that epoch (0 if outside the schedule)
+ */
+export function getClosedFormEpochEmission(
+  schedule: ClosedFormEmissionsSchedule,
+  epoch: number
+): number {
+  if (epoch < 1 || epoch > schedule.totalEpochs) {
+    return 0;
+  }
+  const { exp, expm1 } = transcendentals(schedule);
+  const phase = phaseAt(schedule, epoch);
+  const n = phase.endEpoch - phase.startEpoch + 1;
+  const i = epoch - phase.startEpoch;
+  const weight =
+    phase.rate === 0 ? 1 / n : (exp(-phase.rate * i) * expm1(-phase.rate)) / expm1(-phase.rate * n);
+  return phase.supply * weight * schedule.scale;
+}
+
+/**
+ * Get cumulative emissions up to and including an epoch in O(1).
+ *
+ * @param schedule - Closed-form emissions schedule
+ * @param epoch - Epoch number (1-indexed)
+ * @returns Cumulative emissions (0 before epoch 1, the cap at/after the final epoch)
+ */
+export function getClosedFormCumulativeEmissions(
+  schedule: ClosedFormEmissionsSchedule,
+  epoch: number
+): number {
+  if (epoch < 1) return 0;
+  if (epoch >= schedule.totalEpochs) return Number(schedule.params.cap);
+  const { expm1 } = transcendentals(schedule);
+  const phase = phaseAt(schedule, epoch);
+  const n = phase.endEpoch - phase.startEpoch + 1;
+  const k = epoch - phase.startEpoch + 1;
+  const fraction = phase.rate === 0 ? k / n : expm1(-phase.rate * k) / expm1(-phase.rate * n);
+  return (phase.supplyBefore + phase.supply * fraction) * schedule.scale;
+}
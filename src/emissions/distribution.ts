@@ -0,0 +1,162 @@
+/**
+ * AFI Emissions Pro-Rata Distribution
+ *
+ * Canonical kernel turning an epoch budget (integer base units) and
+ * participant scores into integer payouts, so consumers stop writing their
+ * own "score × pool / Σscores" loops with diverging rounding.
+ *
+ * Rules, applied in order:
+ * 1. Eligibility: participants with score 0 or below `minScore` receive
+ *    nothing. Negative or non-finite scores are rejected.
+ * 2. Pro-rata split of the budget over eligible scores with largest-remainder
+ *    rounding (exact float64 scores, ties to the earlier participant).
+ * 3. Caps: a participant whose share exceeds its cap is paid the cap and the
+ *    overflow is re-split among the uncapped participants (water-filling),
+ *    until no share exceeds its cap.
+ * 4. Dust: uncapped shares below `minPayout` are dust. With `dust:
+ *    "redistribute"` (default) the lowest-scoring dust participant is
+ *    dropped and the budget re-split, one participant at a time, until no
+ *    dust remains (ties to the earlier participant: among equal scores the
+ *    later one is dropped first); with `dust: "retain"` dust shares are
+ *    withheld instead.
+ *
+ * `payouts` plus `undistributed` sum exactly to the budget. Nothing is
+ * undistributed unless no participant can absorb it (zero total score,
+ * every participant capped, dust retained, or a lone remaining uncapped
+ * share still below `minPayout`).
+ */
+
+import { largestRemainderAllocation } from "./integerSchedule.js";
+
+export interface DistributionParticipant {
+  /** Unique participant id */
+  id: string;
+  /** Finite, non-negative score */
+  score: number;
+  /** Maximum payout in base units (default: uncapped) */
+  cap?: bigint;
+}
+
+export interface DistributionOptions {
+  /** Minimum score to be eligible (default: any positive score) */
+  minScore?: number;
+  /** Minimum uncapped payout in base units; smaller shares are dust (default: 0n) */
+  minPayout?: bigint;
+  /** Dust handling (default: "redistribute") */
+  dust?: "redistribute" | "retain";
+}
+
+export type PayoutStatus = "paid" | "capped" | "ineligible" | "dust";
+
+export interface Payout {
+  id: string;
+  /** Payout in base units */
+  amount: bigint;
+  status: PayoutStatus;
+}
+
+export interface DistributionResult {
+  /** One payout per participant, in input order */
+  payouts: Payout[];
+  /** Sum of payouts */
+  distributed: bigint;
+  /** Budget left unpaid (budget - distributed) */
+  undistributed: bigint;
+}
+
+/**
+ * Distribute a budget pro rata to scores.
+ *
+ * @param budget - Budget in base units (e.g. a reward bucket's allocation)
+ * @param participants - Participants with unique ids
+ * @param options - Eligibility threshold, minimum payout and dust handling
+ * @returns Integer payouts per participant and the undistributed remainder
+ * @throws Error if the budget is negative or participants/options are invalid
+ */
+export function distributeProRata(
+  budget: bigint,
+  participants: DistributionParticipant[],
+  options: DistributionOptions = {}
+): DistributionResult {
+  if (budget < 0n) {
+    throw new Error("Invalid: budget must be non-negative");
+  }
+  if (new Set(participants.map(p => p.id)).size !== participants.length) {
+    throw new Error("Invalid: participant ids must be unique");
+  }
+  for (const p of participants) {
+    if (!Number.isFinite(p.score) || p.score < 0) {
+      throw new Error("Invalid: scores must be finite and non-negative");
+    }
+    if (p.cap !== undefined && p.cap < 0n) {
+      throw new Error("Invalid: caps must be non-negative");
+    }
+  }
+  const minScore = options.minScore ?? 0;
+  if (!Number.isFinite(minScore) || minScore < 0) {
+    throw new Error("Invalid: minScore must be finite and non-negative");
+  }
+  const minPayout = options.minPayout ?? 0n;
+  if (minPayout < 0n) {
+    throw new Error("Invalid: minPayout must be non-negative");
+  }
+  const dust = options.dust ?? "redistribute";
+  if (dust !== "redistribute" && dust !== "retain") {
+    throw new Error("Invalid: dust must be \"redistribute\" or \"retain\"");
+  }
+
+  const amounts = participants.map(() => 0n);
+  const status: PayoutStatus[] = participants.map(p =>
+    p.score > 0 && p.score >= minScore ? "paid" : "ineligible"
+  );
+
+  for (;;) {
+    const active = participants.map((_, i) => i).filter(i => status[i] === "paid");
+    if (active.length === 0) break;
+    let remaining = budget;
+    participants.forEach((p, i) => {
+      if (status[i] === "capped") remaining -= p.cap as bigint;
+    });
+    const shares = largestRemainderAllocation(
+      remaining,
+      active.map(i => participants[i].score)
+    );
+    active.forEach((i, k) => {
+      amounts[i] = shares[k];
+    });
+
+    // Caps first: pay the cap and re-split the overflow
+    const over = active.filter(i => {
+      const cap = participants[i].cap;
+      return cap !== undefined && amounts[i] > cap;
+    });
+    if (over.length > 0) {
+      for (const i of over) {
+        status[i] = "capped";
+        amounts[i] = participants[i].cap as bigint;
+      }
+      continue;
+    }
+
+    const below = active.filter(i => amounts[i] < minPayout);
+    if (below.length === 0) break;
+    if (dust === "retain") {
+      for (const i of below) {
+        status[i] = "dust";
+        amounts[i] = 0n;
+      }
+      break;
+    }
+    // Drop the lowest-scoring dust participant (the later one on ties), then re-split
+    const dropped = below.reduce((low, i) => (participants[i].score <= participants[low].score ? i : low));
+    status[dropped] = "dust";
+    amounts[dropped] = 0n;
+  }
+
+  const distributed = amounts.reduce((acc, a) => acc + a, 0n);
+  return {
+    payouts: participants.map((p, i) => ({ id: p.id, amount: amounts[i], status: status[i] })),
+    distributed,
+    undistributed: budget - distributed,
+  };
+}
@@ -8,8 +8,26 @@
  * - Early (4 years): 33⅓% of supply, aggressively front-loaded
  * - Mid (~24 years): 33⅓% → 80%, moderately front-loaded  
  * - Tail (~25 years): 80% → 100%, gently front-loaded
+ *
+ * The three-phase model is a preset of the generalized N-phase builder
+ * (`buildPhasedEmissionsSchedule`), which takes an ordered list of phases,
+ * each with a duration, a cumulative target fraction and a weight shape.
  */
 
+import type { DeterministicOptions } from "../deterministic/deterministicMath.js";
+import {
+  exponentialShapeForFirstWeight,
+  shapeWeights,
+  weightsForShape,
+  type PhaseShape
+} from "./weightShapes.js";
+import {
+  assertValidEmissionsParams,
+  assertValidPhasedEmissionsParams
+} from "./validation.js";
+
+export { shapeWeights } from "./weightShapes.js";
+
 export interface EmissionsParams {
   /** Total supply cap (default: 86 billion) */
   cap: bigint;
@@ -27,10 +45,13 @@ export interface EmissionsParams {
     f80: number;  // default: 0.8
     f100: number; // default: 1.0
   };
-  /** Front-loading shape factors (higher = more front-loaded) */
-  shapeEarly: number;  // default: 2.0
-  shapeMid: number;    // default: 1.5
-  shapeTail: number;   // default: 1.2
+  /**
+   * Per-phase weight shapes: exponential front-loading factors
+   * (higher = more front-loaded) or tagged `WeightShape`s
+   */
+  shapeEarly: PhaseShape;  // default: 2.0
+  shapeMid: PhaseShape;    // default: 1.5
+  shapeTail: PhaseShape;   // default: 1.2
 }
 
 export interface EmissionsSchedule {
@@ -42,6 +63,8 @@ export interface EmissionsSchedule {
   emissions: number[];
   /** Cumulative emissions at each epoch */
   cumulative: number[];
+  /** Continuity-mode report (only present when built with `continuity: true`) */
+  continuity?: ContinuityReport;
   /** Milestone information */
   milestones: {
     epochTo33Pct: number;
@@ -53,6 +76,110 @@ export interface EmissionsSchedule {
   };
 }
 
+/**
+ * One phase of a generalized (N-phase) emissions schedule.
+ */
+export interface EmissionsPhase {
+  /** Phase duration in years */
+  years: number;
+  /** Cumulative fraction of the cap reached at the end of this phase */
+  targetFraction: number;
+  /** Exponential front-loading factor or tagged `WeightShape` */
+  shape: PhaseShape;
+}
+
+export interface PhasedEmissionsParams {
+  /** Total supply cap */
+  cap: bigint;
+  /** Epochs per year */
+  epochsPerYear: number;
+  /** Ordered phases; target fractions increase phase by phase */
+  phases: EmissionsPhase[];
+}
+
+export interface EmissionsPhaseSummary {
+  /** First epoch of the phase (1-indexed) */
+  startEpoch: number;
+  /** Last epoch of the phase (inclusive) */
+  endEpoch: number;
+  /** Cumulative target fraction of the phase */
+  targetFraction: number;
+  /** First epoch whose cumulative emissions reach the target fraction */
+  milestoneEpoch: number;
+  /** Milestone epoch expressed in years */
+  milestoneYears: number;
+}
+
+export interface PhasedEmissionsSchedule {
+  /** Parameters used to generate this schedule */
+  params: PhasedEmissionsParams;
+  /** Total number of epochs in the schedule */
+  totalEpochs: number;
+  /** Per-epoch emission amounts (in base units, not wei) */
+  emissions: number[];
+  /** Cumulative emissions at each epoch */
+  cumulative: number[];
+  /** Epoch range and milestone of each phase, in phase order */
+  phases: EmissionsPhaseSummary[];
+  /** Continuity-mode report (only present when built with `continuity: true`) */
+  continuity?: ContinuityReport;
+}
+
+/**
+ * Shapes and boundary fit of a continuity-mode build.
+ */
+export interface ContinuityReport {
+  /** Exponential shape factor per phase (first as given, later ones solved) */
+  shapes: number[];
+  /**
+   * Relative emission step at each phase boundary,
+   * (first epoch of next phase - last epoch of previous) / last epoch of previous
+   */
+  boundaryGaps: number[];
+}
+
+/**
+ * Recursive `Partial`: nested objects may be overridden field by field.
+ * Arrays, primitives (number, bigint, ...) and weight shapes are replaced whole.
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[]
+    ? T[K]
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K];
+};
+
+/**
+ * Effective params plus the dotted paths of every overridden field.
+ */
+export interface ResolvedEmissionsParams {
+  /** Overrides deep-merged onto the base params */
+  params: EmissionsParams;
+  /** Dotted paths of the fields set by the overrides, e.g. "targets.f33" */
+  overridden: string[];
+}
+
+/**
+ * Options for building an emissions schedule.
+ */
+export interface BuildEmissionsOptions extends DeterministicOptions {
+  /**
+   * Validate the effective params before building and throw
+   * `EmissionsParamsError` on any violation (default: false)
+   */
+  strict?: boolean;
+  /**
+   * Remove the emission steps at phase boundaries (default: false). The first
+   * phase keeps its shape; each later exponential shape is solved so its
+   * first epoch emits exactly what the previous phase's last epoch emitted.
+   * Phase supplies (and so milestones) are unchanged. Requires exponential
+   * (numeric) shapes; solved shapes are echoed in the returned params and
+   * may be negative (back-loaded) when a phase must ramp up to continue.
+   */
+  continuity?: boolean;
+}
+
 /**
  * Default emissions parameters matching the canonical Wolfram model.
  */
@@ -73,70 +200,150 @@ export const DEFAULT_EMISSIONS_PARAMS: EmissionsParams = {
 };
 
 /**
- * Generate front-loaded weights that sum to 1.
- * Uses exponential decay: w[i] = exp(-shape * i / (n-1))
- * 
- * @param n - Number of weights to generate
- * @param shape - Shape parameter (higher = more front-loaded)
- * @returns Array of weights summing to 1
+ * Phase shape fields. A shape override always replaces the base shape
+ * whole, so fields of two different shape kinds are never combined.
  */
-export function shapeWeights(n: number, shape: number): number[] {
-  if (n <= 0) return [];
-  if (n === 1) return [1.0];
+const SHAPE_FIELDS: ReadonlySet<string> = new Set(["shapeEarly", "shapeMid", "shapeTail"]);
 
-  const weights: number[] = [];
-  const denominator = Math.max(1, n - 1);
-
-  for (let i = 0; i < n; i++) {
-    const t = i / denominator;
-    weights.push(Math.exp(-shape * t));
+/**
+ * Deep-merge overrides onto a base object, recording overridden leaf paths.
+ * Undefined override values are ignored; arrays, primitives and shape
+ * fields replace.
+ */
+function mergeDeep(
+  base: Record<string, unknown>,
+  overrides: Record<string, unknown>,
+  prefix: string,
+  overridden: string[]
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const key of Object.keys(overrides)) {
+    const value = overrides[key];
+    if (value === undefined) continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+    const baseValue = base[key];
+    if (!SHAPE_FIELDS.has(key) && isPlainObject(value) && isPlainObject(baseValue)) {
+      merged[key] = mergeDeep(baseValue, value, path, overridden);
+    } else {
+      merged[key] = value;
+      overridden.push(path);
+    }
   }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
 
-  const total = weights.reduce((sum, w) => sum + w, 0);
-  return weights.map(w => w / total);
+/**
+ * Resolve partial overrides into full emissions parameters.
+ *
+ * Nested objects (e.g. `targets`) are merged field by field, so
+ * `{ targets: { f33: 0.3 } }` keeps the base `f80` and `f100`.
+ *
+ * @param overrides - Partial overrides at any depth
+ * @param base - Params to merge onto (default: DEFAULT_EMISSIONS_PARAMS)
+ * @returns Effective params and the overridden field paths (in override order)
+ */
+export function resolveEmissionsParams(
+  overrides: DeepPartial<EmissionsParams> = {},
+  base: EmissionsParams = DEFAULT_EMISSIONS_PARAMS
+): ResolvedEmissionsParams {
+  const overridden: string[] = [];
+  const params = mergeDeep(
+    base as unknown as Record<string, unknown>,
+    overrides as Record<string, unknown>,
+    "",
+    overridden
+  ) as unknown as EmissionsParams;
+  return { params, overridden };
 }
 
 /**
- * Convert years to epochs, rounding to nearest integer.
+ * Convert a phase duration in years to epochs, rounding to the nearest
+ * integer (at least 1). Every kernel that derives phase boundaries uses
+ * this rule, so they cannot drift from the builder.
+ *
+ * @param years - Phase duration in years
+ * @param epochsPerYear - Epochs per year
+ * @returns Number of epochs in the phase
  */
-function toEpochs(years: number, epochsPerYear: number): number {
+export function phaseEpochCount(years: number, epochsPerYear: number): number {
   return Math.max(1, Math.round(years * epochsPerYear));
 }
 
 /**
- * Build the complete emissions schedule.
- * 
- * @param params - Emissions parameters (uses defaults if not provided)
- * @returns Complete emissions schedule with per-epoch amounts
+ * Express three-phase params as the equivalent N-phase params.
+ *
+ * @param params - Full three-phase emissions parameters
+ * @returns Phases early / mid / tail with targets f33 / f80 / f100
  */
-export function buildEmissionsSchedule(
-  params: Partial<EmissionsParams> = {}
-): EmissionsSchedule {
-  const p: EmissionsParams = { ...DEFAULT_EMISSIONS_PARAMS, ...params };
-  const cap = Number(p.cap);
-
-  // Calculate epochs for each phase
-  const nEarly = toEpochs(p.earlyYears, p.epochsPerYear);
-  const nMid = toEpochs(p.midYears, p.epochsPerYear);
-  const nTail = toEpochs(p.tailYears, p.epochsPerYear);
-  const totalEpochs = nEarly + nMid + nTail;
-
-  // Generate weights for each phase
-  const wEarly = shapeWeights(nEarly, p.shapeEarly);
-  const wMid = shapeWeights(nMid, p.shapeMid);
-  const wTail = shapeWeights(nTail, p.shapeTail);
-
-  // Calculate supply allocated to each phase
-  const supplyEarly = cap * p.targets.f33;
-  const supplyMid = cap * (p.targets.f80 - p.targets.f33);
-  const supplyTail = cap * (p.targets.f100 - p.targets.f80);
-
-  // Build base emissions schedule
-  const baseEmissions: number[] = [
-    ...wEarly.map(w => w * supplyEarly),
-    ...wMid.map(w => w * supplyMid),
-    ...wTail.map(w => w * supplyTail),
-  ];
+export function toPhasedEmissionsParams(params: EmissionsParams): PhasedEmissionsParams {
+  return {
+    cap: params.cap,
+    epochsPerYear: params.epochsPerYear,
+    phases: [
+      { years: params.earlyYears, targetFraction: params.targets.f33, shape: params.shapeEarly },
+      { years: params.midYears, targetFraction: params.targets.f80, shape: params.shapeMid },
+      { years: params.tailYears, targetFraction: params.targets.f100, shape: params.shapeTail },
+    ],
+  };
+}
+
+/**
+ * Build a generalized N-phase emissions schedule.
+ *
+ * Each phase receives cap * (targetFraction - previous targetFraction),
+ * spread over its epochs with the phase's weight shape. The series is
+ * then rescaled to sum to the cap.
+ *
+ * @param params - Cap, cadence and ordered phases
+ * @param options - Optional `{ deterministic: true }` for engine-independent weights,
+ *                  `{ strict: true }` to validate params first and
+ *                  `{ continuity: true }` to solve shapes for continuous boundaries
+ * @returns Schedule with per-epoch amounts and per-phase milestones
+ * @throws EmissionsParamsError in strict mode if the params are invalid
+ * @throws Error in continuity mode if a phase shape is not exponential
+ */
+export function buildPhasedEmissionsSchedule(
+  params: PhasedEmissionsParams,
+  options: BuildEmissionsOptions = {}
+): PhasedEmissionsSchedule {
+  if (options.strict) {
+    assertValidPhasedEmissionsParams(params);
+  }
+  const cap = Number(params.cap);
+
+  // Calculate epochs, weights and supply for each phase
+  const baseEmissions: number[] = [];
+  const ranges: Array<{ startEpoch: number; endEpoch: number }> = [];
+  const solvedShapes: number[] = [];
+  let previousFraction = 0;
+  for (const phase of params.phases) {
+    const n = phaseEpochCount(phase.years, params.epochsPerYear);
+    const supply = cap * (phase.targetFraction - previousFraction);
+    let weights: number[];
+    if (options.continuity) {
+      let shape = exponentialFactor(phase.shape);
+      // Match the previous phase's last emission with this phase's first
+      const previousLast = baseEmissions[baseEmissions.length - 1];
+      const firstWeight = previousLast / supply;
+      if (previousLast !== undefined && n > 1 && firstWeight > 0 && firstWeight < 1) {
+        shape = exponentialShapeForFirstWeight(n, firstWeight, options);
+      }
+      solvedShapes.push(shape);
+      weights = shapeWeights(n, shape, options);
+    } else {
+      weights = weightsForShape(n, phase.shape, options);
+    }
+    ranges.push({ startEpoch: baseEmissions.length + 1, endEpoch: baseEmissions.length + n });
+    for (const w of weights) {
+      baseEmissions.push(w * supply);
+    }
+    previousFraction = phase.targetFraction;
+  }
+  const totalEpochs = baseEmissions.length;
 
   // Scale to ensure exact sum to cap (handles floating point)
   const baseTotal = baseEmissions.reduce((sum, e) => sum + e, 0);
@@ -158,24 +365,98 @@ export function buildEmissionsSchedule(
     return idx >= 0 ? idx + 1 : totalEpochs;
   };
 
-  const epochTo33Pct = findMilestoneEpoch(p.targets.f33);
-  const epochTo80Pct = findMilestoneEpoch(p.targets.f80);
-  const epochTo100Pct = findMilestoneEpoch(p.targets.f100);
-
-  return {
-    params: p,
+  const schedule: PhasedEmissionsSchedule = {
+    params,
     totalEpochs,
     emissions,
     cumulative,
+    phases: params.phases.map((phase, i) => {
+      const milestoneEpoch = findMilestoneEpoch(phase.targetFraction);
+      return {
+        ...ranges[i],
+        targetFraction: phase.targetFraction,
+        milestoneEpoch,
+        milestoneYears: milestoneEpoch / params.epochsPerYear,
+      };
+    }),
+  };
+
+  if (options.continuity) {
+    schedule.params = {
+      ...params,
+      phases: params.phases.map((phase, i) => ({ ...phase, shape: solvedShapes[i] })),
+    };
+    schedule.continuity = {
+      shapes: solvedShapes,
+      boundaryGaps: ranges.slice(1).map(range => {
+        const last = emissions[range.startEpoch - 2];
+        return (emissions[range.startEpoch - 1] - last) / last;
+      }),
+    };
+  }
+
+  return schedule;
+}
+
+/**
+ * Exponential factor of a phase shape (continuity mode only supports
+ * exponential shapes).
+ */
+function exponentialFactor(shape: PhaseShape): number {
+  if (typeof shape === "number") return shape;
+  if (shape.kind === "exponential") return shape.shape;
+  throw new Error("Invalid: continuity mode requires exponential phase shapes");
+}
+
+/**
+ * Build the complete emissions schedule.
+ *
+ * Three-phase preset of `buildPhasedEmissionsSchedule`.
+ * 
+ * @param params - Overrides deep-merged onto DEFAULT_EMISSIONS_PARAMS
+ * @param options - Optional `{ deterministic: true }` for engine-independent weights,
+ *                  `{ strict: true }` to validate params first and
+ *                  `{ continuity: true }` to solve shapes for continuous boundaries
+ * @returns Complete emissions schedule with per-epoch amounts
+ * @throws EmissionsParamsError in strict mode if the effective params are invalid
+ */
+export function buildEmissionsSchedule(
+  params: DeepPartial<EmissionsParams> = {},
+  options: BuildEmissionsOptions = {}
+): EmissionsSchedule {
+  const p = resolveEmissionsParams(params).params;
+  if (options.strict) {
+    assertValidEmissionsParams(p);
+  }
+
+  const phased = buildPhasedEmissionsSchedule(toPhasedEmissionsParams(p), {
+    ...options,
+    strict: false,
+  });
+  const [early, mid, tail] = phased.phases;
+
+  const schedule: EmissionsSchedule = {
+    params: p,
+    totalEpochs: phased.totalEpochs,
+    emissions: phased.emissions,
+    cumulative: phased.cumulative,
     milestones: {
-      epochTo33Pct,
-      epochTo80Pct,
-      epochTo100Pct,
-      yearsTo33Pct: epochTo33Pct / p.epochsPerYear,
-      yearsTo80Pct: epochTo80Pct / p.epochsPerYear,
-      yearsTo100Pct: epochTo100Pct / p.epochsPerYear,
+      epochTo33Pct: early.milestoneEpoch,
+      epochTo80Pct: mid.milestoneEpoch,
+      epochTo100Pct: tail.milestoneEpoch,
+      yearsTo33Pct: early.milestoneYears,
+      yearsTo80Pct: mid.milestoneYears,
+      yearsTo100Pct: tail.milestoneYears,
     },
   };
+
+  if (phased.continuity) {
+    const [shapeEarly, shapeMid, shapeTail] = phased.continuity.shapes;
+    schedule.params = { ...p, shapeEarly, shapeMid, shapeTail };
+    schedule.continuity = phased.continuity;
+  }
+
+  return schedule;
 }
 
 /**
@@ -0,0 +1,226 @@
+/**
+ * AFI Emissions Epoch Clock
+ *
+ * Pure mapping between Unix timestamps (seconds) and 1-indexed emission
+ * epochs, given an explicit genesis time and epoch duration. Nothing here
+ * reads the system clock; callers pass every timestamp in.
+ *
+ * Epoch k covers the half-open interval
+ *   [genesisTime + (k-1) * epochDuration, genesisTime + k * epochDuration)
+ * Timestamps before genesis map to epoch 0.
+ *
+ * Within an epoch, emission accrues linearly in time, so a sub-epoch
+ * interval receives the pro-rated share of that epoch's emission. Base-unit
+ * queries round the accrued amount of a partial epoch down (floor), so they
+ * never over-report what has been emitted.
+ */
+
+import {
+  getCumulativeEmissions,
+  getEpochEmission,
+  type EmissionsSchedule
+} from "./emissionsSchedule.js";
+import {
+  getCumulativeEmissionsUnits,
+  getEpochEmissionUnits,
+  type IntegerEmissionsSchedule
+} from "./integerSchedule.js";
+
+export interface EpochClock {
+  /** Unix timestamp (seconds) at which epoch 1 starts */
+  genesisTime: number;
+  /** Epoch length in seconds */
+  epochDuration: number;
+}
+
+/**
+ * Validate a clock (finite genesis, positive finite duration).
+ */
+function checkClock(clock: EpochClock): void {
+  if (!Number.isFinite(clock.genesisTime)) {
+    throw new Error("Invalid: genesisTime must be finite");
+  }
+  if (!(Number.isFinite(clock.epochDuration) && clock.epochDuration > 0)) {
+    throw new Error("Invalid: epochDuration must be positive and finite");
+  }
+}
+
+function checkTimestamp(timestamp: number): void {
+  if (!Number.isFinite(timestamp)) {
+    throw new Error("Invalid: timestamp must be finite");
+  }
+}
+
+/**
+ * Locate a timestamp: the epoch containing it and the elapsed fraction of
+ * that epoch (0 before genesis).
+ */
+function locate(clock: EpochClock, timestamp: number): { epoch: number; fraction: number } {
+  checkClock(clock);
+  checkTimestamp(timestamp);
+  if (timestamp < clock.genesisTime) {
+    return { epoch: 0, fraction: 0 };
+  }
+  const elapsedEpochs = (timestamp - clock.genesisTime) / clock.epochDuration;
+  const completed = Math.floor(elapsedEpochs);
+  return { epoch: completed + 1, fraction: elapsedEpochs - completed };
+}
+
+/**
+ * Get the epoch containing a timestamp.
+ *
+ * @param clock - Genesis time and epoch duration
+ * @param timestamp - Unix timestamp in seconds
+ * @returns 1-indexed epoch (0 before genesis; may exceed the schedule length)
+ * @throws Error if the clock or timestamp is invalid
+ */
+export function epochAtTimestamp(clock: EpochClock, timestamp: number): number {
+  return locate(clock, timestamp).epoch;
+}
+
+/**
+ * Get the start timestamp of an epoch.
+ *
+ * @param clock - Genesis time and epoch duration
+ * @param epoch - Epoch number (1-indexed)
+ * @returns Unix timestamp at which the epoch starts
+ * @throws Error if the clock is invalid or epoch is not a positive integer
+ */
+export function epochStartTimestamp(clock: EpochClock, epoch: number): number {
+  checkClock(clock);
+  if (!Number.isInteger(epoch) || epoch < 1) {
+    throw new Error("Invalid: epoch must be a positive integer");
+  }
+  return clock.genesisTime + (epoch - 1) * clock.epochDuration;
+}
+
+/**
+ * Get the end timestamp (exclusive) of an epoch.
+ *
+ * @param clock - Genesis time and epoch duration
+ * @param epoch - Epoch number (1-indexed)
+ * @returns Unix timestamp at which the next epoch starts
+ * @throws Error if the clock is invalid or epoch is not a positive integer
+ */
+export function epochEndTimestamp(clock: EpochClock, epoch: number): number {
+  return epochStartTimestamp(clock, epoch) + clock.epochDuration;
+}
+
+/**
+ * Get cumulative emissions up to a timestamp, pro-rating the current epoch.
+ *
+ * @param schedule - Pre-built emissions schedule
+ * @param clock - Genesis time and epoch duration
+ * @param timestamp - Unix timestamp in seconds
+ * @returns Cumulative emissions (0 before genesis, cap after the final epoch)
+ * @throws Error if the clock or timestamp is invalid
+ */
+export function getCumulativeEmissionsAt(
+  schedule: EmissionsSchedule,
+  clock: EpochClock,
+  timestamp: number
+): number {
+  const { epoch, fraction } = locate(clock, timestamp);
+  if (epoch === 0) return 0;
+  return getCumulativeEmissions(schedule, epoch - 1) + fraction * getEpochEmission(schedule, epoch);
+}
+
+/**
+ * Get the amount emitted between two timestamps (partial epochs pro-rated).
+ *
+ * @param schedule - Pre-built emissions schedule
+ * @param clock - Genesis time and epoch duration
+ * @param from - Interval start (Unix seconds, inclusive)
+ * @param to - Interval end (Unix seconds, exclusive), at or after `from`
+ * @returns Emissions in [from, to)
+ * @throws Error if the clock or timestamps are invalid or to < from
+ */
+export function getEmittedBetween(
+  schedule: EmissionsSchedule,
+  clock: EpochClock,
+  from: number,
+  to: number
+): number {
+  if (to < from) {
+    throw new Error("Invalid: interval end must not precede its start");
+  }
+  return (
+    getCumulativeEmissionsAt(schedule, clock, to) - getCumulativeEmissionsAt(schedule, clock, from)
+  );
+}
+
+/**
+ * Locate a timestamp in whole seconds for base-unit queries.
+ */
+function locateUnits(
+  clock: EpochClock,
+  timestamp: number
+): { epoch: number; elapsed: bigint; duration: bigint } {
+  checkClock(clock);
+  checkTimestamp(timestamp);
+  if (
+    !Number.isInteger(clock.genesisTime) ||
+    !Number.isInteger(clock.epochDuration) ||
+    !Number.isInteger(timestamp)
+  ) {
+    throw new Error("Invalid: base-unit queries require whole-second clock and timestamps");
+  }
+  if (timestamp < clock.genesisTime) {
+    return { epoch: 0, elapsed: 0n, duration: 1n };
+  }
+  const sinceGenesis = BigInt(timestamp - clock.genesisTime);
+  const duration = BigInt(clock.epochDuration);
+  return {
+    epoch: Number(sinceGenesis / duration) + 1,
+    elapsed: sinceGenesis % duration,
+    duration,
+  };
+}
+
+/**
+ * Get cumulative emissions in base units up to a timestamp, pro-rating the
+ * current epoch (rounded down).
+ *
+ * @param schedule - Pre-built integer emissions schedule
+ * @param clock - Genesis time and epoch duration (whole seconds)
+ * @param timestamp - Unix timestamp in whole seconds
+ * @returns Cumulative emissions in base units
+ * @throws Error if the clock or timestamp is invalid or not whole seconds
+ */
+export function getCumulativeEmissionsUnitsAt(
+  schedule: IntegerEmissionsSchedule,
+  clock: EpochClock,
+  timestamp: number
+): bigint {
+  const { epoch, elapsed, duration } = locateUnits(clock, timestamp);
+  if (epoch === 0) return 0n;
+  return (
+    getCumulativeEmissionsUnits(schedule, epoch - 1) +
+    (getEpochEmissionUnits(schedule, epoch) * elapsed) / duration
+  );
+}
+
+/**
+ * Get the amount emitted in base units between two timestamps.
+ *
+ * @param schedule - Pre-built integer emissions schedule
+ * @param clock - Genesis time and epoch duration (whole seconds)
+ * @param from - Interval start (whole Unix seconds, inclusive)
+ * @param to - Interval end (whole Unix seconds, exclusive), at or after `from`
+ * @returns Emissions in [from, to) in base units
+ * @throws Error if the clock or timestamps are invalid or to < from
+ */
+export function getEmittedBetweenUnits(
+  schedule: IntegerEmissionsSchedule,
+  clock: EpochClock,
+  from: number,
+  to: number
+): bigint {
+  if (to < from) {
+    throw new Error("Invalid: interval end must not precede its start");
+  }
+  return (
+    getCumulativeEmissionsUnitsAt(schedule, clock, to) -
+    getCumulativeEmissionsUnitsAt(schedule, clock, from)
+  );
+}
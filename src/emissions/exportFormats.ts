@@ -0,0 +1,172 @@
+/**
+ * AFI Emissions Export Formats
+ *
+ * Pure serializers (no I/O) rendering a schedule for consumers outside
+ * TypeScript:
+ * - CSV: `epoch,emission,cumulative` rows
+ * - Solidity: a library of constants (supply, epochs, fingerprint, optional
+ *   Merkle root) and, unless omitted, the per-epoch amounts as `uint256[]`
+ *   (omit them to pin only the fingerprint and root on-chain)
+ * - Mathematica: list literals matching `AFI_Emissions_Final.wl` cross-checks
+ *
+ * Every output starts with a metadata header in the format's comment syntax:
+ * the schedule's format tag, the canonical params, and the SHA-256
+ * fingerprint of the canonical schedule (see `fingerprint.ts`), so each
+ * rendered value traces back to the golden vectors.
+ *
+ * Float amounts use ECMAScript Number-to-String (shortest round-trip form,
+ * written as machine reals with `*^` exponents for Mathematica); base-unit
+ * amounts are exact decimal integers.
+ */
+
+import type { EmissionsSchedule } from "./emissionsSchedule.js";
+import {
+  EMISSIONS_SCHEDULE_FORMAT,
+  INTEGER_EMISSIONS_SCHEDULE_FORMAT,
+  canonicalizeEmissionsParams,
+  fingerprintEmissionsSchedule,
+  fingerprintIntegerEmissionsSchedule
+} from "./fingerprint.js";
+import type { IntegerEmissionsSchedule } from "./integerSchedule.js";
+
+export interface SolidityExportOptions {
+  /** Library name (default: "AfiEmissionsSchedule") */
+  name?: string;
+  /** Merkle root of the per-epoch amounts (`buildEmissionsMerkleTree(schedule).root`) */
+  merkleRoot?: string;
+  /** Include the per-epoch `uint256[]` (default: true); false renders only the constants */
+  includeEmissions?: boolean;
+}
+
+function isInteger(
+  schedule: EmissionsSchedule | IntegerEmissionsSchedule
+): schedule is IntegerEmissionsSchedule {
+  return "decimals" in schedule;
+}
+
+/**
+ * Metadata header lines (without comment markers).
+ */
+function metadataLines(schedule: EmissionsSchedule | IntegerEmissionsSchedule): string[] {
+  return isInteger(schedule)
+    ? [
+        `format: ${INTEGER_EMISSIONS_SCHEDULE_FORMAT}`,
+        `params: ${canonicalizeEmissionsParams(schedule.params)}`,
+        `decimals: ${schedule.decimals}`,
+        `sha256: ${fingerprintIntegerEmissionsSchedule(schedule)}`,
+      ]
+    : [
+        `format: ${EMISSIONS_SCHEDULE_FORMAT}`,
+        `params: ${canonicalizeEmissionsParams(schedule.params)}`,
+        `sha256: ${fingerprintEmissionsSchedule(schedule)}`,
+      ];
+}
+
+function amounts(schedule: EmissionsSchedule | IntegerEmissionsSchedule): {
+  emissions: string[];
+  cumulative: string[];
+} {
+  if (isInteger(schedule)) {
+    return {
+      emissions: schedule.emissions.map(x => x.toString()),
+      cumulative: schedule.cumulative.map(x => x.toString()),
+    };
+  }
+  return {
+    emissions: schedule.emissions.map(x => String(x)),
+    cumulative: schedule.cumulative.map(x => String(x)),
+  };
+}
+
+/**
+ * Render a schedule as CSV with `#` metadata comments.
+ *
+ * @param schedule - Float or integer emissions schedule
+ * @returns CSV text (header row `epoch,emission,cumulative`, trailing newline)
+ */
+export function toEmissionsCsv(schedule: EmissionsSchedule | IntegerEmissionsSchedule): string {
+  const { emissions, cumulative } = amounts(schedule);
+  const lines = metadataLines(schedule).map(line => `# ${line}`);
+  lines.push("epoch,emission,cumulative");
+  emissions.forEach((e, i) => lines.push(`${i + 1},${e},${cumulative[i]}`));
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Render an integer schedule as a Solidity library of constants.
+ *
+ * @param schedule - Integer emissions schedule
+ * @param options - Library name, optional Merkle root, and whether to
+ *                  include the per-epoch amounts
+ * @returns Solidity source (trailing newline)
+ * @throws Error if the name is not an identifier or the Merkle root is not
+ *         0x-prefixed 32-byte hex
+ */
+export function toSolidityEmissionsConstants(
+  schedule: IntegerEmissionsSchedule,
+  options: SolidityExportOptions = {}
+): string {
+  const name = options.name ?? "AfiEmissionsSchedule";
+  if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)) {
+    throw new Error("Invalid: name must be a Solidity identifier");
+  }
+  if (options.merkleRoot !== undefined && !/^0x[0-9a-fA-F]{64}$/.test(options.merkleRoot)) {
+    throw new Error("Invalid: merkleRoot must be 0x-prefixed 32-byte hex");
+  }
+
+  const lines = [
+    "// SPDX-License-Identifier: MIT",
+    "// Generated by afi-math. Do not edit.",
+    ...metadataLines(schedule).map(line => `// ${line}`),
+    "pragma solidity ^0.8.0;",
+    "",
+    `library ${name} {`,
+    `    uint256 internal constant TOTAL_SUPPLY = ${schedule.totalSupply};`,
+    `    uint256 internal constant TOTAL_EPOCHS = ${schedule.totalEpochs};`,
+    `    uint256 internal constant DECIMALS = ${schedule.decimals};`,
+    `    bytes32 internal constant SCHEDULE_SHA256 = 0x${fingerprintIntegerEmissionsSchedule(schedule)};`,
+  ];
+  if (options.merkleRoot !== undefined) {
+    lines.push(`    bytes32 internal constant EMISSIONS_MERKLE_ROOT = ${options.merkleRoot.toLowerCase()};`);
+  }
+  if (options.includeEmissions ?? true) {
+    lines.push(
+      "",
+      "    /// @return amounts Per-epoch emissions in base units (index 0 = epoch 1)",
+      "    function emissions() internal pure returns (uint256[] memory amounts) {",
+      `        amounts = new uint256[](${schedule.totalEpochs});`,
+      ...schedule.emissions.map((e, i) => `        amounts[${i}] = ${e};`),
+      "    }"
+    );
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Mathematica machine-real literal for a float64 rendered by Number-to-String
+ * (`1.5e+21` becomes `1.5*^21`, `86000000000` becomes `86000000000.`).
+ */
+function mathematicaReal(text: string): string {
+  const [mantissa, exponent] = text.split("e");
+  const real = mantissa.includes(".") ? mantissa : `${mantissa}.`;
+  return exponent === undefined ? real : `${real}*^${exponent.replace("+", "")}`;
+}
+
+/**
+ * Render a schedule as Mathematica list literals with a `(* *)` metadata
+ * header: `afiEmissions` and `afiCumulative`.
+ *
+ * @param schedule - Float or integer emissions schedule
+ * @returns Wolfram Language source (trailing newline)
+ */
+export function toMathematicaEmissions(schedule: EmissionsSchedule | IntegerEmissionsSchedule): string {
+  const { emissions, cumulative } = amounts(schedule);
+  const format = isInteger(schedule) ? (x: string) => x : mathematicaReal;
+  const header = metadataLines(schedule).map(line => ` ${line}`);
+  return (
+    `(*\n${header.join("\n")}\n*)\n` +
+    `afiEmissions = {${emissions.map(format).join(", ")}};\n` +
+    `afiCumulative = {${cumulative.map(format).join(", ")}};\n`
+  );
+}
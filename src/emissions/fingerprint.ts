@@ -0,0 +1,175 @@
+/**
+ * AFI Emissions Fingerprints
+ *
+ * Canonical serialization and SHA-256 fingerprints of emissions parameters
+ * and schedules, so consumers that pin afi-math by commit (afi-core,
+ * afi-mint, afi-token) can compare a single digest against the golden file
+ * instead of comparing thousands of floats.
+ *
+ * Canonical form:
+ * - JSON with a fixed key order (independent of object construction order)
+ *   and no whitespace
+ * - bigint values as decimal strings
+ * - float64 values via ECMAScript Number-to-String, which is the shortest
+ *   round-tripping representation and is fully specified by the language
+ * - a leading `format` tag naming the serialization version
+ * - weight shapes as a number (exponential factor) or as an object with
+ *   `kind` first and the kind's parameters in declaration order
+ *
+ * A float schedule's digest is only as portable as its float bits: build it
+ * with `{ deterministic: true }` when the digest must match across engines.
+ */
+
+import { sha256Hex } from "../hashing/sha256.js";
+import type { EmissionsParams, EmissionsSchedule } from "./emissionsSchedule.js";
+import type { IntegerEmissionsSchedule } from "./integerSchedule.js";
+import type { PhaseShape } from "./weightShapes.js";
+
+/** Format tags embedded in every canonical serialization. */
+export const EMISSIONS_PARAMS_FORMAT = "afi-emissions-params/v1";
+export const EMISSIONS_SCHEDULE_FORMAT = "afi-emissions-schedule/v1";
+export const INTEGER_EMISSIONS_SCHEDULE_FORMAT = "afi-integer-emissions-schedule/v1";
+
+/**
+ * Serialize a float64 for the canonical form (non-finite values are rejected).
+ */
+function canonicalNumber(x: number): string {
+  if (!Number.isFinite(x)) {
+    throw new Error("Invalid: canonical serialization requires finite numbers");
+  }
+  return JSON.stringify(x);
+}
+
+function canonicalNumberArray(xs: number[]): string {
+  return `[${xs.map(canonicalNumber).join(",")}]`;
+}
+
+function canonicalBigIntArray(xs: bigint[]): string {
+  return `[${xs.map(x => JSON.stringify(x.toString())).join(",")}]`;
+}
+
+/**
+ * Serialize a phase shape (fixed key order per kind).
+ */
+function canonicalShape(shape: PhaseShape): string {
+  if (typeof shape === "number") {
+    return canonicalNumber(shape);
+  }
+  const kind = `{"kind":${JSON.stringify(shape.kind)}`;
+  switch (shape.kind) {
+    case "exponential":
+      return `${kind},"shape":${canonicalNumber(shape.shape)}}`;
+    case "powerLaw":
+      return `${kind},"exponent":${canonicalNumber(shape.exponent)}}`;
+    case "logistic":
+      return (
+        `${kind},"steepness":${canonicalNumber(shape.steepness)}` +
+        `,"midpoint":${canonicalNumber(shape.midpoint)}}`
+      );
+    case "halving":
+      return `${kind},"periods":${canonicalNumber(shape.periods)}}`;
+    default:
+      return `${kind}}`;
+  }
+}
+
+/**
+ * Canonical params body (fixed key order), shared by all serializations.
+ */
+function paramsBody(params: EmissionsParams): string {
+  return (
+    `{"cap":${JSON.stringify(params.cap.toString())}` +
+    `,"epochsPerYear":${canonicalNumber(params.epochsPerYear)}` +
+    `,"earlyYears":${canonicalNumber(params.earlyYears)}` +
+    `,"midYears":${canonicalNumber(params.midYears)}` +
+    `,"tailYears":${canonicalNumber(params.tailYears)}` +
+    `,"targets":{"f33":${canonicalNumber(params.targets.f33)}` +
+    `,"f80":${canonicalNumber(params.targets.f80)}` +
+    `,"f100":${canonicalNumber(params.targets.f100)}}` +
+    `,"shapeEarly":${canonicalShape(params.shapeEarly)}` +
+    `,"shapeMid":${canonicalShape(params.shapeMid)}` +
+    `,"shapeTail":${canonicalShape(params.shapeTail)}}`
+  );
+}
+
+/**
+ * Canonical serialization of emissions parameters.
+ *
+ * @param params - Full emissions parameters
+ * @returns Canonical JSON string
+ * @throws Error if any numeric field is not finite
+ */
+export function canonicalizeEmissionsParams(params: EmissionsParams): string {
+  return `{"format":${JSON.stringify(EMISSIONS_PARAMS_FORMAT)},"params":${paramsBody(params)}}`;
+}
+
+/**
+ * Canonical serialization of a float64 emissions schedule.
+ *
+ * @param schedule - Pre-built emissions schedule
+ * @returns Canonical JSON string
+ * @throws Error if any numeric field is not finite
+ */
+export function canonicalizeEmissionsSchedule(schedule: EmissionsSchedule): string {
+  const m = schedule.milestones;
+  return (
+    `{"format":${JSON.stringify(EMISSIONS_SCHEDULE_FORMAT)}` +
+    `,"params":${paramsBody(schedule.params)}` +
+    `,"totalEpochs":${canonicalNumber(schedule.totalEpochs)}` +
+    `,"emissions":${canonicalNumberArray(schedule.emissions)}` +
+    `,"cumulative":${canonicalNumberArray(schedule.cumulative)}` +
+    `,"milestones":{"epochTo33Pct":${canonicalNumber(m.epochTo33Pct)}` +
+    `,"epochTo80Pct":${canonicalNumber(m.epochTo80Pct)}` +
+    `,"epochTo100Pct":${canonicalNumber(m.epochTo100Pct)}` +
+    `,"yearsTo33Pct":${canonicalNumber(m.yearsTo33Pct)}` +
+    `,"yearsTo80Pct":${canonicalNumber(m.yearsTo80Pct)}` +
+    `,"yearsTo100Pct":${canonicalNumber(m.yearsTo100Pct)}}}`
+  );
+}
+
+/**
+ * Canonical serialization of an integer base-unit emissions schedule.
+ *
+ * @param schedule - Pre-built integer emissions schedule
+ * @returns Canonical JSON string
+ */
+export function canonicalizeIntegerEmissionsSchedule(schedule: IntegerEmissionsSchedule): string {
+  return (
+    `{"format":${JSON.stringify(INTEGER_EMISSIONS_SCHEDULE_FORMAT)}` +
+    `,"params":${paramsBody(schedule.params)}` +
+    `,"decimals":${canonicalNumber(schedule.decimals)}` +
+    `,"totalSupply":${JSON.stringify(schedule.totalSupply.toString())}` +
+    `,"totalEpochs":${canonicalNumber(schedule.totalEpochs)}` +
+    `,"emissions":${canonicalBigIntArray(schedule.emissions)}}`
+  );
+}
+
+/**
+ * SHA-256 fingerprint of emissions parameters.
+ *
+ * @param params - Full emissions parameters
+ * @returns Lowercase hex SHA-256 of the canonical serialization
+ */
+export function fingerprintEmissionsParams(params: EmissionsParams): string {
+  return sha256Hex(canonicalizeEmissionsParams(params));
+}
+
+/**
+ * SHA-256 fingerprint of a float64 emissions schedule.
+ *
+ * @param schedule - Pre-built emissions schedule
+ * @returns Lowercase hex SHA-256 of the canonical serialization
+ */
+export function fingerprintEmissionsSchedule(schedule: EmissionsSchedule): string {
+  return sha256Hex(canonicalizeEmissionsSchedule(schedule));
+}
+
+/**
+ * SHA-256 fingerprint of an integer base-unit emissions schedule.
+ *
+ * @param schedule - Pre-built integer emissions schedule
+ * @returns Lowercase hex SHA-256 of the canonical serialization
+ */
+export function fingerprintIntegerEmissionsSchedule(schedule: IntegerEmissionsSchedule): string {
+  return sha256Hex(canonicalizeIntegerEmissionsSchedule(schedule));
+}
@@ -0,0 +1,25 @@
+/**
+ * Emissions module barrel.
+ *
+ * Groups the canonical emissions schedule and the kernels built on top of it
+ * into the single `emissions` namespace exported from the package root.
+ */
+
+export * from "./emissionsSchedule.js";
+export * from "./weightShapes.js";
+export * from "./integerSchedule.js";
+export * from "./validation.js";
+export * from "./solver.js";
+export * from "./fingerprint.js";
+export * from "./epochClock.js";
+export * from "./rangeQueries.js";
+export * from "./reconciliation.js";
+export * from "./rewardPool.js";
+export * from "./distribution.js";
+export * from "./supplyModel.js";
+export * from "./inflationMetrics.js";
+export * from "./scheduleDiff.js";
+export * from "./reparameterize.js";
+export * from "./closedForm.js";
+export * from "./exportFormats.js";
+export * from "./merkle.js";
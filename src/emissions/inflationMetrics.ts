@@ -0,0 +1,208 @@
+/**
+ * AFI Emissions Inflation Metrics
+ *
+ * Tokenomics metrics derived from a schedule's `emissions` and `cumulative`
+ * arrays, optionally adjusted by per-epoch burn and vesting-unlock series:
+ *
+ *   circulating[e] = cumulative emissions[e] + Σ vested[1..e] - Σ burned[1..e]
+ *   issuance[e]    = emissions[e] + vested[e]         (gross new supply)
+ *   netIssuance[e] = issuance[e] - burned[e]
+ *
+ * Rates are fractions (0.05 = 5%), measured against circulating supply at
+ * the START of the period; they are Infinity while that supply is 0.
+ * - annualizedInflation (epochs): netIssuance * epochsPerYear / start supply
+ *   (simple annualization, no compounding)
+ * - inflation (years):            net issuance in the year / start supply
+ * - issuanceRate:                 gross issuance / start supply (per period)
+ * - stockToFlow:                  end-of-period circulating / annualized net
+ *                                 issuance (Infinity unless net issuance is
+ *                                 positive)
+ *
+ * Years are schedule years of `epochsPerYear` epochs; the last may be partial.
+ * The peak summary ignores non-finite rates.
+ *
+ * Metrics are whole-token floats like the schedule itself. Burn and vesting
+ * series may be given as whole-token numbers or, as produced by the supply
+ * model and vesting schedules, as bigint base units; base units are split
+ * into whole and fractional tokens before conversion, so each amount is
+ * exact to float precision (about 15-16 significant digits) rather than
+ * being rounded as one 10^decimals-scaled integer.
+ */
+
+import { getCumulativeEmissions, type EmissionsSchedule } from "./emissionsSchedule.js";
+import { DEFAULT_EMISSIONS_DECIMALS } from "./integerSchedule.js";
+
+/**
+ * Both series are per-epoch flows, not running totals: difference cumulative
+ * series such as `SupplyModel.burned` or `UnlockProjection.vested` first.
+ */
+export interface InflationMetricsOptions {
+  /** Burned amount per epoch (index 0 = epoch 1; missing epochs burn 0) */
+  burned?: number[] | bigint[];
+  /** Vesting unlocks entering circulation per epoch (index 0 = epoch 1) */
+  vested?: number[] | bigint[];
+  /** Decimal places of bigint series in base units (default: 18) */
+  decimals?: number;
+}
+
+export interface PeriodInflationMetrics {
+  /** Circulating supply at the end of each period */
+  circulating: number[];
+  issuance: number[];
+  netIssuance: number[];
+  issuanceRate: number[];
+  stockToFlow: number[];
+}
+
+export interface EpochInflationMetrics extends PeriodInflationMetrics {
+  annualizedInflation: number[];
+}
+
+export interface YearInflationMetrics extends PeriodInflationMetrics {
+  inflation: number[];
+}
+
+export interface InflationPeak {
+  /** Epoch with the highest finite annualized inflation (0 if none) */
+  epoch: number;
+  annualizedInflation: number;
+  /** Year with the highest finite inflation (0 if none) */
+  year: number;
+  inflation: number;
+}
+
+export interface InflationMetrics {
+  epochs: EpochInflationMetrics;
+  years: YearInflationMetrics;
+  peak: InflationPeak;
+}
+
+/**
+ * Validate an optional per-epoch series and convert it to whole tokens.
+ */
+function toTokenSeries(
+  series: number[] | bigint[],
+  totalEpochs: number,
+  unit: bigint,
+  label: string
+): number[] {
+  if (series.length > totalEpochs) {
+    throw new Error(`Invalid: ${label} series is longer than the schedule`);
+  }
+  const tokens = series.map(x =>
+    typeof x === "bigint" ? Number(x / unit) + Number(x % unit) / Number(unit) : x
+  );
+  if (tokens.some(x => !Number.isFinite(x) || x < 0)) {
+    throw new Error(`Invalid: ${label} amounts must be finite and non-negative`);
+  }
+  return tokens;
+}
+
+/**
+ * Rate of a flow against a base supply (Infinity on a zero base).
+ */
+function rate(flow: number, base: number): number {
+  return base > 0 ? flow / base : Infinity;
+}
+
+/**
+ * Compute per-epoch and per-year inflation, issuance and stock-to-flow.
+ *
+ * @param schedule - Pre-built emissions schedule
+ * @param options - Optional burn and vesting-unlock series (whole tokens, or
+ *                  bigint base units with `decimals`)
+ * @returns Per-epoch and per-year metrics and the peak-inflation summary
+ * @throws Error if a series or decimals is invalid, or burns exceed
+ *         circulating supply
+ */
+export function computeInflationMetrics(
+  schedule: EmissionsSchedule,
+  options: InflationMetricsOptions = {}
+): InflationMetrics {
+  const { totalEpochs } = schedule;
+  const epochsPerYear = schedule.params.epochsPerYear;
+  const decimals = options.decimals ?? DEFAULT_EMISSIONS_DECIMALS;
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new Error("Invalid: decimals must be a non-negative integer");
+  }
+  const unit = 10n ** BigInt(decimals);
+  const burned = toTokenSeries(options.burned ?? [], totalEpochs, unit, "burned");
+  const vested = toTokenSeries(options.vested ?? [], totalEpochs, unit, "vested");
+
+  const epochs: EpochInflationMetrics = {
+    circulating: [],
+    issuance: [],
+    netIssuance: [],
+    annualizedInflation: [],
+    issuanceRate: [],
+    stockToFlow: [],
+  };
+  let vestedTotal = 0;
+  let burnedTotal = 0;
+  let previous = 0;
+  for (let epoch = 1; epoch <= totalEpochs; epoch++) {
+    const unlocked = vested[epoch - 1] ?? 0;
+    const burn = burned[epoch - 1] ?? 0;
+    vestedTotal += unlocked;
+    burnedTotal += burn;
+    const circulating = getCumulativeEmissions(schedule, epoch) + vestedTotal - burnedTotal;
+    if (circulating < 0) {
+      throw new Error(`Invalid: burns exceed circulating supply at epoch ${epoch}`);
+    }
+    const issuance = schedule.emissions[epoch - 1] + unlocked;
+    const netIssuance = issuance - burn;
+
+    epochs.circulating.push(circulating);
+    epochs.issuance.push(issuance);
+    epochs.netIssuance.push(netIssuance);
+    epochs.annualizedInflation.push(rate(netIssuance * epochsPerYear, previous));
+    epochs.issuanceRate.push(rate(issuance, previous));
+    epochs.stockToFlow.push(rate(circulating, netIssuance * epochsPerYear));
+    previous = circulating;
+  }
+
+  const years: YearInflationMetrics = {
+    circulating: [],
+    issuance: [],
+    netIssuance: [],
+    inflation: [],
+    issuanceRate: [],
+    stockToFlow: [],
+  };
+  const yearCount = Math.ceil(totalEpochs / epochsPerYear);
+  for (let year = 1; year <= yearCount; year++) {
+    const first = (year - 1) * epochsPerYear;
+    const last = Math.min(year * epochsPerYear, totalEpochs);
+    const start = first === 0 ? 0 : epochs.circulating[first - 1];
+    const circulating = epochs.circulating[last - 1];
+    let issuance = 0;
+    let netIssuance = 0;
+    for (let i = first; i < last; i++) {
+      issuance += epochs.issuance[i];
+      netIssuance += epochs.netIssuance[i];
+    }
+    years.circulating.push(circulating);
+    years.issuance.push(issuance);
+    years.netIssuance.push(netIssuance);
+    years.inflation.push(rate(netIssuance, start));
+    years.issuanceRate.push(rate(issuance, start));
+    // Annualize a partial final year
+    years.stockToFlow.push(rate(circulating, (netIssuance * epochsPerYear) / (last - first)));
+  }
+
+  const peak: InflationPeak = { epoch: 0, annualizedInflation: 0, year: 0, inflation: 0 };
+  epochs.annualizedInflation.forEach((r, i) => {
+    if (Number.isFinite(r) && (peak.epoch === 0 || r > peak.annualizedInflation)) {
+      peak.epoch = i + 1;
+      peak.annualizedInflation = r;
+    }
+  });
+  years.inflation.forEach((r, i) => {
+    if (Number.isFinite(r) && (peak.year === 0 || r > peak.inflation)) {
+      peak.year = i + 1;
+      peak.inflation = r;
+    }
+  });
+
+  return { epochs, years, peak };
+}
@@ -0,0 +1,255 @@
+/**
+ * AFI Integer Emissions Schedule
+ *
+ * Integer base-unit (bigint) variant of the canonical emissions schedule.
+ *
+ * The float64 schedule produced by `buildEmissionsSchedule` is converted to
+ * per-epoch amounts in integer base units (wei-style, `cap * 10^decimals`)
+ * that sum EXACTLY to the scaled cap. Consumers that mint or mirror the
+ * schedule (afi-mint, afi-token) use these amounts directly instead of
+ * rounding the float series themselves.
+ *
+ * Rounding rule (largest remainder / Hamilton apportionment):
+ * 1. Each float64 weight is decomposed into its exact rational value
+ *    (mantissa * 2^exponent), so no precision is lost before allocation.
+ * 2. Every entry receives floor(total * w[i] / Σw).
+ * 3. The residue (total - Σ floors, always < number of entries) is handed
+ *    out one base unit at a time to the entries with the largest
+ *    remainders; ties are broken by the lower index (earlier epoch first).
+ */
+
+import {
+  buildEmissionsSchedule,
+  type BuildEmissionsOptions,
+  type DeepPartial,
+  type EmissionsParams,
+  type EmissionsSchedule
+} from "./emissionsSchedule.js";
+
+export interface IntegerEmissionsSchedule {
+  /** Parameters used to generate this schedule */
+  params: EmissionsParams;
+  /** Number of decimal places in one whole token (base units = cap * 10^decimals) */
+  decimals: number;
+  /** Total supply in base units (cap * 10^decimals) */
+  totalSupply: bigint;
+  /** Total number of epochs in the schedule */
+  totalEpochs: number;
+  /** Per-epoch emission amounts in integer base units */
+  emissions: bigint[];
+  /** Cumulative emissions at each epoch in integer base units */
+  cumulative: bigint[];
+}
+
+/**
+ * Options for building an integer schedule.
+ */
+export interface IntegerScheduleOptions extends BuildEmissionsOptions {
+  /** Decimal places per whole token (default: 18) */
+  decimals?: number;
+}
+
+/**
+ * Default number of decimals for base units (ERC-20 convention).
+ */
+export const DEFAULT_EMISSIONS_DECIMALS = 18;
+
+/**
+ * Decompose a finite, non-negative float64 into its exact value
+ * mantissa * 2^exponent (mantissa is an integer).
+ */
+function decomposeFloat(x: number): { mantissa: bigint; exponent: number } {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, x);
+  const hi = view.getUint32(0);
+  const lo = view.getUint32(4);
+  const biasedExponent = (hi >>> 20) & 0x7ff;
+  const fraction = (BigInt(hi & 0xfffff) << 32n) | BigInt(lo);
+
+  if (biasedExponent === 0) {
+    // Subnormal (or zero): no implicit leading bit
+    return { mantissa: fraction, exponent: -1074 };
+  }
+  return { mantissa: fraction | (1n << 52n), exponent: biasedExponent - 1075 };
+}
+
+/**
+ * Split an integer total across entries in proportion to float weights,
+ * using the largest-remainder rule described in the module header.
+ *
+ * Weights are interpreted exactly (no float rounding before allocation),
+ * so the result is fully determined by the weight bits.
+ *
+ * With `residueIndex`, every entry receives its floor and the whole residue
+ * goes to that entry instead (e.g. a treasury absorbing rounding dust).
+ *
+ * @param total - Non-negative integer total to allocate
+ * @param weights - Finite, non-negative weights (at least one positive)
+ * @param options - Optional `residueIndex` receiving the whole residue
+ * @returns Integer allocations summing exactly to total
+ * @throws Error if total is negative, weights are invalid or residueIndex is out of range
+ */
+export function largestRemainderAllocation(
+  total: bigint,
+  weights: number[],
+  options: { residueIndex?: number } = {}
+): bigint[] {
+  if (total < 0n) {
+    throw new Error("Invalid: total must be non-negative");
+  }
+  const { residueIndex } = options;
+  if (
+    residueIndex !== undefined &&
+    (!Number.isInteger(residueIndex) || residueIndex < 0 || residueIndex >= weights.length)
+  ) {
+    throw new Error("Invalid: residueIndex must be an index into weights");
+  }
+  if (weights.some(w => !Number.isFinite(w) || w < 0)) {
+    throw new Error("Invalid: weights must be finite and non-negative");
+  }
+  if (!weights.some(w => w > 0)) {
+    throw new Error("Invalid: at least one weight must be positive");
+  }
+
+  // Bring every weight to a common power-of-two denominator
+  const parts = weights.map(decomposeFloat);
+  // Reduce rather than spread: one weight per epoch can exceed the engine's argument limit
+  const minExponent = parts.reduce(
+    (min, p) => (p.mantissa > 0n ? Math.min(min, p.exponent) : min),
+    Infinity
+  );
+  const scaled = parts.map(p =>
+    p.mantissa === 0n ? 0n : p.mantissa << BigInt(p.exponent - minExponent)
+  );
+  const weightTotal = scaled.reduce((sum, w) => sum + w, 0n);
+
+  const allocations: bigint[] = [];
+  const remainders: bigint[] = [];
+  let allocated = 0n;
+  for (const w of scaled) {
+    const numerator = total * w;
+    const share = numerator / weightTotal;
+    allocations.push(share);
+    remainders.push(numerator % weightTotal);
+    allocated += share;
+  }
+
+  if (residueIndex !== undefined) {
+    allocations[residueIndex] += total - allocated;
+    return allocations;
+  }
+
+  // Hand out the residue by largest remainder, earlier index first on ties
+  const residue = Number(total - allocated);
+  const order = remainders
+    .map((_, i) => i)
+    .sort((a, b) => {
+      if (remainders[a] !== remainders[b]) {
+        return remainders[a] > remainders[b] ? -1 : 1;
+      }
+      return a - b;
+    });
+  for (let k = 0; k < residue; k++) {
+    allocations[order[k]] += 1n;
+  }
+
+  return allocations;
+}
+
+/**
+ * Convert a float64 emissions schedule to integer base units.
+ *
+ * @param schedule - Pre-built emissions schedule
+ * @param decimals - Decimal places per whole token (default: 18)
+ * @returns Integer schedule summing exactly to cap * 10^decimals
+ * @throws Error if decimals is not a non-negative integer
+ */
+export function toIntegerEmissionsSchedule(
+  schedule: EmissionsSchedule,
+  decimals: number = DEFAULT_EMISSIONS_DECIMALS
+): IntegerEmissionsSchedule {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new Error("Invalid: decimals must be a non-negative integer");
+  }
+
+  const totalSupply = schedule.params.cap * 10n ** BigInt(decimals);
+  const emissions = largestRemainderAllocation(totalSupply, schedule.emissions);
+
+  const cumulative: bigint[] = [];
+  let runningTotal = 0n;
+  for (const e of emissions) {
+    runningTotal += e;
+    cumulative.push(runningTotal);
+  }
+
+  return {
+    params: schedule.params,
+    decimals,
+    totalSupply,
+    totalEpochs: schedule.totalEpochs,
+    emissions,
+    cumulative,
+  };
+}
+
+/**
+ * Build the emissions schedule in integer base units.
+ *
+ * @param params - Overrides deep-merged onto DEFAULT_EMISSIONS_PARAMS
+ * @param options - Optional decimals (default: 18), deterministic weights and strict validation
+ * @returns Integer schedule with per-epoch amounts summing exactly to the scaled cap
+ */
+export function buildIntegerEmissionsSchedule(
+  params: DeepPartial<EmissionsParams> = {},
+  options: IntegerScheduleOptions = {}
+): IntegerEmissionsSchedule {
+  return toIntegerEmissionsSchedule(
+    buildEmissionsSchedule(params, options),
+    options.decimals ?? DEFAULT_EMISSIONS_DECIMALS
+  );
+}
+
+/**
+ * Get the emission for a specific epoch in base units.
+ *
+ * @param schedule - Pre-built integer emissions schedule
+ * @param epoch - Epoch number (1-indexed)
+ * @returns Emission in base units (0n if outside the schedule)
+ */
+export function getEpochEmissionUnits(schedule: IntegerEmissionsSchedule, epoch: number): bigint {
+  if (epoch < 1 || epoch > schedule.totalEpochs) {
+    return 0n;
+  }
+  return schedule.emissions[epoch - 1];
+}
+
+/**
+ * Get cumulative emissions in base units up to and including an epoch.
+ *
+ * @param schedule - Pre-built integer emissions schedule
+ * @param epoch - Epoch number (1-indexed)
+ * @returns Cumulative emissions in base units (totalSupply if past end)
+ */
+export function getCumulativeEmissionsUnits(
+  schedule: IntegerEmissionsSchedule,
+  epoch: number
+): bigint {
+  if (epoch < 1) return 0n;
+  if (epoch >= schedule.totalEpochs) return schedule.totalSupply;
+  return schedule.cumulative[epoch - 1];
+}
+
+/**
+ * Get remaining supply in base units that can be minted.
+ *
+ * @param schedule - Pre-built integer emissions schedule
+ * @param alreadyMinted - Amount already minted in base units
+ * @returns Remaining mintable supply in base units
+ */
+export function getRemainingSupplyUnits(
+  schedule: IntegerEmissionsSchedule,
+  alreadyMinted: bigint
+): bigint {
+  const remaining = schedule.totalSupply - alreadyMinted;
+  return remaining > 0n ? remaining : 0n;
+}
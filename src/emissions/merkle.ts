@@ -0,0 +1,162 @@
+/**
+ * AFI Emissions Merkle Commitment
+ *
+ * A Merkle tree over the integer per-epoch schedule, so a contract can store
+ * one root instead of every epoch amount and verify a claimed
+ * `getEpochEmissionUnits(epoch)` with a proof.
+ *
+ * Encoding (all hashes SHA-256, available on-chain as the `sha256` builtin):
+ * - leaf:  sha256(sha256(abi.encodePacked(uint256 epoch, uint256 amount)))
+ *          (64 packed bytes, big-endian; double hashing keeps a leaf from
+ *          being replayed as an internal node)
+ * - node:  sha256(min(a, b) ++ max(a, b)) — sorted pairs, so proofs carry no
+ *          left/right flags
+ * - level with an odd node count: the last node is promoted unchanged
+ *
+ * Solidity verifier:
+ *   bytes32 h = sha256(bytes.concat(sha256(abi.encodePacked(epoch, amount))));
+ *   for (uint256 i = 0; i < proof.length; i++) {
+ *     h = h < proof[i] ? sha256(abi.encodePacked(h, proof[i]))
+ *                      : sha256(abi.encodePacked(proof[i], h));
+ *   }
+ *   return h == root;
+ *
+ * Hashes are 0x-prefixed lowercase hex (bytes32 literals).
+ */
+
+import { sha256, toHex } from "../hashing/sha256.js";
+import type { IntegerEmissionsSchedule } from "./integerSchedule.js";
+
+export interface EmissionsMerkleTree {
+  /** Merkle root */
+  root: string;
+  /** Number of leaves (= schedule epochs) */
+  leafCount: number;
+  /** Tree levels from the leaves (index 0, epoch order) up to the root */
+  layers: string[][];
+}
+
+const UINT256_LIMIT = 1n << 256n;
+const HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array((hex.length - 2) / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(2 + 2 * i, 4 + 2 * i), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Write a uint256 big-endian into 32 bytes at an offset.
+ */
+function writeUint256(target: Uint8Array, offset: number, value: bigint): void {
+  let v = value;
+  for (let i = 31; i >= 0; i--) {
+    target[offset + i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+}
+
+function hashPair(a: string, b: string): string {
+  const [lo, hi] = a < b ? [a, b] : [b, a];
+  const packed = new Uint8Array(64);
+  packed.set(hexToBytes(lo), 0);
+  packed.set(hexToBytes(hi), 32);
+  return `0x${toHex(sha256(packed))}`;
+}
+
+/**
+ * Hash one epoch's leaf.
+ *
+ * @param epoch - Epoch number (1-indexed)
+ * @param amount - Emission in base units
+ * @returns Leaf hash
+ * @throws Error if epoch is not a positive integer or amount is not a uint256
+ */
+export function emissionsMerkleLeaf(epoch: number, amount: bigint): string {
+  if (!Number.isInteger(epoch) || epoch < 1) {
+    throw new Error("Invalid: epoch must be a positive integer");
+  }
+  if (amount < 0n || amount >= UINT256_LIMIT) {
+    throw new Error("Invalid: amount must fit in uint256");
+  }
+  const packed = new Uint8Array(64);
+  writeUint256(packed, 0, BigInt(epoch));
+  writeUint256(packed, 32, amount);
+  return `0x${toHex(sha256(sha256(packed)))}`;
+}
+
+/**
+ * Build the Merkle tree over an integer schedule's per-epoch amounts.
+ *
+ * @param schedule - Integer emissions schedule
+ * @returns Tree with its root and every level
+ * @throws Error if the schedule has no epochs
+ */
+export function buildEmissionsMerkleTree(schedule: IntegerEmissionsSchedule): EmissionsMerkleTree {
+  if (schedule.emissions.length === 0) {
+    throw new Error("Invalid: schedule must have at least one epoch");
+  }
+  const layers: string[][] = [schedule.emissions.map((amount, i) => emissionsMerkleLeaf(i + 1, amount))];
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    layers.push(next);
+  }
+  return { root: layers[layers.length - 1][0], leafCount: layers[0].length, layers };
+}
+
+/**
+ * Get the proof for one epoch's leaf.
+ *
+ * @param tree - Pre-built emissions Merkle tree
+ * @param epoch - Epoch number (1-indexed)
+ * @returns Sibling hashes from the leaf level upward
+ * @throws Error if epoch is not an integer in 1..leafCount
+ */
+export function getEmissionsMerkleProof(tree: EmissionsMerkleTree, epoch: number): string[] {
+  if (!Number.isInteger(epoch) || epoch < 1 || epoch > tree.leafCount) {
+    throw new Error("Invalid: epoch must be an integer in 1..leafCount");
+  }
+  const proof: string[] = [];
+  let index = epoch - 1;
+  for (const level of tree.layers.slice(0, -1)) {
+    const sibling = index ^ 1;
+    if (sibling < level.length) {
+      proof.push(level[sibling]);
+    }
+    index >>= 1;
+  }
+  return proof;
+}
+
+/**
+ * Verify a claimed epoch emission against a Merkle root.
+ *
+ * @param root - Committed Merkle root
+ * @param epoch - Epoch number (1-indexed)
+ * @param amount - Claimed emission in base units
+ * @param proof - Sibling hashes from `getEmissionsMerkleProof`
+ * @returns True if the proof recomputes the root
+ * @throws Error if the root or a proof element is not 0x-prefixed 32-byte
+ *         hex, or the leaf is invalid
+ */
+export function verifyEmissionsMerkleProof(
+  root: string,
+  epoch: number,
+  amount: bigint,
+  proof: string[]
+): boolean {
+  if (!HASH_PATTERN.test(root) || !proof.every(p => HASH_PATTERN.test(p))) {
+    throw new Error("Invalid: hashes must be 0x-prefixed 32-byte hex");
+  }
+  let hash = emissionsMerkleLeaf(epoch, amount);
+  for (const sibling of proof) {
+    hash = hashPair(hash, sibling.toLowerCase());
+  }
+  return hash === root.toLowerCase();
+}
@@ -0,0 +1,105 @@
+/**
+ * AFI Emissions Range Queries
+ *
+ * Range-sum, per-year and inverse-cumulative queries over a pre-built
+ * EmissionsSchedule, backed by its `cumulative` array instead of loops over
+ * `emissions`. Range and year sums are O(1); the inverse-cumulative lookup
+ * is a binary search (O(log n)) over the monotone cumulative series.
+ *
+ * All queries share the clamping semantics of `getCumulativeEmissions`:
+ * cumulative emissions are 0 before epoch 1 and exactly the cap at/after the
+ * final epoch, so ranges may extend past either end of the schedule.
+ *
+ * Years are schedule years: year y covers epochs
+ * (y-1) * epochsPerYear + 1 .. y * epochsPerYear. For wall-clock calendar
+ * years, use `getEmittedBetween` with an `EpochClock`.
+ */
+
+import { getCumulativeEmissions, type EmissionsSchedule } from "./emissionsSchedule.js";
+
+/**
+ * Get total emissions over an inclusive epoch range.
+ *
+ * @param schedule - Pre-built emissions schedule
+ * @param fromEpoch - First epoch of the range (1-indexed, inclusive)
+ * @param toEpoch - Last epoch of the range (inclusive), at or after `fromEpoch`
+ * @returns Emissions in epochs fromEpoch..toEpoch (epochs outside the schedule emit 0)
+ * @throws Error if the epochs are not integers or toEpoch < fromEpoch
+ */
+export function getEmissionsInRange(
+  schedule: EmissionsSchedule,
+  fromEpoch: number,
+  toEpoch: number
+): number {
+  if (!Number.isInteger(fromEpoch) || !Number.isInteger(toEpoch)) {
+    throw new Error("Invalid: range epochs must be integers");
+  }
+  if (toEpoch < fromEpoch) {
+    throw new Error("Invalid: range end must not precede its start");
+  }
+  return getCumulativeEmissions(schedule, toEpoch) - getCumulativeEmissions(schedule, fromEpoch - 1);
+}
+
+/**
+ * Get total emissions in a schedule year.
+ *
+ * @param schedule - Pre-built emissions schedule
+ * @param year - Schedule year (1-indexed)
+ * @returns Emissions in the year's epochs (0 for years past the schedule)
+ * @throws Error if year is not a positive integer
+ */
+export function getEmissionsInYear(schedule: EmissionsSchedule, year: number): number {
+  if (!Number.isInteger(year) || year < 1) {
+    throw new Error("Invalid: year must be a positive integer");
+  }
+  const epochsPerYear = schedule.params.epochsPerYear;
+  return getEmissionsInRange(schedule, (year - 1) * epochsPerYear + 1, year * epochsPerYear);
+}
+
+/**
+ * Get total emissions for every schedule year.
+ *
+ * @param schedule - Pre-built emissions schedule
+ * @returns Emissions per year; index 0 is year 1, the last year may be partial
+ */
+export function getYearlyEmissions(schedule: EmissionsSchedule): number[] {
+  const years = Math.ceil(schedule.totalEpochs / schedule.params.epochsPerYear);
+  const yearly: number[] = [];
+  for (let year = 1; year <= years; year++) {
+    yearly.push(getEmissionsInYear(schedule, year));
+  }
+  return yearly;
+}
+
+/**
+ * Find the first epoch by which a fraction of the cap has been emitted,
+ * i.e. the smallest epoch with getCumulativeEmissions >= fraction * cap.
+ *
+ * Generalizes the fixed milestones (`epochTo33Pct`, `epochTo80Pct`) to any
+ * fraction.
+ *
+ * @param schedule - Pre-built emissions schedule
+ * @param fraction - Fraction of the cap, in [0, 1]
+ * @returns Epoch (1-indexed; 0 for fraction 0, totalEpochs at most)
+ * @throws Error if fraction is outside [0, 1]
+ */
+export function getEpochForFraction(schedule: EmissionsSchedule, fraction: number): number {
+  if (!(fraction >= 0 && fraction <= 1)) {
+    throw new Error("Invalid: fraction must be in [0, 1]");
+  }
+  const target = Number(schedule.params.cap) * fraction;
+  if (target <= 0) return 0;
+
+  // Cumulative emissions are non-decreasing and reach the cap at totalEpochs
+  let lo = 1;
+  let hi = schedule.totalEpochs;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (getCumulativeEmissions(schedule, mid) >= target) {
+      hi = mid;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return lo;
+}
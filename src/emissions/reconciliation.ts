@@ -0,0 +1,210 @@
+/**
+ * AFI Emissions Mint Reconciliation
+ *
+ * Reconciles a mint history (base units) against the integer emissions
+ * schedule: per epoch, how far minting is behind (deficit) or ahead
+ * (surplus) of the schedule, and how much may be minted under a catch-up
+ * policy when epochs were missed.
+ *
+ * Catch-up policies (for amounts scheduled but not minted):
+ * - immediate: the whole backlog may be minted in the next epoch
+ * - spread:    each epoch's shortfall is released linearly over the next
+ *              `epochs` epochs (floor per step, complete after `epochs`);
+ *              released amounts that are not minted stay available
+ * - forfeit:   shortfalls are forfeited; each epoch allows only its own
+ *              scheduled amount
+ *
+ * Invariant: an epoch's allowance never lets cumulative minting exceed the
+ * cumulative schedule (less forfeited amounts). Being ahead of schedule
+ * reduces later allowances accordingly. Mints above the allowance are
+ * reported as `excess`, not rejected.
+ */
+
+import {
+  getCumulativeEmissionsUnits,
+  getEpochEmissionUnits,
+  type IntegerEmissionsSchedule
+} from "./integerSchedule.js";
+
+export type CatchUpPolicy =
+  | { kind: "immediate" }
+  | { kind: "spread"; epochs: number }
+  | { kind: "forfeit" };
+
+export interface MintRecord {
+  /** Epoch of the mint (1-indexed) */
+  epoch: number;
+  /** Minted amount in base units */
+  amount: bigint;
+}
+
+export interface EpochMintReconciliation {
+  epoch: number;
+  /** Scheduled emission for this epoch */
+  scheduled: bigint;
+  /** Maximum mint allowed this epoch under the policy */
+  allowance: bigint;
+  /** Amount minted this epoch (sum of records) */
+  minted: bigint;
+  /** Amount minted above the allowance */
+  excess: bigint;
+  cumulativeScheduled: bigint;
+  cumulativeMinted: bigint;
+  /** Cumulative forfeited amount (forfeit policy only) */
+  forfeited: bigint;
+  /** Scheduled, not forfeited and not yet minted (behind schedule) */
+  deficit: bigint;
+  /** Minted beyond the schedule less forfeitures (ahead of schedule) */
+  surplus: bigint;
+}
+
+export interface MintReconciliation {
+  policy: CatchUpPolicy;
+  /** One entry per epoch 1..throughEpoch */
+  epochs: EpochMintReconciliation[];
+  cumulativeMinted: bigint;
+  forfeited: bigint;
+  deficit: bigint;
+  surplus: bigint;
+  /** Epoch after the reconciled range */
+  nextEpoch: number;
+  /** Maximum mint allowed in nextEpoch */
+  nextAllowance: bigint;
+}
+
+interface Tranche {
+  epoch: number;
+  amount: bigint;
+}
+
+/**
+ * Reconcile a mint history against the schedule.
+ *
+ * @param schedule - Pre-built integer emissions schedule
+ * @param history - Mints in base units (several records per epoch are summed)
+ * @param throughEpoch - Last epoch to reconcile (0 = none minted yet)
+ * @param policy - Catch-up policy for missed amounts (default: immediate)
+ * @returns Per-epoch reconciliation and the allowance for the next epoch
+ * @throws Error if the policy, throughEpoch or a mint record is invalid
+ */
+export function reconcileMints(
+  schedule: IntegerEmissionsSchedule,
+  history: MintRecord[],
+  throughEpoch: number,
+  policy: CatchUpPolicy = { kind: "immediate" }
+): MintReconciliation {
+  if (!Number.isInteger(throughEpoch) || throughEpoch < 0) {
+    throw new Error("Invalid: throughEpoch must be a non-negative integer");
+  }
+  let releaseEpochs: number;
+  switch (policy.kind) {
+    case "immediate":
+      releaseEpochs = 1;
+      break;
+    case "spread":
+      if (!Number.isInteger(policy.epochs) || policy.epochs < 1) {
+        throw new Error("Invalid: spread epochs must be a positive integer");
+      }
+      releaseEpochs = policy.epochs;
+      break;
+    case "forfeit":
+      releaseEpochs = 0;
+      break;
+    default:
+      throw new Error("Invalid: unknown catch-up policy kind");
+  }
+
+  const mintedByEpoch = new Map<number, bigint>();
+  for (const record of history) {
+    if (!Number.isInteger(record.epoch) || record.epoch < 1 || record.epoch > throughEpoch) {
+      throw new Error("Invalid: mint epoch must be an integer in 1..throughEpoch");
+    }
+    if (record.amount < 0n) {
+      throw new Error("Invalid: mint amount must be non-negative");
+    }
+    mintedByEpoch.set(record.epoch, (mintedByEpoch.get(record.epoch) ?? 0n) + record.amount);
+  }
+
+  // Spread/immediate state: shortfalls still being released, the fully
+  // released total, and catch-up minted so far
+  let active: Tranche[] = [];
+  let settled = 0n;
+  let catchUpPaid = 0n;
+  let cumulativeMinted = 0n;
+  let forfeited = 0n;
+
+  const allowanceAt = (epoch: number): bigint => {
+    const scheduled = getEpochEmissionUnits(schedule, epoch);
+    let released = settled;
+    const stillActive: Tranche[] = [];
+    for (const t of active) {
+      const elapsed = epoch - t.epoch;
+      if (elapsed >= releaseEpochs) {
+        settled += t.amount;
+        released += t.amount;
+      } else {
+        released += (t.amount * BigInt(elapsed)) / BigInt(releaseEpochs);
+        stillActive.push(t);
+      }
+    }
+    active = stillActive;
+    const catchUp = released > catchUpPaid ? released - catchUpPaid : 0n;
+    const headroom = getCumulativeEmissionsUnits(schedule, epoch) - forfeited - cumulativeMinted;
+    const allowance = scheduled + catchUp;
+    if (headroom <= 0n) return 0n;
+    return allowance < headroom ? allowance : headroom;
+  };
+
+  const epochs: EpochMintReconciliation[] = [];
+  for (let epoch = 1; epoch <= throughEpoch; epoch++) {
+    const scheduled = getEpochEmissionUnits(schedule, epoch);
+    const cumulativeScheduled = getCumulativeEmissionsUnits(schedule, epoch);
+    const allowance = allowanceAt(epoch);
+    const minted = mintedByEpoch.get(epoch) ?? 0n;
+    const backlogBefore = cumulativeScheduled - scheduled - forfeited - cumulativeMinted;
+    cumulativeMinted += minted;
+    let backlog = cumulativeScheduled - forfeited - cumulativeMinted;
+
+    if (minted > scheduled) {
+      // Minting beyond this epoch's amount first pays down the backlog
+      const catchUp = minted - scheduled;
+      if (backlogBefore > 0n) {
+        catchUpPaid += catchUp < backlogBefore ? catchUp : backlogBefore;
+      }
+    } else if (backlog > 0n) {
+      // New shortfall (absorbed first by any surplus)
+      const shortfall = scheduled - minted < backlog ? scheduled - minted : backlog;
+      if (releaseEpochs === 0) {
+        forfeited += backlog;
+        backlog = 0n;
+      } else if (shortfall > 0n) {
+        active.push({ epoch, amount: shortfall });
+      }
+    }
+
+    epochs.push({
+      epoch,
+      scheduled,
+      allowance,
+      minted,
+      excess: minted > allowance ? minted - allowance : 0n,
+      cumulativeScheduled,
+      cumulativeMinted,
+      forfeited,
+      deficit: backlog > 0n ? backlog : 0n,
+      surplus: backlog < 0n ? -backlog : 0n,
+    });
+  }
+
+  const last = epochs[epochs.length - 1];
+  return {
+    policy,
+    epochs,
+    cumulativeMinted,
+    forfeited,
+    deficit: last?.deficit ?? 0n,
+    surplus: last?.surplus ?? 0n,
+    nextEpoch: throughEpoch + 1,
+    nextAllowance: allowanceAt(throughEpoch + 1),
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * AFI Emissions Re-parameterization
+ *
+ * Mid-stream governance changes: after epoch N (the switch epoch) has been
+ * emitted, the remaining schedule switches to new parameters.
+ *
+ * - Epochs 1..N keep the current schedule's emissions unchanged.
+ * - Epochs N+1.. follow the new parameters' curve on the same epoch grid
+ *   (epoch N+1 of the result emits in proportion to epoch N+1 of a schedule
+ *   built from the new params), rescaled so the combined schedule emits the
+ *   new cap less the supply already emitted.
+ * - The length of the result is the new schedule's length.
+ *
+ * The float series sums to the cap up to float rounding, like
+ * `buildEmissionsSchedule`; the base-unit variant preserves the emitted
+ * integer amounts and allocates the remainder with the largest-remainder
+ * rule, so it sums EXACTLY to the scaled cap.
+ *
+ * Param overrides are deep-merged onto the current schedule's params, so
+ * `{ shapeMid: 2.0 }` only changes the mid-phase shape.
+ */
+
+import {
+  buildEmissionsSchedule,
+  getEpochEmission,
+  resolveEmissionsParams,
+  type BuildEmissionsOptions,
+  type DeepPartial,
+  type EmissionsParams,
+  type EmissionsSchedule
+} from "./emissionsSchedule.js";
+import {
+  getCumulativeEmissionsUnits,
+  getEpochEmissionUnits,
+  largestRemainderAllocation,
+  type IntegerEmissionsSchedule
+} from "./integerSchedule.js";
+
+/**
+ * Validate a switch epoch against the schedule taking over after it.
+ */
+function checkSwitchEpoch(switchEpoch: number, next: EmissionsSchedule): void {
+  if (!Number.isInteger(switchEpoch) || switchEpoch < 0 || switchEpoch >= next.totalEpochs) {
+    throw new Error("Invalid: switchEpoch must be an integer before the end of the new schedule");
+  }
+}
+
+/**
+ * Combine epochs 1..switchEpoch of `current` with the rest of `next`,
+ * rescaled to next's cap less the supply already emitted.
+ *
+ * @param current - Schedule in force through switchEpoch
+ * @param next - Schedule built from the new parameters
+ * @param switchEpoch - Last epoch emitted under the current schedule (0 = none)
+ * @returns Combined schedule with next's params and recomputed milestones
+ * @throws Error if switchEpoch is not an integer in 0..next.totalEpochs - 1
+ *         or next's cap is below the supply already emitted
+ */
+export function spliceEmissionsSchedules(
+  current: EmissionsSchedule,
+  next: EmissionsSchedule,
+  switchEpoch: number
+): EmissionsSchedule {
+  checkSwitchEpoch(switchEpoch, next);
+  const cap = Number(next.params.cap);
+
+  const emissions: number[] = [];
+  let emitted = 0;
+  for (let epoch = 1; epoch <= switchEpoch; epoch++) {
+    const e = getEpochEmission(current, epoch);
+    emissions.push(e);
+    emitted += e;
+  }
+  const tail = next.emissions.slice(switchEpoch);
+  const tailTotal = tail.reduce((sum, e) => sum + e, 0);
+  if (emitted > cap || !(tailTotal > 0)) {
+    throw new Error("Invalid: new cap must cover the supply already emitted");
+  }
+  const scale = (cap - emitted) / tailTotal;
+  for (const e of tail) {
+    emissions.push(e * scale);
+  }
+
+  const cumulative: number[] = [];
+  let runningTotal = 0;
+  for (const e of emissions) {
+    runningTotal += e;
+    cumulative.push(runningTotal);
+  }
+
+  // Same milestone rule as the builder
+  const totalEpochs = emissions.length;
+  const findMilestoneEpoch = (targetFraction: number): number => {
+    const target = cap * targetFraction;
+    const idx = cumulative.findIndex(c => c >= target);
+    return idx >= 0 ? idx + 1 : totalEpochs;
+  };
+  const epochsPerYear = next.params.epochsPerYear;
+  const { f33, f80, f100 } = next.params.targets;
+  const epochTo33Pct = findMilestoneEpoch(f33);
+  const epochTo80Pct = findMilestoneEpoch(f80);
+  const epochTo100Pct = findMilestoneEpoch(f100);
+
+  return {
+    params: next.params,
+    totalEpochs,
+    emissions,
+    cumulative,
+    milestones: {
+      epochTo33Pct,
+      epochTo80Pct,
+      epochTo100Pct,
+      yearsTo33Pct: epochTo33Pct / epochsPerYear,
+      yearsTo80Pct: epochTo80Pct / epochsPerYear,
+      yearsTo100Pct: epochTo100Pct / epochsPerYear,
+    },
+  };
+}
+
+/**
+ * Re-parameterize the remainder of a schedule from a switch epoch.
+ *
+ * @param schedule - Schedule in force through switchEpoch
+ * @param switchEpoch - Last epoch emitted under the current params (0 = none)
+ * @param params - Overrides deep-merged onto the schedule's params
+ * @param options - Build options for the new params (deterministic, strict, continuity)
+ * @returns Schedule with epochs 1..switchEpoch unchanged and the remaining
+ *          supply spread under the new params
+ * @throws Error if switchEpoch is not before the end of the new schedule or
+ *         the new cap is below the supply already emitted
+ * @throws EmissionsParamsError in strict mode if the new params are invalid
+ */
+export function reparameterizeEmissionsSchedule(
+  schedule: EmissionsSchedule,
+  switchEpoch: number,
+  params: DeepPartial<EmissionsParams>,
+  options: BuildEmissionsOptions = {}
+): EmissionsSchedule {
+  const next = buildEmissionsSchedule(resolveEmissionsParams(params, schedule.params).params, options);
+  return spliceEmissionsSchedules(schedule, next, switchEpoch);
+}
+
+/**
+ * Re-parameterize the remainder of an integer schedule from a switch epoch.
+ *
+ * @param schedule - Integer schedule in force through switchEpoch
+ * @param switchEpoch - Last epoch emitted under the current params (0 = none)
+ * @param params - Overrides deep-merged onto the schedule's params
+ * @param options - Build options for the new params (deterministic, strict, continuity)
+ * @returns Integer schedule with epochs 1..switchEpoch unchanged, summing
+ *          exactly to the new cap * 10^decimals
+ * @throws Error if switchEpoch is not before the end of the new schedule or
+ *         the new cap is below the supply already emitted
+ * @throws EmissionsParamsError in strict mode if the new params are invalid
+ */
+export function reparameterizeIntegerEmissionsSchedule(
+  schedule: IntegerEmissionsSchedule,
+  switchEpoch: number,
+  params: DeepPartial<EmissionsParams>,
+  options: BuildEmissionsOptions = {}
+): IntegerEmissionsSchedule {
+  const next = buildEmissionsSchedule(resolveEmissionsParams(params, schedule.params).params, options);
+  checkSwitchEpoch(switchEpoch, next);
+
+  const totalSupply = next.params.cap * 10n ** BigInt(schedule.decimals);
+  const remaining = totalSupply - getCumulativeEmissionsUnits(schedule, switchEpoch);
+  const tail = next.emissions.slice(switchEpoch);
+  if (remaining < 0n || !tail.some(e => e > 0)) {
+    throw new Error("Invalid: new cap must cover the supply already emitted");
+  }
+
+  const emissions: bigint[] = [];
+  for (let epoch = 1; epoch <= switchEpoch; epoch++) {
+    emissions.push(getEpochEmissionUnits(schedule, epoch));
+  }
+  // Append in a loop rather than spread: the tail can exceed the engine's argument limit
+  for (const e of largestRemainderAllocation(remaining, tail)) {
+    emissions.push(e);
+  }
+
+  const cumulative: bigint[] = [];
+  let runningTotal = 0n;
+  for (const e of emissions) {
+    runningTotal += e;
+    cumulative.push(runningTotal);
+  }
+
+  return {
+    params: next.params,
+    decimals: schedule.decimals,
+    totalSupply,
+    totalEpochs: emissions.length,
+    emissions,
+    cumulative,
+  };
+}
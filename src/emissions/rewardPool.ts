@@ -0,0 +1,133 @@
+/**
+ * AFI Emissions Reward Pool Split
+ *
+ * Splits an epoch's emission (the reward pool, in integer base units) across
+ * weighted recipient buckets such as validators, signal providers, treasury
+ * and ecosystem. Allocations always sum exactly to the pool.
+ *
+ * Remainder policies (for the base units left after flooring each share):
+ * - largestRemainder: Hamilton apportionment, ties to the earlier bucket
+ *                     (the rule used for the integer schedule itself)
+ * - bucket:           the named bucket absorbs the whole remainder
+ *
+ * Bucket weights may vary over time by emissions phase: pass one bucket set
+ * per phase (early, mid, tail) and each epoch uses its phase's set.
+ */
+
+import { phaseEpochCount, toPhasedEmissionsParams, type EmissionsParams } from "./emissionsSchedule.js";
+import {
+  getEpochEmissionUnits,
+  largestRemainderAllocation,
+  type IntegerEmissionsSchedule
+} from "./integerSchedule.js";
+
+export interface RewardBucket {
+  /** Unique bucket name (e.g. "validators", "treasury") */
+  name: string;
+  /** Non-negative relative weight (need not sum to 1) */
+  weight: number;
+}
+
+/** One bucket set for every epoch, or one set per emissions phase. */
+export type RewardBucketWeights = RewardBucket[] | { phases: RewardBucket[][] };
+
+export type RewardRemainderPolicy =
+  | { kind: "largestRemainder" }
+  | { kind: "bucket"; name: string };
+
+export interface RewardSplitOptions {
+  /** Remainder policy (default: largestRemainder) */
+  remainder?: RewardRemainderPolicy;
+}
+
+export interface RewardAllocation {
+  name: string;
+  /** Allocated amount in base units */
+  amount: bigint;
+}
+
+/**
+ * Split a reward pool across weighted buckets.
+ *
+ * @param pool - Reward pool in base units (e.g. from getEpochEmissionUnits)
+ * @param buckets - Buckets with unique names; at least one positive weight
+ * @param options - Remainder policy
+ * @returns One allocation per bucket, in bucket order, summing exactly to the pool
+ * @throws Error if the pool is negative, buckets are invalid or the remainder bucket is unknown
+ */
+export function splitRewardPool(
+  pool: bigint,
+  buckets: RewardBucket[],
+  options: RewardSplitOptions = {}
+): RewardAllocation[] {
+  const names = new Set(buckets.map(b => b.name));
+  if (names.size !== buckets.length || names.has("")) {
+    throw new Error("Invalid: bucket names must be unique and non-empty");
+  }
+
+  const remainder = options.remainder ?? { kind: "largestRemainder" };
+  let residueIndex: number | undefined;
+  if (remainder.kind === "bucket") {
+    residueIndex = buckets.findIndex(b => b.name === remainder.name);
+    if (residueIndex < 0) {
+      throw new Error("Invalid: remainder bucket not found");
+    }
+  } else if (remainder.kind !== "largestRemainder") {
+    throw new Error("Invalid: unknown remainder policy kind");
+  }
+
+  const amounts = largestRemainderAllocation(
+    pool,
+    buckets.map(b => b.weight),
+    { residueIndex }
+  );
+  return buckets.map((b, i) => ({ name: b.name, amount: amounts[i] }));
+}
+
+/**
+ * Get the emissions phase (0 = early, 1 = mid, 2 = tail) of an epoch.
+ * Phase lengths use the builder's rounding (`phaseEpochCount`); epochs past the schedule belong
+ * to the last phase.
+ */
+function phaseIndexOf(params: EmissionsParams, epoch: number): number {
+  const { phases, epochsPerYear } = toPhasedEmissionsParams(params);
+  let end = 0;
+  for (let i = 0; i < phases.length; i++) {
+    end += phaseEpochCount(phases[i].years, epochsPerYear);
+    if (epoch <= end) return i;
+  }
+  return phases.length - 1;
+}
+
+/**
+ * Split an epoch's emission across buckets, using that epoch's phase weights
+ * when weights are given per phase.
+ *
+ * @param schedule - Pre-built integer emissions schedule
+ * @param epoch - Epoch number (1-indexed; the pool is 0 outside the schedule)
+ * @param buckets - One bucket set, or `{ phases }` with one set per phase
+ * @param options - Remainder policy
+ * @returns One allocation per bucket summing exactly to the epoch's emission
+ * @throws Error if the epoch is not a positive integer, the phase sets don't
+ *         match the schedule's phases, or the buckets are invalid
+ */
+export function getEpochRewardSplit(
+  schedule: IntegerEmissionsSchedule,
+  epoch: number,
+  buckets: RewardBucketWeights,
+  options: RewardSplitOptions = {}
+): RewardAllocation[] {
+  if (!Number.isInteger(epoch) || epoch < 1) {
+    throw new Error("Invalid: epoch must be a positive integer");
+  }
+  let active: RewardBucket[];
+  if (Array.isArray(buckets)) {
+    active = buckets;
+  } else {
+    if (buckets.phases.length !== 3) {
+      throw new Error("Invalid: phase bucket sets must match the schedule's 3 phases");
+    }
+    active = buckets.phases[phaseIndexOf(schedule.params, epoch)];
+  }
+  return splitRewardPool(getEpochEmissionUnits(schedule, epoch), active, options);
+}
@@ -0,0 +1,154 @@
+/**
+ * AFI Emissions Schedule Diff
+ *
+ * Impact report for a governance change to `EmissionsParams`: compares a
+ * current schedule `a` with a proposed schedule `b` epoch by epoch.
+ *
+ * - deltas:      b - a per epoch over the longer of the two schedules
+ *                (epochs past a schedule's end emit 0)
+ * - relative:    delta / a's emission (Infinity where a emits 0 and b does not)
+ * - milestones:  epochTo33Pct / epochTo80Pct / epochTo100Pct before and after
+ * - checkpoints: cumulative emissions of both at the end of each schedule year
+ *
+ * Mid-schedule changes (`fromEpoch: N`): the new parameters only apply from
+ * epoch N onward. Epochs 1..N-1 keep a's emissions; epochs N.. follow b's
+ * curve, rescaled so the combined schedule still emits b's cap (see
+ * `spliceEmissionsSchedules`, with switch epoch N - 1). Already
+ * emitted supply is preserved, so the first divergent epoch is N at the
+ * earliest. The compared schedule is returned as `after`.
+ */
+
+import {
+  getCumulativeEmissions,
+  getEpochEmission,
+  type EmissionsSchedule
+} from "./emissionsSchedule.js";
+import { spliceEmissionsSchedules } from "./reparameterize.js";
+
+export interface EmissionsDiffOptions {
+  /** First epoch governed by b's parameters (default: 1, a full replacement) */
+  fromEpoch?: number;
+}
+
+export interface MilestoneShift {
+  before: number;
+  after: number;
+  /** after - before, in epochs (positive = reached later) */
+  shift: number;
+}
+
+export interface CumulativeCheckpoint {
+  /** Schedule year (1-indexed) */
+  year: number;
+  /** Last epoch of the year */
+  epoch: number;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface EmissionsScheduleDiff {
+  /** Compared epochs: the longer of the two schedules */
+  totalEpochs: number;
+  /** First epoch governed by the new parameters */
+  fromEpoch: number;
+  /** Per-epoch change in emission, after - before (index 0 = epoch 1) */
+  deltas: number[];
+  /** First epoch whose emission changes (0 if the schedules are identical) */
+  firstDivergentEpoch: number;
+  /** Largest absolute per-epoch change (epoch 0 if identical) */
+  maxAbsoluteChange: { epoch: number; delta: number };
+  /** Largest per-epoch change relative to the current emission */
+  maxRelativeChange: { epoch: number; change: number };
+  milestones: {
+    epochTo33Pct: MilestoneShift;
+    epochTo80Pct: MilestoneShift;
+    epochTo100Pct: MilestoneShift;
+  };
+  /** Cumulative emissions at the end of each schedule year */
+  checkpoints: CumulativeCheckpoint[];
+  /** The compared "after" schedule (b, or the mid-schedule combination) */
+  after: EmissionsSchedule;
+}
+
+function shift(before: number, after: number): MilestoneShift {
+  return { before, after, shift: after - before };
+}
+
+/**
+ * Compare two emissions schedules for a governance impact report.
+ *
+ * @param a - Current schedule
+ * @param b - Schedule built from the proposed parameters
+ * @param options - Optional `fromEpoch` for a mid-schedule change
+ * @returns Per-epoch deltas, extreme changes, milestone shifts and yearly
+ *          cumulative checkpoints
+ * @throws Error if the schedules have different epochsPerYear, fromEpoch is
+ *         not an integer in 1..b.totalEpochs, or b's cap is below the supply
+ *         a emits before fromEpoch
+ */
+export function diffEmissionsSchedules(
+  a: EmissionsSchedule,
+  b: EmissionsSchedule,
+  options: EmissionsDiffOptions = {}
+): EmissionsScheduleDiff {
+  const epochsPerYear = a.params.epochsPerYear;
+  if (b.params.epochsPerYear !== epochsPerYear) {
+    throw new Error("Invalid: schedules must share epochsPerYear");
+  }
+  const fromEpoch = options.fromEpoch ?? 1;
+  if (!Number.isInteger(fromEpoch) || fromEpoch < 1) {
+    throw new Error("Invalid: fromEpoch must be a positive integer");
+  }
+  if (fromEpoch > b.totalEpochs) {
+    throw new Error("Invalid: fromEpoch must be within the new schedule");
+  }
+  const after = fromEpoch === 1 ? b : spliceEmissionsSchedules(a, b, fromEpoch - 1);
+
+  const totalEpochs = Math.max(a.totalEpochs, after.totalEpochs);
+  const deltas: number[] = [];
+  let firstDivergentEpoch = 0;
+  const maxAbsoluteChange = { epoch: 0, delta: 0 };
+  const maxRelativeChange = { epoch: 0, change: 0 };
+  for (let epoch = 1; epoch <= totalEpochs; epoch++) {
+    const before = getEpochEmission(a, epoch);
+    const delta = getEpochEmission(after, epoch) - before;
+    deltas.push(delta);
+    if (delta === 0) continue;
+    if (firstDivergentEpoch === 0) firstDivergentEpoch = epoch;
+    if (Math.abs(delta) > Math.abs(maxAbsoluteChange.delta)) {
+      maxAbsoluteChange.epoch = epoch;
+      maxAbsoluteChange.delta = delta;
+    }
+    const change = before > 0 ? delta / before : Infinity;
+    if (Math.abs(change) > Math.abs(maxRelativeChange.change)) {
+      maxRelativeChange.epoch = epoch;
+      maxRelativeChange.change = change;
+    }
+  }
+
+  const checkpoints: CumulativeCheckpoint[] = [];
+  const years = Math.ceil(totalEpochs / epochsPerYear);
+  for (let year = 1; year <= years; year++) {
+    const epoch = Math.min(year * epochsPerYear, totalEpochs);
+    const cumBefore = getCumulativeEmissions(a, epoch);
+    const cumAfter = getCumulativeEmissions(after, epoch);
+    checkpoints.push({ year, epoch, before: cumBefore, after: cumAfter, delta: cumAfter - cumBefore });
+  }
+
+  return {
+    totalEpochs,
+    fromEpoch,
+    deltas,
+    firstDivergentEpoch,
+    maxAbsoluteChange,
+    maxRelativeChange,
+    milestones: {
+      epochTo33Pct: shift(a.milestones.epochTo33Pct, after.milestones.epochTo33Pct),
+      epochTo80Pct: shift(a.milestones.epochTo80Pct, after.milestones.epochTo80Pct),
+      epochTo100Pct: shift(a.milestones.epochTo100Pct, after.milestones.epochTo100Pct),
+    },
+    checkpoints,
+    after,
+  };
+}
@@ -0,0 +1,285 @@
+/**
+ * AFI Emissions Inverse Solver
+ *
+ * Fits the exponential shape factors (`shapeEarly`, `shapeMid`, `shapeTail`)
+ * of the three-phase schedule to target constraints, instead of tuning them
+ * by hand. All other params (cap, cadence, durations, targets) stay fixed.
+ *
+ * Constraints:
+ * - epochEmission:      emission at an epoch equals `value`
+ * - cumulativeFraction: cumulative fraction of the cap at an epoch (or at the
+ *                       end of year `years`) equals `fraction`
+ * - referenceCurve:     per-epoch emissions match a reference series (e.g.
+ *                       exported from the Wolfram model), from `startEpoch`
+ *
+ * Residuals are relative for emission amounts ((model - target) / target)
+ * and absolute for fractions. The solver minimizes the weighted sum of
+ * squared residuals with Levenberg-Marquardt over a forward-difference
+ * Jacobian, keeping the fitted shapes within `shapeBounds`. When the
+ * constraints are consistent the result satisfies them (`satisfied`);
+ * otherwise it is the least-squares best fit and `residuals` say how far
+ * each constraint is from being met.
+ */
+
+import {
+  buildEmissionsSchedule,
+  resolveEmissionsParams,
+  type BuildEmissionsOptions,
+  type DeepPartial,
+  type EmissionsParams,
+  type EmissionsSchedule
+} from "./emissionsSchedule.js";
+
+export type EmissionsConstraint =
+  | { kind: "epochEmission"; epoch: number; value: number; weight?: number }
+  | { kind: "cumulativeFraction"; epoch: number; fraction: number; weight?: number }
+  | { kind: "cumulativeFraction"; years: number; fraction: number; weight?: number }
+  | { kind: "referenceCurve"; emissions: number[]; startEpoch?: number; weight?: number };
+
+/** Shape factors the solver can fit. */
+export type FittableShape = "shapeEarly" | "shapeMid" | "shapeTail";
+
+export interface EmissionsFitOptions extends Omit<BuildEmissionsOptions, "continuity"> {
+  /** Shape factors to fit (default: all three) */
+  fit?: FittableShape[];
+  /** Inclusive bounds for fitted shapes (default: [0, 64]) */
+  shapeBounds?: [number, number];
+  /** Max |residual| for the constraints to count as satisfied (default: 1e-9) */
+  tolerance?: number;
+  /** Maximum Levenberg-Marquardt iterations (default: 200) */
+  maxIterations?: number;
+}
+
+export interface EmissionsFitResult {
+  /** Fitted params (base params with the fitted shapes) */
+  params: EmissionsParams;
+  /** Schedule built from the fitted params */
+  schedule: EmissionsSchedule;
+  /** Unweighted residuals per constraint (one per point for reference curves) */
+  residuals: number[][];
+  /** Weighted sum of squared residuals */
+  sumOfSquares: number;
+  /** Largest absolute residual */
+  maxAbsResidual: number;
+  /** True if every residual is within tolerance */
+  satisfied: boolean;
+  /** Iterations used */
+  iterations: number;
+}
+
+/**
+ * Residuals of one constraint against a schedule.
+ */
+function constraintResiduals(
+  schedule: EmissionsSchedule,
+  constraint: EmissionsConstraint
+): number[] {
+  const cap = Number(schedule.params.cap);
+  const checkEpoch = (epoch: number): void => {
+    if (!Number.isInteger(epoch) || epoch < 1 || epoch > schedule.totalEpochs) {
+      throw new Error("Invalid: constraint epoch must be an integer within the schedule");
+    }
+  };
+
+  switch (constraint.kind) {
+    case "epochEmission": {
+      checkEpoch(constraint.epoch);
+      return [(schedule.emissions[constraint.epoch - 1] - constraint.value) / constraint.value];
+    }
+    case "cumulativeFraction": {
+      const epoch =
+        "years" in constraint
+          ? Math.round(constraint.years * schedule.params.epochsPerYear)
+          : constraint.epoch;
+      checkEpoch(epoch);
+      return [schedule.cumulative[epoch - 1] / cap - constraint.fraction];
+    }
+    case "referenceCurve": {
+      const start = constraint.startEpoch ?? 1;
+      checkEpoch(start);
+      checkEpoch(start + constraint.emissions.length - 1);
+      return constraint.emissions.map(
+        (target, i) => (schedule.emissions[start - 1 + i] - target) / target
+      );
+    }
+  }
+}
+
+/**
+ * Check constraint targets up front (epochs are checked against the schedule).
+ */
+function validateConstraints(constraints: EmissionsConstraint[]): void {
+  if (constraints.length === 0) {
+    throw new Error("Invalid: at least one constraint is required");
+  }
+  for (const c of constraints) {
+    if (c.weight !== undefined && !(c.weight > 0 && Number.isFinite(c.weight))) {
+      throw new Error("Invalid: constraint weight must be positive and finite");
+    }
+    if (c.kind === "epochEmission" && !(c.value > 0 && Number.isFinite(c.value))) {
+      throw new Error("Invalid: epochEmission value must be positive and finite");
+    }
+    if (c.kind === "cumulativeFraction" && !(c.fraction >= 0 && c.fraction <= 1)) {
+      throw new Error("Invalid: cumulativeFraction fraction must be in [0, 1]");
+    }
+    if (c.kind === "referenceCurve") {
+      if (c.emissions.length === 0) {
+        throw new Error("Invalid: referenceCurve emissions must not be empty");
+      }
+      if (c.emissions.some(e => !(e > 0 && Number.isFinite(e)))) {
+        throw new Error("Invalid: referenceCurve emissions must be positive and finite");
+      }
+    }
+  }
+}
+
+/**
+ * Solve the k x k linear system A x = b by Gaussian elimination with
+ * partial pivoting. Returns null if A is singular.
+ */
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const k = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < k; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (m[pivot][col] === 0) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < k; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let j = col; j <= k; j++) m[row][j] -= factor * m[col][j];
+    }
+  }
+  const x = new Array<number>(k).fill(0);
+  for (let row = k - 1; row >= 0; row--) {
+    let acc = m[row][k];
+    for (let j = row + 1; j < k; j++) acc -= m[row][j] * x[j];
+    x[row] = acc / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Fit shape factors to constraints.
+ *
+ * @param constraints - Target constraints (at least one)
+ * @param base - Overrides for the fixed params; the base shapes are the starting point
+ * @param options - Shapes to fit, bounds, tolerance, iteration cap, deterministic/strict build options
+ * @returns Fitted params, schedule and residuals
+ * @throws Error if constraints are invalid or reference epochs outside the schedule
+ */
+export function fitEmissionsShapes(
+  constraints: EmissionsConstraint[],
+  base: DeepPartial<EmissionsParams> = {},
+  options: EmissionsFitOptions = {}
+): EmissionsFitResult {
+  validateConstraints(constraints);
+  const fit = options.fit ?? ["shapeEarly", "shapeMid", "shapeTail"];
+  if (fit.length === 0) {
+    throw new Error("Invalid: at least one shape must be fitted");
+  }
+  const [lower, upper] = options.shapeBounds ?? [0, 64];
+  if (!(lower < upper)) {
+    throw new Error("Invalid: shapeBounds must satisfy lower < upper");
+  }
+  const tolerance = options.tolerance ?? 1e-9;
+  const maxIterations = options.maxIterations ?? 200;
+  const buildOptions: BuildEmissionsOptions = {
+    deterministic: options.deterministic,
+    strict: options.strict,
+  };
+
+  const baseParams = resolveEmissionsParams(base).params;
+  const clamp = (x: number): number => Math.min(upper, Math.max(lower, x));
+  const start = fit.map(key => {
+    const shape = baseParams[key];
+    if (typeof shape !== "number") {
+      throw new Error("Invalid: fitted shapes must be exponential (numeric)");
+    }
+    return clamp(shape);
+  });
+
+  const paramsFor = (x: number[]): EmissionsParams => {
+    const params = { ...baseParams };
+    fit.forEach((key, i) => {
+      params[key] = x[i];
+    });
+    return params;
+  };
+  const evaluate = (x: number[]) => {
+    const schedule = buildEmissionsSchedule(paramsFor(x), buildOptions);
+    const residuals = constraints.map(c => constraintResiduals(schedule, c));
+    const weighted: number[] = [];
+    constraints.forEach((c, i) => {
+      const scale = Math.sqrt(c.weight ?? 1);
+      for (const r of residuals[i]) weighted.push(scale * r);
+    });
+    const sumOfSquares = weighted.reduce((acc, r) => acc + r * r, 0);
+    return { schedule, residuals, weighted, sumOfSquares };
+  };
+
+  // Levenberg-Marquardt with Marquardt (diagonal) scaling
+  let x = start;
+  let current = evaluate(x);
+  let lambda = 1e-3;
+  let iterations = 0;
+  while (iterations < maxIterations && current.sumOfSquares > 0) {
+    iterations++;
+
+    const jacobian = x.map((xi, j) => {
+      const h = 1e-6 * Math.max(1, Math.abs(xi));
+      const stepped = [...x];
+      stepped[j] = xi + h <= upper ? xi + h : xi - h;
+      const dh = stepped[j] - xi;
+      const r = evaluate(stepped).weighted;
+      return r.map((ri, i) => (ri - current.weighted[i]) / dh);
+    });
+    const k = x.length;
+    const jtj = Array.from({ length: k }, (_, a) =>
+      Array.from({ length: k }, (_, b) =>
+        jacobian[a].reduce((acc, v, i) => acc + v * jacobian[b][i], 0)
+      )
+    );
+    const jtr = jacobian.map(col => col.reduce((acc, v, i) => acc + v * current.weighted[i], 0));
+
+    let improved = false;
+    while (lambda < 1e16) {
+      const damped = jtj.map((row, a) => row.map((v, b) => (a === b ? v * (1 + lambda) : v)));
+      const delta = solveLinear(damped, jtr.map(v => -v));
+      if (delta === null) {
+        lambda *= 10;
+        continue;
+      }
+      const candidateX = x.map((xi, i) => clamp(xi + delta[i]));
+      if (candidateX.every((xi, i) => xi === x[i])) break;
+      const candidate = evaluate(candidateX);
+      if (candidate.sumOfSquares < current.sumOfSquares) {
+        const relativeGain = (current.sumOfSquares - candidate.sumOfSquares) / current.sumOfSquares;
+        x = candidateX;
+        current = candidate;
+        lambda = Math.max(lambda / 10, 1e-12);
+        improved = relativeGain > 1e-15;
+        break;
+      }
+      lambda *= 10;
+    }
+    if (!improved) break;
+  }
+
+  // Reduce rather than spread: residual arrays can exceed the engine's argument limit
+  const maxAbsResidual = current.residuals.reduce(
+    (max, rs) => rs.reduce((m, r) => Math.max(m, Math.abs(r)), max),
+    0
+  );
+  return {
+    params: current.schedule.params,
+    schedule: current.schedule,
+    residuals: current.residuals,
+    sumOfSquares: current.sumOfSquares,
+    maxAbsResidual,
+    satisfied: maxAbsResidual <= tolerance,
+    iterations,
+  };
+}
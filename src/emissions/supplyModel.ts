@@ -0,0 +1,213 @@
+/**
+ * AFI Emissions Supply Model
+ *
+ * Supply accounting on top of the integer emissions schedule. The schedule
+ * alone assumes everything emitted stays in circulation; this model adds:
+ * - burns:     amounts destroyed from circulation at an epoch
+ * - unclaimed: rewards of an epoch that are never claimed; they are not
+ *              minted at that epoch but recycled into the emission of the
+ *              following `recycleEpochs` epochs (even split, the last epoch
+ *              taking the rounding remainder)
+ * - locks:     minted amounts held out of circulation (e.g. vesting) from an
+ *              epoch until `unlockEpoch`
+ *
+ * Within an epoch: mint (scheduled - unclaimed + recycled), unlock, lock,
+ * burn. Every series is in base units and satisfies
+ *   cumulativeMinted = circulating + locked + burned
+ *   cumulativeMinted <= totalSupply (the cap)
+ * Burns never free room under the cap: burned supply is not re-minted.
+ * Recycling only re-emits amounts that were previously withheld, so the cap
+ * holds at every epoch; recycled amounts still pending at the horizon are
+ * reported in `pendingRecycle`.
+ */
+
+import { getEpochEmissionUnits, type IntegerEmissionsSchedule } from "./integerSchedule.js";
+
+export interface SupplyFlow {
+  /** Epoch of the flow (1-indexed) */
+  epoch: number;
+  /** Amount in base units */
+  amount: bigint;
+}
+
+export interface SupplyLock extends SupplyFlow {
+  /** Epoch at whose start the amount returns to circulation */
+  unlockEpoch: number;
+}
+
+export interface SupplyAdjustments {
+  burns?: SupplyFlow[];
+  unclaimed?: SupplyFlow[];
+  locks?: SupplyLock[];
+}
+
+export interface SupplyModelOptions {
+  /** Epochs over which unclaimed rewards are re-emitted (default: 1) */
+  recycleEpochs?: number;
+  /** Last epoch to model (default: schedule.totalEpochs) */
+  horizon?: number;
+}
+
+export interface SupplyModel {
+  /** Number of modeled epochs */
+  horizon: number;
+  /** Minted per epoch (index 0 = epoch 1) */
+  minted: bigint[];
+  /** Cumulative minted supply */
+  cumulativeMinted: bigint[];
+  /** Circulating supply (minted, not locked, not burned) */
+  circulating: bigint[];
+  /** Locked supply */
+  locked: bigint[];
+  /** Cumulative burned supply */
+  burned: bigint[];
+  /** Unclaimed amounts withheld and not yet re-emitted */
+  pendingRecycle: bigint[];
+}
+
+export interface SupplySnapshot {
+  cumulativeMinted: bigint;
+  circulating: bigint;
+  locked: bigint;
+  burned: bigint;
+  pendingRecycle: bigint;
+}
+
+/**
+ * Sum flows per epoch, validating epochs and amounts.
+ */
+function byEpoch(flows: SupplyFlow[], horizon: number, label: string): Map<number, bigint> {
+  const sums = new Map<number, bigint>();
+  for (const f of flows) {
+    if (!Number.isInteger(f.epoch) || f.epoch < 1 || f.epoch > horizon) {
+      throw new Error(`Invalid: ${label} epoch must be an integer in 1..horizon`);
+    }
+    if (f.amount < 0n) {
+      throw new Error(`Invalid: ${label} amount must be non-negative`);
+    }
+    sums.set(f.epoch, (sums.get(f.epoch) ?? 0n) + f.amount);
+  }
+  return sums;
+}
+
+/**
+ * Build circulating, locked and burned supply series.
+ *
+ * @param schedule - Pre-built integer emissions schedule
+ * @param adjustments - Burns, unclaimed (recycled) rewards and locks
+ * @param options - Recycle spread and horizon
+ * @returns Per-epoch supply series
+ * @throws Error if flows are invalid or a burn, lock or unclaimed amount
+ *         exceeds what is available at its epoch
+ */
+export function buildSupplyModel(
+  schedule: IntegerEmissionsSchedule,
+  adjustments: SupplyAdjustments = {},
+  options: SupplyModelOptions = {}
+): SupplyModel {
+  const horizon = options.horizon ?? schedule.totalEpochs;
+  if (!Number.isInteger(horizon) || horizon < 0) {
+    throw new Error("Invalid: horizon must be a non-negative integer");
+  }
+  const recycleEpochs = options.recycleEpochs ?? 1;
+  if (!Number.isInteger(recycleEpochs) || recycleEpochs < 1) {
+    throw new Error("Invalid: recycleEpochs must be a positive integer");
+  }
+
+  const burns = byEpoch(adjustments.burns ?? [], horizon, "burn");
+  const unclaimed = byEpoch(adjustments.unclaimed ?? [], horizon, "unclaimed");
+  const locks = byEpoch(adjustments.locks ?? [], horizon, "lock");
+  const unlocks = new Map<number, bigint>();
+  for (const l of adjustments.locks ?? []) {
+    if (!Number.isInteger(l.unlockEpoch) || l.unlockEpoch <= l.epoch) {
+      throw new Error("Invalid: unlockEpoch must be an integer after the lock epoch");
+    }
+    unlocks.set(l.unlockEpoch, (unlocks.get(l.unlockEpoch) ?? 0n) + l.amount);
+  }
+
+  const recycleIn = new Map<number, bigint>();
+  const model: SupplyModel = {
+    horizon,
+    minted: [],
+    cumulativeMinted: [],
+    circulating: [],
+    locked: [],
+    burned: [],
+    pendingRecycle: [],
+  };
+  let cumulativeMinted = 0n;
+  let circulating = 0n;
+  let locked = 0n;
+  let burned = 0n;
+  let pending = 0n;
+
+  for (let epoch = 1; epoch <= horizon; epoch++) {
+    const recycled = recycleIn.get(epoch) ?? 0n;
+    const emission = getEpochEmissionUnits(schedule, epoch) + recycled;
+    const withheld = unclaimed.get(epoch) ?? 0n;
+    if (withheld > emission) {
+      throw new Error(`Invalid: unclaimed exceeds the emission at epoch ${epoch}`);
+    }
+    pending += withheld - recycled;
+    if (withheld > 0n) {
+      // Spread evenly over the next recycleEpochs epochs, remainder last
+      const step = withheld / BigInt(recycleEpochs);
+      for (let k = 1; k <= recycleEpochs; k++) {
+        const amount = k === recycleEpochs ? withheld - step * BigInt(recycleEpochs - 1) : step;
+        recycleIn.set(epoch + k, (recycleIn.get(epoch + k) ?? 0n) + amount);
+      }
+    }
+
+    const minted = emission - withheld;
+    cumulativeMinted += minted;
+    circulating += minted;
+
+    const unlocked = unlocks.get(epoch) ?? 0n;
+    locked -= unlocked;
+    circulating += unlocked;
+
+    const newlyLocked = locks.get(epoch) ?? 0n;
+    if (newlyLocked > circulating) {
+      throw new Error(`Invalid: lock exceeds circulating supply at epoch ${epoch}`);
+    }
+    locked += newlyLocked;
+    circulating -= newlyLocked;
+
+    const burn = burns.get(epoch) ?? 0n;
+    if (burn > circulating) {
+      throw new Error(`Invalid: burn exceeds circulating supply at epoch ${epoch}`);
+    }
+    burned += burn;
+    circulating -= burn;
+
+    model.minted.push(minted);
+    model.cumulativeMinted.push(cumulativeMinted);
+    model.circulating.push(circulating);
+    model.locked.push(locked);
+    model.burned.push(burned);
+    model.pendingRecycle.push(pending);
+  }
+
+  return model;
+}
+
+/**
+ * Get the supply snapshot at the end of an epoch.
+ *
+ * @param model - Pre-built supply model
+ * @param epoch - Epoch number (1-indexed)
+ * @returns Snapshot (all zero before epoch 1, the horizon's values after it)
+ */
+export function getSupplyAt(model: SupplyModel, epoch: number): SupplySnapshot {
+  if (epoch < 1 || model.horizon === 0) {
+    return { cumulativeMinted: 0n, circulating: 0n, locked: 0n, burned: 0n, pendingRecycle: 0n };
+  }
+  const i = Math.min(epoch, model.horizon) - 1;
+  return {
+    cumulativeMinted: model.cumulativeMinted[i],
+    circulating: model.circulating[i],
+    locked: model.locked[i],
+    burned: model.burned[i],
+    pendingRecycle: model.pendingRecycle[i],
+  };
+}
@@ -0,0 +1,289 @@
+/**
+ * AFI Emissions Parameter Validation
+ *
+ * Structural and semantic checks for `EmissionsParams`. Governance proposals
+ * that change the schedule are written by hand (often as JSON), so the
+ * checks run against the runtime shape and report every violation at once
+ * instead of stopping at the first.
+ *
+ * Rules:
+ * - cap: bigint, > 0
+ * - epochsPerYear: finite integer, > 0
+ * - earlyYears / midYears / tailYears: finite, > 0
+ * - targets: object with finite f33, f80, f100 satisfying
+ *   0 < f33 < f80 < f100 <= 1
+ * - shapeEarly / shapeMid / shapeTail: finite exponential factor >= -512
+ *   (0 = uniform phase, negative = back-loaded, as continuity mode solves),
+ *   or a `WeightShape` of a known kind with valid parameters
+ *   (exponential shape as above, exponent / steepness >= 0, midpoint in
+ *   [0, 1], periods a positive integer)
+ *
+ * N-phase params follow the same rules per phase: a non-empty `phases`
+ * array, each phase with positive `years`, `targetFraction` in (0, 1]
+ * strictly increasing across phases, and a valid `shape`.
+ */
+
+import type { EmissionsParams, PhasedEmissionsParams } from "./emissionsSchedule.js";
+import { WEIGHT_SHAPE_KINDS } from "./weightShapes.js";
+
+/**
+ * Lowest exponential shape factor: the bound continuity mode solves within
+ * (|shape| <= 512 keeps the raw weights finite).
+ */
+const MIN_EXPONENTIAL_SHAPE = -512;
+
+/**
+ * Machine-readable violation codes.
+ */
+export type EmissionsParamsViolationCode =
+  | "missing"
+  | "invalid_type"
+  | "not_finite"
+  | "not_integer"
+  | "not_positive"
+  | "negative"
+  | "out_of_range"
+  | "not_increasing";
+
+export interface EmissionsParamsViolation {
+  /** Dotted field path, e.g. "targets.f80" */
+  path: string;
+  /** Machine-readable violation code */
+  code: EmissionsParamsViolationCode;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Error thrown by strict-mode schedule builders when params are invalid.
+ * Carries the full violation list; the message lists every violation.
+ */
+export class EmissionsParamsError extends Error {
+  readonly violations: EmissionsParamsViolation[];
+
+  constructor(violations: EmissionsParamsViolation[]) {
+    super(`Invalid: emissions params (${violations.map(v => v.message).join("; ")})`);
+    this.name = "EmissionsParamsError";
+    this.violations = violations;
+  }
+}
+
+/**
+ * Check a numeric field, appending violations. Returns the number when it is
+ * present and finite (so callers can run cross-field checks), else null.
+ */
+function checkNumber(
+  violations: EmissionsParamsViolation[],
+  path: string,
+  value: unknown,
+  rule: "positive" | "nonNegative" | "positiveInteger" | "fraction" | "unitInterval" | "exponentialShape"
+): number | null {
+  if (value === undefined) {
+    violations.push({ path, code: "missing", message: `${path} is required` });
+    return null;
+  }
+  if (typeof value !== "number") {
+    violations.push({ path, code: "invalid_type", message: `${path} must be a number` });
+    return null;
+  }
+  if (!Number.isFinite(value)) {
+    violations.push({ path, code: "not_finite", message: `${path} must be finite` });
+    return null;
+  }
+  if (rule === "positiveInteger" && !Number.isInteger(value)) {
+    violations.push({ path, code: "not_integer", message: `${path} must be an integer` });
+  }
+  if (rule === "nonNegative" && value < 0) {
+    violations.push({ path, code: "negative", message: `${path} must be non-negative` });
+  }
+  if ((rule === "positive" || rule === "positiveInteger") && value <= 0) {
+    violations.push({ path, code: "not_positive", message: `${path} must be positive` });
+  }
+  if (rule === "fraction" && (value <= 0 || value > 1)) {
+    violations.push({ path, code: "out_of_range", message: `${path} must be in (0, 1]` });
+  }
+  if (rule === "unitInterval" && (value < 0 || value > 1)) {
+    violations.push({ path, code: "out_of_range", message: `${path} must be in [0, 1]` });
+  }
+  if (rule === "exponentialShape" && value < MIN_EXPONENTIAL_SHAPE) {
+    violations.push({ path, code: "out_of_range", message: `${path} must be >= ${MIN_EXPONENTIAL_SHAPE}` });
+  }
+  return value;
+}
+
+/**
+ * Check a phase shape: an exponential factor (negative = back-loaded) or a
+ * tagged weight shape with valid parameters.
+ */
+function checkShape(violations: EmissionsParamsViolation[], path: string, value: unknown): void {
+  if (typeof value !== "object" || value === null) {
+    checkNumber(violations, path, value, "exponentialShape");
+    return;
+  }
+  const shape = value as Record<string, unknown>;
+  switch (shape.kind) {
+    case "exponential":
+      checkNumber(violations, `${path}.shape`, shape.shape, "exponentialShape");
+      return;
+    case "powerLaw":
+      checkNumber(violations, `${path}.exponent`, shape.exponent, "nonNegative");
+      return;
+    case "logistic":
+      checkNumber(violations, `${path}.steepness`, shape.steepness, "nonNegative");
+      checkNumber(violations, `${path}.midpoint`, shape.midpoint, "unitInterval");
+      return;
+    case "halving":
+      checkNumber(violations, `${path}.periods`, shape.periods, "positiveInteger");
+      return;
+    case "linear":
+    case "constant":
+      return;
+    default:
+      violations.push({
+        path: `${path}.kind`,
+        code: "invalid_type",
+        message: `${path}.kind must be one of ${WEIGHT_SHAPE_KINDS.join(", ")}`,
+      });
+  }
+}
+
+/**
+ * Check the fields shared by the three-phase and N-phase params.
+ */
+function checkCapAndCadence(violations: EmissionsParamsViolation[], p: Record<string, unknown>): void {
+  if (p.cap === undefined) {
+    violations.push({ path: "cap", code: "missing", message: "cap is required" });
+  } else if (typeof p.cap !== "bigint") {
+    violations.push({ path: "cap", code: "invalid_type", message: "cap must be a bigint" });
+  } else if (p.cap <= 0n) {
+    violations.push({ path: "cap", code: "not_positive", message: "cap must be positive" });
+  }
+
+  checkNumber(violations, "epochsPerYear", p.epochsPerYear, "positiveInteger");
+}
+
+/**
+ * Validate emissions parameters.
+ *
+ * @param params - Full emissions parameters (typically defaults merged with overrides)
+ * @returns Every violation found, in field order (empty if valid)
+ */
+export function validateEmissionsParams(params: EmissionsParams): EmissionsParamsViolation[] {
+  const violations: EmissionsParamsViolation[] = [];
+  // Inputs often come from hand-written JSON, so read fields untyped
+  const p = params as unknown as Record<string, unknown>;
+
+  checkCapAndCadence(violations, p);
+  checkNumber(violations, "earlyYears", p.earlyYears, "positive");
+  checkNumber(violations, "midYears", p.midYears, "positive");
+  checkNumber(violations, "tailYears", p.tailYears, "positive");
+
+  if (p.targets === undefined) {
+    violations.push({ path: "targets", code: "missing", message: "targets is required" });
+  } else if (typeof p.targets !== "object" || p.targets === null) {
+    violations.push({ path: "targets", code: "invalid_type", message: "targets must be an object" });
+  } else {
+    const t = p.targets as Record<string, unknown>;
+    const f33 = checkNumber(violations, "targets.f33", t.f33, "fraction");
+    const f80 = checkNumber(violations, "targets.f80", t.f80, "fraction");
+    const f100 = checkNumber(violations, "targets.f100", t.f100, "fraction");
+    if (f33 !== null && f80 !== null && f80 <= f33) {
+      violations.push({
+        path: "targets.f80",
+        code: "not_increasing",
+        message: "targets.f80 must be greater than targets.f33",
+      });
+    }
+    if (f80 !== null && f100 !== null && f100 <= f80) {
+      violations.push({
+        path: "targets.f100",
+        code: "not_increasing",
+        message: "targets.f100 must be greater than targets.f80",
+      });
+    }
+  }
+
+  checkShape(violations, "shapeEarly", p.shapeEarly);
+  checkShape(violations, "shapeMid", p.shapeMid);
+  checkShape(violations, "shapeTail", p.shapeTail);
+
+  return violations;
+}
+
+/**
+ * Validate emissions parameters and throw if any rule is violated.
+ *
+ * @param params - Full emissions parameters
+ * @throws EmissionsParamsError listing every violation
+ */
+export function assertValidEmissionsParams(params: EmissionsParams): void {
+  const violations = validateEmissionsParams(params);
+  if (violations.length > 0) {
+    throw new EmissionsParamsError(violations);
+  }
+}
+
+/**
+ * Validate N-phase emissions parameters.
+ *
+ * @param params - Cap, cadence and ordered phases
+ * @returns Every violation found, in field order (empty if valid)
+ */
+export function validatePhasedEmissionsParams(
+  params: PhasedEmissionsParams
+): EmissionsParamsViolation[] {
+  const violations: EmissionsParamsViolation[] = [];
+  const p = params as unknown as Record<string, unknown>;
+
+  checkCapAndCadence(violations, p);
+
+  if (p.phases === undefined) {
+    violations.push({ path: "phases", code: "missing", message: "phases is required" });
+    return violations;
+  }
+  if (!Array.isArray(p.phases)) {
+    violations.push({ path: "phases", code: "invalid_type", message: "phases must be an array" });
+    return violations;
+  }
+  if (p.phases.length === 0) {
+    violations.push({ path: "phases", code: "out_of_range", message: "phases must not be empty" });
+    return violations;
+  }
+
+  let previousFraction: number | null = null;
+  p.phases.forEach((phase: unknown, i: number) => {
+    const path = `phases[${i}]`;
+    if (typeof phase !== "object" || phase === null) {
+      violations.push({ path, code: "invalid_type", message: `${path} must be an object` });
+      previousFraction = null;
+      return;
+    }
+    const f = phase as Record<string, unknown>;
+    checkNumber(violations, `${path}.years`, f.years, "positive");
+    const fraction = checkNumber(violations, `${path}.targetFraction`, f.targetFraction, "fraction");
+    if (fraction !== null && previousFraction !== null && fraction <= previousFraction) {
+      violations.push({
+        path: `${path}.targetFraction`,
+        code: "not_increasing",
+        message: `${path}.targetFraction must be greater than phases[${i - 1}].targetFraction`,
+      });
+    }
+    checkShape(violations, `${path}.shape`, f.shape);
+    previousFraction = fraction;
+  });
+
+  return violations;
+}
+
+/**
+ * Validate N-phase emissions parameters and throw if any rule is violated.
+ *
+ * @param params - Cap, cadence and ordered phases
+ * @throws EmissionsParamsError listing every violation
+ */
+export function assertValidPhasedEmissionsParams(params: PhasedEmissionsParams): void {
+  const violations = validatePhasedEmissionsParams(params);
+  if (violations.length > 0) {
+    throw new EmissionsParamsError(violations);
+  }
+}
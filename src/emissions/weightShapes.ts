@@ -0,0 +1,311 @@
+/**
+ * AFI Emissions Weight Shapes
+ *
+ * Normalized intra-phase weight generators. A phase spreads its supply over
+ * its epochs in proportion to one of these weight series.
+ *
+ * A phase shape is either a plain number (the canonical exponential
+ * front-loading factor, `shapeWeights`) or a tagged `WeightShape`:
+ * - exponential: w[i] ∝ exp(-shape * i / (n-1))
+ * - linear:      w[i] ∝ n - i (straight ramp down to 1/n of the first epoch)
+ * - powerLaw:    w[i] ∝ (i + 1)^(-exponent)
+ * - logistic:    w[i] ∝ 1 / (1 + exp(steepness * (i / (n-1) - midpoint)))
+ * - constant:    w[i] ∝ 1
+ * - halving:     the phase is split into `periods` blocks of (near-)equal
+ *                length (at most one block per epoch); each block's
+ *                per-epoch weight is half the previous block's
+ *                (Bitcoin-style halvings)
+ *
+ * The plain-number form keeps its original normalization so existing
+ * schedules stay bit-identical. Every tagged shape, `{ kind: "exponential" }`
+ * included, absorbs the normalization rounding into its last weight, so its
+ * left-to-right float64 sum is exactly 1 whenever that last weight is not
+ * negligible (relative change <= 1e-6).
+ */
+
+import {
+  transcendentals,
+  type DeterministicOptions
+} from "../deterministic/deterministicMath.js";
+
+export type WeightShape =
+  | { kind: "exponential"; shape: number }
+  | { kind: "linear" }
+  | { kind: "powerLaw"; exponent: number }
+  | { kind: "logistic"; steepness: number; midpoint: number }
+  | { kind: "constant" }
+  | { kind: "halving"; periods: number };
+
+/** Exponential front-loading factor, or a tagged weight shape. */
+export type PhaseShape = number | WeightShape;
+
+export type WeightShapeKind = WeightShape["kind"];
+
+/** Every supported weight shape kind. */
+export const WEIGHT_SHAPE_KINDS: readonly WeightShapeKind[] = [
+  "exponential",
+  "linear",
+  "powerLaw",
+  "logistic",
+  "constant",
+  "halving",
+];
+
+/**
+ * Generate front-loaded weights that sum to 1.
+ * Uses exponential decay: w[i] = exp(-shape * i / (n-1))
+ *
+ * @param n - Number of weights to generate
+ * @param shape - Shape parameter (higher = more front-loaded)
+ * @param options - Optional `{ deterministic: true }` for engine-independent exp
+ * @returns Array of weights summing to 1
+ */
+export function shapeWeights(
+  n: number,
+  shape: number,
+  options: DeterministicOptions = {}
+): number[] {
+  if (n <= 0) return [];
+  if (n === 1) return [1.0];
+
+  const weights = exponentialRawWeights(n, shape, options);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => w / total);
+}
+
+/**
+ * Unnormalized exponential weights: exp(-shape * i / (n-1)).
+ */
+function exponentialRawWeights(
+  n: number,
+  shape: number,
+  options: DeterministicOptions
+): number[] {
+  const { exp } = transcendentals(options);
+  const weights: number[] = [];
+  const denominator = Math.max(1, n - 1);
+
+  for (let i = 0; i < n; i++) {
+    const t = i / denominator;
+    weights.push(exp(-shape * t));
+  }
+  return weights;
+}
+
+/**
+ * Solve for the exponential shape factor whose first normalized weight
+ * equals `firstWeight`, i.e. shapeWeights(n, shape)[0] === firstWeight up to
+ * float64 bisection precision.
+ *
+ * The first weight increases monotonically with the shape, from 0
+ * (shape → -∞, fully back-loaded) through 1/n (shape 0) to 1 (shape → +∞),
+ * so every firstWeight in (0, 1) has exactly one solution. Negative
+ * solutions are back-loaded (increasing) phases.
+ *
+ * @param n - Number of weights (at least 2)
+ * @param firstWeight - Target first weight, in (0, 1)
+ * @param options - Optional `{ deterministic: true }` for engine-independent exp
+ * @returns Shape factor
+ * @throws Error if n < 2 or firstWeight is outside (0, 1)
+ */
+export function exponentialShapeForFirstWeight(
+  n: number,
+  firstWeight: number,
+  options: DeterministicOptions = {}
+): number {
+  if (!Number.isInteger(n) || n < 2) {
+    throw new Error("Invalid: n must be an integer of at least 2");
+  }
+  if (!(firstWeight > 0 && firstWeight < 1)) {
+    throw new Error("Invalid: firstWeight must be in (0, 1)");
+  }
+
+  const first = (shape: number): number => shapeWeights(n, shape, options)[0];
+
+  // Bracket the root by doubling (|shape| <= 512 keeps exp finite), then
+  // bisect to adjacent floats
+  let lo = -1;
+  let hi = 1;
+  while (first(lo) > firstWeight && lo > -512) lo *= 2;
+  while (first(hi) < firstWeight && hi < 512) hi *= 2;
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    if (mid === lo || mid === hi) break;
+    if (first(mid) < firstWeight) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return Math.abs(first(lo) - firstWeight) <= Math.abs(first(hi) - firstWeight) ? lo : hi;
+}
+
+/**
+ * Normalize positive raw weights so their left-to-right sum is exactly 1.
+ *
+ * With head = fl(w[0] + ... + w[n-2]) in [0, 1), fl(head + fl(1 - head))
+ * rounds to exactly 1, so the last weight is replaced by 1 - head unless
+ * that would move it by more than 1e-6 relative.
+ */
+function normalizeToUnitSum(raw: number[]): number[] {
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  const weights = raw.map(w => w / total);
+
+  const last = weights.length - 1;
+  let head = 0;
+  for (let i = 0; i < last; i++) {
+    head += weights[i];
+  }
+  const compensated = 1 - head;
+  if (compensated > 0 && Math.abs(compensated - weights[last]) <= weights[last] * 1e-6) {
+    weights[last] = compensated;
+  }
+  return weights;
+}
+
+/**
+ * Linear ramp-down weights: w[i] ∝ n - i.
+ *
+ * @param n - Number of weights to generate
+ * @returns Array of n weights summing to 1
+ */
+export function linearWeights(n: number): number[] {
+  if (n <= 0) return [];
+  const raw: number[] = [];
+  for (let i = 0; i < n; i++) {
+    raw.push(n - i);
+  }
+  return normalizeToUnitSum(raw);
+}
+
+/**
+ * Power-law weights: w[i] ∝ (i + 1)^(-exponent).
+ *
+ * @param n - Number of weights to generate
+ * @param exponent - Decay exponent (0 = constant, higher = more front-loaded)
+ * @param options - Optional `{ deterministic: true }` for engine-independent pow
+ * @returns Array of n weights summing to 1
+ * @throws Error if exponent is negative or not finite
+ */
+export function powerLawWeights(
+  n: number,
+  exponent: number,
+  options: DeterministicOptions = {}
+): number[] {
+  if (!Number.isFinite(exponent) || exponent < 0) {
+    throw new Error("Invalid: exponent must be finite and non-negative");
+  }
+  if (n <= 0) return [];
+  const { pow } = transcendentals(options);
+  const raw: number[] = [];
+  for (let i = 0; i < n; i++) {
+    raw.push(pow(i + 1, -exponent));
+  }
+  return normalizeToUnitSum(raw);
+}
+
+/**
+ * Logistic taper weights: w[i] ∝ 1 / (1 + exp(steepness * (t - midpoint))),
+ * with t = i / (n-1) running from 0 to 1 across the phase.
+ *
+ * Roughly flat before the midpoint, then tapering off.
+ *
+ * @param n - Number of weights to generate
+ * @param steepness - Taper steepness (0 = constant)
+ * @param midpoint - Taper midpoint as a fraction of the phase, in [0, 1]
+ * @param options - Optional `{ deterministic: true }` for engine-independent exp
+ * @returns Array of n weights summing to 1
+ * @throws Error if steepness is negative or midpoint is outside [0, 1]
+ */
+export function logisticTaperWeights(
+  n: number,
+  steepness: number,
+  midpoint: number,
+  options: DeterministicOptions = {}
+): number[] {
+  if (!Number.isFinite(steepness) || steepness < 0) {
+    throw new Error("Invalid: steepness must be finite and non-negative");
+  }
+  if (!(midpoint >= 0 && midpoint <= 1)) {
+    throw new Error("Invalid: midpoint must be in [0, 1]");
+  }
+  if (n <= 0) return [];
+  const { exp } = transcendentals(options);
+  const denominator = Math.max(1, n - 1);
+  const raw: number[] = [];
+  for (let i = 0; i < n; i++) {
+    raw.push(1 / (1 + exp(steepness * (i / denominator - midpoint))));
+  }
+  return normalizeToUnitSum(raw);
+}
+
+/**
+ * Constant weights: w[i] = 1/n.
+ *
+ * @param n - Number of weights to generate
+ * @returns Array of n weights summing to 1
+ */
+export function constantWeights(n: number): number[] {
+  if (n <= 0) return [];
+  return normalizeToUnitSum(new Array<number>(n).fill(1));
+}
+
+/**
+ * Halving step weights: epoch i falls in block floor(i * blocks / n) and
+ * has weight ∝ 2^(-block), so each block emits at half the previous rate.
+ *
+ * A phase shorter than `periods` epochs is clamped to one block per epoch
+ * (blocks = min(periods, n)), so no block is skipped.
+ *
+ * @param n - Number of weights to generate
+ * @param periods - Number of halving blocks in the phase
+ * @returns Array of n weights summing to 1
+ * @throws Error if periods is not a positive integer
+ */
+export function halvingWeights(n: number, periods: number): number[] {
+  if (!Number.isInteger(periods) || periods < 1) {
+    throw new Error("Invalid: periods must be a positive integer");
+  }
+  if (n <= 0) return [];
+  const blocks = Math.min(periods, n);
+  const raw: number[] = [];
+  for (let i = 0; i < n; i++) {
+    raw.push(2 ** -Math.floor((i * blocks) / n));
+  }
+  return normalizeToUnitSum(raw);
+}
+
+/**
+ * Generate the weights of a phase shape.
+ *
+ * @param n - Number of weights to generate
+ * @param shape - Exponential factor (number) or tagged weight shape
+ * @param options - Optional `{ deterministic: true }` for engine-independent transcendentals
+ * @returns Array of n weights summing to 1
+ * @throws Error if the shape kind is unknown or its parameters are invalid
+ */
+export function weightsForShape(
+  n: number,
+  shape: PhaseShape,
+  options: DeterministicOptions = {}
+): number[] {
+  if (typeof shape === "number") {
+    return shapeWeights(n, shape, options);
+  }
+  switch (shape.kind) {
+    case "exponential":
+      return n <= 0 ? [] : normalizeToUnitSum(exponentialRawWeights(n, shape.shape, options));
+    case "linear":
+      return linearWeights(n);
+    case "powerLaw":
+      return powerLawWeights(n, shape.exponent, options);
+    case "logistic":
+      return logisticTaperWeights(n, shape.steepness, shape.midpoint, options);
+    case "constant":
+      return constantWeights(n);
+    case "halving":
+      return halvingWeights(n, shape.periods);
+    default:
+      throw new Error("Invalid: unknown weight shape kind");
+  }
+}
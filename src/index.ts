@@ -8,26 +8,147 @@
  * - Curve primitives (logistic, exponential, power law)
  * - Valuation models (reverse DCF, implied discount rates)
  * - Signal decay models (exponential, power law, greeks-adjusted)
+ * - Engine-independent deterministic transcendentals (exp, log, pow, tanh)
+ * - Pure SHA-256 hashing for fingerprinting canonical outputs
+ * - Vesting schedules (cliff, linear, graded, custom steps) in base units
  * 
  * All functions are deterministic and side-effect free.
  * No I/O, database, network, or blockchain operations.
  */
 
 // Re-export all modules
-export * as timeValue from "./timeValue/timeValue.js";
+export * as timeValue from "./timeValue/index.js";
 export * as curves from "./curves/curves.js";
 export * as valuation from "./valuation/reverseDcf.js";
 export * as decay from "./decay/decayModels.js";
-export * as emissions from "./emissions/emissionsSchedule.js";
+export * as emissions from "./emissions/index.js";
+export * as deterministic from "./deterministic/deterministicMath.js";
+export * as hashing from "./hashing/sha256.js";
+export * as vesting from "./vesting/vesting.js";
 
 // Also export types for convenience
+export type {
+  DatedCashFlow,
+  DayCountConvention,
+  IrrResult,
+  IrrSearchOptions
+} from "./timeValue/cashFlows.js";
+
+export type {
+  AmortizationPeriod,
+  AnnuityTiming
+} from "./timeValue/annuities.js";
+
+export type { CompoundingFrequency } from "./timeValue/compounding.js";
+
 export type {
   ReverseDCFInputs,
   ReverseDCFOutputs
 } from "./valuation/reverseDcf.js";
 
 export type {
+  BuildEmissionsOptions,
+  ContinuityReport,
+  DeepPartial,
   EmissionsParams,
-  EmissionsSchedule
+  EmissionsPhase,
+  EmissionsPhaseSummary,
+  EmissionsSchedule,
+  PhasedEmissionsParams,
+  PhasedEmissionsSchedule,
+  ResolvedEmissionsParams
 } from "./emissions/emissionsSchedule.js";
 
+export type {
+  PhaseShape,
+  WeightShape,
+  WeightShapeKind
+} from "./emissions/weightShapes.js";
+
+export type {
+  EmissionsConstraint,
+  EmissionsFitOptions,
+  EmissionsFitResult,
+  FittableShape
+} from "./emissions/solver.js";
+
+export type { EpochClock } from "./emissions/epochClock.js";
+
+export type {
+  CatchUpPolicy,
+  EpochMintReconciliation,
+  MintReconciliation,
+  MintRecord
+} from "./emissions/reconciliation.js";
+
+export type {
+  RewardAllocation,
+  RewardBucket,
+  RewardBucketWeights,
+  RewardRemainderPolicy,
+  RewardSplitOptions
+} from "./emissions/rewardPool.js";
+
+export type {
+  DistributionOptions,
+  DistributionParticipant,
+  DistributionResult,
+  Payout,
+  PayoutStatus
+} from "./emissions/distribution.js";
+
+export type {
+  SupplyAdjustments,
+  SupplyFlow,
+  SupplyLock,
+  SupplyModel,
+  SupplyModelOptions,
+  SupplySnapshot
+} from "./emissions/supplyModel.js";
+
+export type {
+  EpochInflationMetrics,
+  InflationMetrics,
+  InflationMetricsOptions,
+  InflationPeak,
+  PeriodInflationMetrics,
+  YearInflationMetrics
+} from "./emissions/inflationMetrics.js";
+
+export type {
+  CumulativeCheckpoint,
+  EmissionsDiffOptions,
+  EmissionsScheduleDiff,
+  MilestoneShift
+} from "./emissions/scheduleDiff.js";
+
+export type {
+  ClosedFormEmissionsSchedule,
+  ClosedFormPhase
+} from "./emissions/closedForm.js";
+
+export type { SolidityExportOptions } from "./emissions/exportFormats.js";
+
+export type { EmissionsMerkleTree } from "./emissions/merkle.js";
+
+export type {
+  EmissionsParamsViolation,
+  EmissionsParamsViolationCode
+} from "./emissions/validation.js";
+
+export type {
+  IntegerEmissionsSchedule,
+  IntegerScheduleOptions
+} from "./emissions/integerSchedule.js";
+
+export type {
+  UnlockProjection,
+  VestingSchedule,
+  VestingStep
+} from "./vesting/vesting.js";
+
+export type {
+  DeterministicOptions,
+  Transcendentals
+} from "./deterministic/deterministicMath.js";
+
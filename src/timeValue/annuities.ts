@@ -0,0 +1,312 @@
+/**
+ * Annuity and Perpetuity Functions
+ *
+ * Level and growing annuities, perpetuities, payment/term/rate solving, and
+ * amortization schedules for staking-yield and loan-like signals.
+ *
+ * Conventions:
+ * - `rate` and `growth` are per period; payments are level (growth 0)
+ *   unless `growth` is given, in which case payment k is
+ *   payment * (1 + growth)^(k-1)
+ * - Timing "ordinary" pays at the end of each period, "due" at the start
+ *   (every value is the ordinary one times (1 + rate))
+ * - Loan-style solvers take positive amounts: a `presentValue` borrowed is
+ *   paid down by positive payments to a remaining `futureValue` (balloon,
+ *   default 0), rather than the spreadsheet sign convention
+ */
+
+export type AnnuityTiming = "ordinary" | "due";
+
+export interface AmortizationPeriod {
+  /** Period number (1-indexed) */
+  period: number;
+  /** Payment made in this period */
+  payment: number;
+  /** Interest portion of the payment */
+  interest: number;
+  /** Principal portion of the payment (payment - interest) */
+  principal: number;
+  /** Balance remaining right after the payment (start of period if due) */
+  balance: number;
+}
+
+function assertValidRate(rate: number): void {
+  if (!(rate > -1)) {
+    throw new Error("Invalid: rate must be > -1");
+  }
+}
+
+function timingFactor(rate: number, timing: AnnuityTiming): number {
+  return timing === "due" ? 1 + rate : 1;
+}
+
+/**
+ * Present value of an ordinary annuity paying 1, growing at `growth`.
+ *
+ * Formula: (1 - ((1 + g) / (1 + r))^n) / (r - g), or n / (1 + r) when r = g
+ */
+function annuityFactor(rate: number, periods: number, growth: number): number {
+  if (rate === growth) {
+    return periods / (1 + rate);
+  }
+  // (1 + g) / (1 + r) = 1 + (g - r) / (1 + r); expm1/log1p of the small
+  // difference keep precision when r is close to g
+  return -Math.expm1(periods * Math.log1p((growth - rate) / (1 + rate))) / (rate - growth);
+}
+
+/**
+ * Calculate the present value of a level or growing annuity.
+ *
+ * Formula: PV = PMT * (1 - ((1 + g) / (1 + r))^n) / (r - g), times (1 + r) if due
+ *
+ * @param params - Object containing payment, rate, periods, and optional
+ *                 growth (default: 0) and timing (default: "ordinary")
+ * @returns Present value
+ * @throws Error if rate <= -1, growth <= -1 or periods <= 0
+ */
+export function annuityPresentValue(params: {
+  payment: number;
+  rate: number;
+  periods: number;
+  growth?: number;
+  timing?: AnnuityTiming;
+}): number {
+  const { payment, rate, periods, growth = 0, timing = "ordinary" } = params;
+  assertValidRate(rate);
+  if (!(growth > -1)) {
+    throw new Error("Invalid: growth must be > -1");
+  }
+  if (!(periods > 0)) {
+    throw new Error("Invalid: periods must be > 0");
+  }
+  return payment * annuityFactor(rate, periods, growth) * timingFactor(rate, timing);
+}
+
+/**
+ * Calculate the future value of a level or growing annuity.
+ *
+ * Formula: FV = PV * (1 + r)^n
+ *
+ * @param params - Object containing payment, rate, periods, and optional
+ *                 growth (default: 0) and timing (default: "ordinary")
+ * @returns Future value at the end of the final period
+ * @throws Error if rate <= -1, growth <= -1 or periods <= 0
+ */
+export function annuityFutureValue(params: {
+  payment: number;
+  rate: number;
+  periods: number;
+  growth?: number;
+  timing?: AnnuityTiming;
+}): number {
+  return annuityPresentValue(params) * Math.pow(1 + params.rate, params.periods);
+}
+
+/**
+ * Calculate the present value of a level or growing perpetuity.
+ *
+ * Formula: PV = PMT / (r - g), times (1 + r) if due
+ *
+ * @param params - Object containing payment, rate, and optional growth
+ *                 (default: 0) and timing (default: "ordinary")
+ * @returns Present value
+ * @throws Error if rate <= -1 or growth >= rate (invalid perpetuity)
+ */
+export function perpetuityPresentValue(params: {
+  payment: number;
+  rate: number;
+  growth?: number;
+  timing?: AnnuityTiming;
+}): number {
+  const { payment, rate, growth = 0, timing = "ordinary" } = params;
+  assertValidRate(rate);
+  if (growth >= rate) {
+    throw new Error("Invalid: growth must be < rate for valid perpetuity");
+  }
+  return (payment / (rate - growth)) * timingFactor(rate, timing);
+}
+
+/**
+ * Calculate the level payment that pays a present value down to a future value.
+ *
+ * Formula: PMT = (PV - FV / (1 + r)^n) / (a(r, n) * [1 + r if due]),
+ * a(r, n) = (1 - (1 + r)^-n) / r
+ *
+ * @param params - Object containing rate, periods, presentValue, and optional
+ *                 futureValue (default: 0) and timing (default: "ordinary")
+ * @returns Payment per period
+ * @throws Error if rate <= -1 or periods <= 0
+ */
+export function pmt(params: {
+  rate: number;
+  periods: number;
+  presentValue: number;
+  futureValue?: number;
+  timing?: AnnuityTiming;
+}): number {
+  const { rate, periods, presentValue, futureValue = 0, timing = "ordinary" } = params;
+  assertValidRate(rate);
+  if (!(periods > 0)) {
+    throw new Error("Invalid: periods must be > 0");
+  }
+  const target = presentValue - futureValue / Math.pow(1 + rate, periods);
+  return target / (annuityFactor(rate, periods, 0) * timingFactor(rate, timing));
+}
+
+/**
+ * Calculate the number of periods a level payment takes to pay a present
+ * value down to a future value.
+ *
+ * Formula: n = ln((PMT' - r * FV) / (PMT' - r * PV)) / ln(1 + r),
+ * PMT' = PMT * [1 + r if due]; n = (PV - FV) / PMT when r = 0
+ *
+ * @param params - Object containing rate, payment, presentValue, and optional
+ *                 futureValue (default: 0) and timing (default: "ordinary")
+ * @returns Number of periods (fractional), or null if the payment never
+ *          reaches the future value (e.g. it does not cover the interest)
+ * @throws Error if rate <= -1
+ */
+export function nper(params: {
+  rate: number;
+  payment: number;
+  presentValue: number;
+  futureValue?: number;
+  timing?: AnnuityTiming;
+}): number | null {
+  const { rate, payment, presentValue, futureValue = 0, timing = "ordinary" } = params;
+  assertValidRate(rate);
+
+  if (presentValue === futureValue) return 0;
+  if (rate === 0) {
+    const n = (presentValue - futureValue) / payment;
+    return n > 0 && Number.isFinite(n) ? n : null;
+  }
+
+  const effectivePayment = payment * timingFactor(rate, timing);
+  const ratio = (effectivePayment - rate * futureValue) / (effectivePayment - rate * presentValue);
+  const n = Math.log(ratio) / Math.log1p(rate);
+  return n > 0 && Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Solve for the per-period rate at which level payments pay a present value
+ * down to a future value.
+ *
+ * Uses binary search; with positive payments and futureValue >= 0 the
+ * remaining balance is monotonic in the rate, so the root is unique.
+ *
+ * @param params - Object containing presentValue, payment, periods, and
+ *                 optional futureValue (default: 0), timing (default:
+ *                 "ordinary"), and search parameters
+ * @returns Rate per period, or null if no solution lies in [minRate, maxRate]
+ *          or the balance cannot be evaluated at its ends
+ * @throws Error if periods <= 0 or the search range is invalid
+ */
+export function annuityRate(params: {
+  presentValue: number;
+  payment: number;
+  periods: number;
+  futureValue?: number;
+  timing?: AnnuityTiming;
+  minRate?: number;
+  maxRate?: number;
+  tolerance?: number;
+  maxIterations?: number;
+}): number | null {
+  const {
+    presentValue,
+    payment,
+    periods,
+    futureValue = 0,
+    timing = "ordinary",
+    minRate = -0.99,
+    maxRate = 10,
+    tolerance = 1e-10,
+    maxIterations = 200
+  } = params;
+  if (!(periods > 0)) {
+    throw new Error("Invalid: periods must be > 0");
+  }
+  if (!(minRate > -1) || !(maxRate > minRate)) {
+    throw new Error("Invalid: search range must satisfy -1 < minRate < maxRate");
+  }
+
+  // Present value left unpaid at rate r (skipping a zero balloon or payment
+  // avoids 0 / 0 and 0 * Infinity when (1 + r)^n underflows near the bottom
+  // of the range)
+  function shortfall(rate: number): number {
+    const balloon = futureValue === 0 ? 0 : futureValue / Math.pow(1 + rate, periods);
+    const paid = payment === 0 ? 0 : payment * annuityFactor(rate, periods, 0) * timingFactor(rate, timing);
+    return presentValue - paid - balloon;
+  }
+
+  let low = minRate;
+  let high = maxRate;
+  const fLow = shortfall(low);
+  const fHigh = shortfall(high);
+  if (Number.isNaN(fLow) || Number.isNaN(fHigh)) {
+    return null;
+  }
+  if (fLow === 0) return low;
+  if (fHigh === 0) return high;
+  if (Math.sign(fLow) === Math.sign(fHigh)) {
+    return null;
+  }
+
+  for (let i = 0; i < maxIterations && high - low > tolerance; i++) {
+    const mid = (low + high) / 2;
+    const fMid = shortfall(mid);
+    if (fMid === 0) return mid;
+    if (Math.sign(fMid) === Math.sign(fLow)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+}
+
+/**
+ * Build an amortization schedule splitting each payment into interest and
+ * principal.
+ *
+ * Ordinary timing accrues a period's interest on the balance before its
+ * payment. Due timing pays at the start of each period, so the first payment
+ * is all principal and each later payment carries the interest accrued since
+ * the previous one. Balances are taken right after each payment, so under due
+ * timing the last row is one period before the end of the term: with a
+ * balloon it holds FV / (1 + r), which accrues to FV by the end of the term.
+ *
+ * @param params - Object containing principal, rate, periods, and optional
+ *                 payment (default: the `pmt` that reaches futureValue),
+ *                 futureValue (default: 0) and timing (default: "ordinary")
+ * @returns One entry per period
+ * @throws Error if rate <= -1 or periods is not a positive integer
+ */
+export function amortizationSchedule(params: {
+  principal: number;
+  rate: number;
+  periods: number;
+  payment?: number;
+  futureValue?: number;
+  timing?: AnnuityTiming;
+}): AmortizationPeriod[] {
+  const { principal, rate, periods, futureValue = 0, timing = "ordinary" } = params;
+  assertValidRate(rate);
+  if (!Number.isInteger(periods) || periods < 1) {
+    throw new Error("Invalid: periods must be a positive integer");
+  }
+  const payment = params.payment ?? pmt({ rate, periods, presentValue: principal, futureValue, timing });
+
+  const schedule: AmortizationPeriod[] = [];
+  let balance = principal;
+  for (let period = 1; period <= periods; period++) {
+    const interest = timing === "due" && period === 1 ? 0 : balance * rate;
+    const principalPaid = payment - interest;
+    balance -= principalPaid;
+    schedule.push({ period, payment, interest, principal: principalPaid, balance });
+  }
+
+  return schedule;
+}
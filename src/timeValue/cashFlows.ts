@@ -0,0 +1,327 @@
+/**
+ * Cash Flow Discounting and Internal Rate of Return
+ *
+ * NPV and IRR over periodic cash flows, and XNPV/XIRR over dated cash flows
+ * with a day-count convention, for irregular schedules such as vesting
+ * cliffs and staking payouts.
+ *
+ * Conventions:
+ * - Periodic flows: cashFlows[t] occurs at the end of period t, so
+ *   cashFlows[0] is undiscounted (unlike spreadsheet NPV, which discounts
+ *   the first value by one period)
+ * - Dated flows: times are year fractions from the first cash flow's date
+ *   (as in spreadsheet XNPV/XIRR); dates are taken as UTC calendar days,
+ *   time of day is ignored
+ *
+ * IRR roots are located by scanning NPV for sign changes over a grid that is
+ * even in ln(1 + r), then refined by bisection, so every IRR in the search
+ * range is reported rather than whichever one a Newton step lands on. By
+ * Descartes' rule of signs a series with one sign change has exactly one
+ * IRR; more sign changes allow several. Roots where NPV touches zero without
+ * changing sign are not detected.
+ */
+
+export type DayCountConvention = "ACT/365F" | "ACT/360" | "30/360" | "ACT/ACT";
+
+export interface DatedCashFlow {
+  date: Date;
+  amount: number;
+}
+
+export interface IrrResult {
+  /** Root closest to the guess, or null if NPV has no root in the search range */
+  rate: number | null;
+  /** Every root found in the search range, ascending */
+  roots: number[];
+  /** Whether more than one root was found */
+  multipleRoots: boolean;
+  /** Sign changes in the cash flow series (an upper bound on the number of IRRs) */
+  signChanges: number;
+}
+
+export interface IrrSearchOptions {
+  /** Rate the reported root should be closest to (default: 0.1) */
+  guess?: number;
+  /** Lower end of the search range, > -1 (default: -0.99) */
+  minRate?: number;
+  /** Upper end of the search range (default: 10) */
+  maxRate?: number;
+  /** Bisection tolerance on the rate (default: 1e-10) */
+  tolerance?: number;
+  /** Maximum bisection iterations per root (default: 100) */
+  maxIterations?: number;
+}
+
+const MS_PER_DAY = 86_400_000;
+const IRR_SCAN_STEPS = 1000;
+
+/**
+ * Days since the epoch of a date's UTC calendar day.
+ */
+function dayNumber(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) / MS_PER_DAY;
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function assertValidDate(date: Date): void {
+  if (!(date instanceof Date) || Number.isNaN(date.getTime())) {
+    throw new Error("Invalid: cash flow dates must be valid dates");
+  }
+}
+
+/**
+ * Calculate the year fraction between two dates under a day-count convention.
+ *
+ * - ACT/365F: actual days / 365
+ * - ACT/360: actual days / 360
+ * - 30/360: US bond basis (day 31 becomes 30; an end day of 31 becomes 30
+ *   when the start day is 30 or 31)
+ * - ACT/ACT: ISDA, actual days in each calendar year / that year's length
+ *
+ * @param start - Start date
+ * @param end - End date (negative fraction if before start)
+ * @param convention - Day-count convention (default: "ACT/365F")
+ * @returns Year fraction
+ * @throws Error if either date is invalid
+ */
+export function yearFraction(
+  start: Date,
+  end: Date,
+  convention: DayCountConvention = "ACT/365F"
+): number {
+  assertValidDate(start);
+  assertValidDate(end);
+  if (end < start) {
+    return -yearFraction(end, start, convention);
+  }
+
+  switch (convention) {
+    case "ACT/365F":
+      return (dayNumber(end) - dayNumber(start)) / 365;
+    case "ACT/360":
+      return (dayNumber(end) - dayNumber(start)) / 360;
+    case "30/360": {
+      let d1 = start.getUTCDate();
+      let d2 = end.getUTCDate();
+      if (d1 === 31) d1 = 30;
+      if (d2 === 31 && d1 === 30) d2 = 30;
+      return (
+        360 * (end.getUTCFullYear() - start.getUTCFullYear()) +
+        30 * (end.getUTCMonth() - start.getUTCMonth()) +
+        (d2 - d1)
+      ) / 360;
+    }
+    case "ACT/ACT": {
+      const y1 = start.getUTCFullYear();
+      const y2 = end.getUTCFullYear();
+      if (y1 === y2) {
+        return (dayNumber(end) - dayNumber(start)) / (isLeapYear(y1) ? 366 : 365);
+      }
+      const startYearEnd = Date.UTC(y1 + 1, 0, 1) / MS_PER_DAY;
+      const endYearStart = Date.UTC(y2, 0, 1) / MS_PER_DAY;
+      return (
+        (startYearEnd - dayNumber(start)) / (isLeapYear(y1) ? 366 : 365) +
+        (y2 - y1 - 1) +
+        (dayNumber(end) - endYearStart) / (isLeapYear(y2) ? 366 : 365)
+      );
+    }
+    default:
+      throw new Error(`Invalid: unknown day-count convention ${String(convention)}`);
+  }
+}
+
+/**
+ * Discount cash flows at given times (in periods) to t = 0.
+ */
+function discountedSum(rate: number, amounts: number[], times: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < amounts.length; i++) {
+    sum += amounts[i] / Math.pow(1 + rate, times[i]);
+  }
+  return sum;
+}
+
+function assertValidRate(rate: number): void {
+  if (!(rate > -1)) {
+    throw new Error("Invalid: rate must be > -1");
+  }
+}
+
+function assertFiniteAmounts(amounts: number[]): void {
+  if (!amounts.every(Number.isFinite)) {
+    throw new Error("Invalid: cash flows must be finite");
+  }
+}
+
+/**
+ * Year fractions of dated cash flows from the first flow's date.
+ */
+function datedTimes(cashFlows: DatedCashFlow[], dayCount: DayCountConvention): number[] {
+  if (cashFlows.length === 0) return [];
+  const origin = cashFlows[0].date;
+  return cashFlows.map(cf => {
+    const t = yearFraction(origin, cf.date, dayCount);
+    if (t < 0) {
+      throw new Error("Invalid: cash flow dates must not precede the first cash flow");
+    }
+    return t;
+  });
+}
+
+function countSignChanges(amounts: number[]): number {
+  let changes = 0;
+  let previous = 0;
+  for (const amount of amounts) {
+    if (amount === 0) continue;
+    if (previous !== 0 && Math.sign(amount) !== previous) changes++;
+    previous = Math.sign(amount);
+  }
+  return changes;
+}
+
+/**
+ * Find every IRR of the flows in the search range.
+ */
+function solveIrr(amounts: number[], times: number[], options: IrrSearchOptions): IrrResult {
+  const {
+    guess = 0.1,
+    minRate = -0.99,
+    maxRate = 10,
+    tolerance = 1e-10,
+    maxIterations = 100
+  } = options;
+  assertFiniteAmounts(amounts);
+  if (!(minRate > -1) || !(maxRate > minRate)) {
+    throw new Error("Invalid: search range must satisfy -1 < minRate < maxRate");
+  }
+
+  const f = (rate: number) => discountedSum(rate, amounts, times);
+  const order = times.map((_, i) => i).sort((a, b) => times[a] - times[b]);
+  const signChanges = countSignChanges(order.map(i => amounts[i]));
+  const roots: number[] = [];
+
+  if (signChanges > 0) {
+    const lnLow = Math.log1p(minRate);
+    const step = (Math.log1p(maxRate) - lnLow) / IRR_SCAN_STEPS;
+    let r0 = minRate;
+    let f0 = f(r0);
+    if (f0 === 0) roots.push(r0);
+    for (let k = 1; k <= IRR_SCAN_STEPS; k++) {
+      const r1 = k === IRR_SCAN_STEPS ? maxRate : Math.expm1(lnLow + k * step);
+      const f1 = f(r1);
+      if (f1 === 0) {
+        roots.push(r1);
+      } else if (f0 !== 0 && Number.isFinite(f0) && Number.isFinite(f1) && Math.sign(f0) !== Math.sign(f1)) {
+        // Bisect the bracket
+        let low = r0;
+        let high = r1;
+        let fLow = f0;
+        for (let i = 0; i < maxIterations && high - low > tolerance; i++) {
+          const mid = (low + high) / 2;
+          const fMid = f(mid);
+          if (fMid === 0) {
+            low = high = mid;
+            break;
+          }
+          if (Math.sign(fMid) === Math.sign(fLow)) {
+            low = mid;
+            fLow = fMid;
+          } else {
+            high = mid;
+          }
+        }
+        roots.push((low + high) / 2);
+      }
+      r0 = r1;
+      f0 = f1;
+    }
+  }
+
+  const rate = roots.length === 0
+    ? null
+    : roots.reduce((best, r) => (Math.abs(r - guess) < Math.abs(best - guess) ? r : best));
+
+  return { rate, roots, multipleRoots: roots.length > 1, signChanges };
+}
+
+/**
+ * Calculate net present value of periodic cash flows.
+ *
+ * Formula: NPV = Σ CF_t / (1 + r)^t, t = 0, 1, 2, ...
+ *
+ * @param params - Object containing rate and cashFlows (cashFlows[0] at t = 0)
+ * @returns Net present value
+ * @throws Error if rate <= -1 or a cash flow is not finite
+ */
+export function npv(params: {
+  rate: number;
+  cashFlows: number[];
+}): number {
+  const { rate, cashFlows } = params;
+  assertValidRate(rate);
+  assertFiniteAmounts(cashFlows);
+  return discountedSum(rate, cashFlows, cashFlows.map((_, t) => t));
+}
+
+/**
+ * Find the internal rate of return of periodic cash flows.
+ *
+ * Solves NPV(r) = 0 with cashFlows[0] at t = 0. All roots in
+ * [minRate, maxRate] are returned; `rate` is the one closest to the guess.
+ *
+ * @param params - Object containing cashFlows and optional search parameters
+ * @returns IRR result with every root found and a multiple-root flag
+ * @throws Error if a cash flow is not finite or the search range is invalid
+ */
+export function irr(params: IrrSearchOptions & {
+  cashFlows: number[];
+}): IrrResult {
+  const { cashFlows, ...options } = params;
+  return solveIrr(cashFlows, cashFlows.map((_, t) => t), options);
+}
+
+/**
+ * Calculate net present value of dated cash flows.
+ *
+ * Formula: XNPV = Σ CF_i / (1 + r)^(t_i), t_i = yearFraction(d_0, d_i)
+ *
+ * @param params - Object containing rate, cashFlows, and optional dayCount (default: "ACT/365F")
+ * @returns Net present value at the first cash flow's date
+ * @throws Error if rate <= -1, a cash flow is not finite, a date is invalid,
+ *         or a date precedes the first cash flow
+ */
+export function xnpv(params: {
+  rate: number;
+  cashFlows: DatedCashFlow[];
+  dayCount?: DayCountConvention;
+}): number {
+  const { rate, cashFlows, dayCount = "ACT/365F" } = params;
+  assertValidRate(rate);
+  const amounts = cashFlows.map(cf => cf.amount);
+  assertFiniteAmounts(amounts);
+  return discountedSum(rate, amounts, datedTimes(cashFlows, dayCount));
+}
+
+/**
+ * Find the internal rate of return of dated cash flows.
+ *
+ * Solves XNPV(r) = 0 (an annual rate, compounded over year fractions).
+ * All roots in [minRate, maxRate] are returned; `rate` is the one closest
+ * to the guess.
+ *
+ * @param params - Object containing cashFlows, optional dayCount (default:
+ *                 "ACT/365F"), and optional search parameters
+ * @returns IRR result with every root found and a multiple-root flag
+ * @throws Error if a cash flow is not finite, a date is invalid or precedes
+ *         the first cash flow, or the search range is invalid
+ */
+export function xirr(params: IrrSearchOptions & {
+  cashFlows: DatedCashFlow[];
+  dayCount?: DayCountConvention;
+}): IrrResult {
+  const { cashFlows, dayCount = "ACT/365F", ...options } = params;
+  return solveIrr(cashFlows.map(cf => cf.amount), datedTimes(cashFlows, dayCount), options);
+}
@@ -0,0 +1,154 @@
+/**
+ * Compounding Frequency and Rate Conversion
+ *
+ * Converts between nominal annual rates (APR), effective annual rates
+ * (APY) and continuously compounded rates, at any compounding frequency,
+ * and discounts/compounds with an explicit frequency.
+ *
+ * A frequency is the number of compounding periods per year (12 monthly,
+ * 365 daily, blocks per year for per-block, `epochsPerYear` for per-epoch)
+ * or "continuous". A nominal rate r at frequency m compounds r / m per
+ * period:
+ *   APY = (1 + r / m)^m - 1      (m periods per year)
+ *   APY = e^r - 1                (continuous)
+ *
+ * Powers are evaluated as expm1(m * log1p(r / m)) so per-block frequencies
+ * (millions of periods per year) do not lose the rate to rounding in
+ * 1 + r / m.
+ */
+
+export type CompoundingFrequency = number | "continuous";
+
+/**
+ * Common compounding frequencies (periods per year).
+ */
+export const COMPOUNDING_FREQUENCIES = {
+  annual: 1,
+  semiannual: 2,
+  quarterly: 4,
+  monthly: 12,
+  weekly: 52,
+  daily: 365
+} as const;
+
+function assertValidFrequency(frequency: CompoundingFrequency): void {
+  if (frequency !== "continuous" && !(Number.isFinite(frequency) && frequency > 0)) {
+    throw new Error('Invalid: frequency must be a positive number or "continuous"');
+  }
+}
+
+/**
+ * Continuously compounded equivalent of a nominal rate: ln(1 + APY).
+ */
+function logGrowth(nominalRate: number, frequency: CompoundingFrequency): number {
+  assertValidFrequency(frequency);
+  if (frequency === "continuous") return nominalRate;
+  if (!(nominalRate / frequency > -1)) {
+    throw new Error("Invalid: nominalRate / frequency must be > -1");
+  }
+  return frequency * Math.log1p(nominalRate / frequency);
+}
+
+/**
+ * Nominal rate at a frequency from its continuously compounded equivalent.
+ */
+function nominalFromLogGrowth(logRate: number, frequency: CompoundingFrequency): number {
+  assertValidFrequency(frequency);
+  if (frequency === "continuous") return logRate;
+  return frequency * Math.expm1(logRate / frequency);
+}
+
+/**
+ * Convert a nominal annual rate (APR) to an effective annual rate (APY).
+ *
+ * Formula: APY = (1 + r / m)^m - 1, or e^r - 1 for continuous compounding
+ *
+ * @param params - Object containing nominalRate and frequency
+ * @returns Effective annual rate
+ * @throws Error if frequency is invalid or nominalRate / frequency <= -1
+ */
+export function effectiveAnnualRate(params: {
+  nominalRate: number;
+  frequency: CompoundingFrequency;
+}): number {
+  const { nominalRate, frequency } = params;
+  return Math.expm1(logGrowth(nominalRate, frequency));
+}
+
+/**
+ * Convert an effective annual rate (APY) to a nominal annual rate (APR).
+ *
+ * Formula: r = m * ((1 + APY)^(1/m) - 1), or ln(1 + APY) for continuous compounding
+ *
+ * @param params - Object containing effectiveRate and frequency
+ * @returns Nominal annual rate
+ * @throws Error if frequency is invalid or effectiveRate <= -1
+ */
+export function nominalAnnualRate(params: {
+  effectiveRate: number;
+  frequency: CompoundingFrequency;
+}): number {
+  const { effectiveRate, frequency } = params;
+  if (!(effectiveRate > -1)) {
+    throw new Error("Invalid: effectiveRate must be > -1");
+  }
+  return nominalFromLogGrowth(Math.log1p(effectiveRate), frequency);
+}
+
+/**
+ * Convert a nominal annual rate between compounding frequencies, keeping
+ * the effective annual rate unchanged.
+ *
+ * Formula: r_to = m_to * ((1 + r_from / m_from)^(m_from / m_to) - 1)
+ *
+ * @param params - Object containing nominalRate and its frequency (from),
+ *                 and the target frequency (to)
+ * @returns Nominal annual rate at the target frequency
+ * @throws Error if a frequency is invalid or nominalRate / from <= -1
+ */
+export function convertNominalRate(params: {
+  nominalRate: number;
+  from: CompoundingFrequency;
+  to: CompoundingFrequency;
+}): number {
+  const { nominalRate, from, to } = params;
+  return nominalFromLogGrowth(logGrowth(nominalRate, from), to);
+}
+
+/**
+ * Calculate present value with an explicit compounding frequency.
+ *
+ * Formula: PV = FV / (1 + r / m)^(m * t), or FV * e^(-r * t) for continuous compounding
+ *
+ * @param params - Object containing futureValue, nominalRate, time (years), and frequency
+ * @returns Present value
+ * @throws Error if frequency is invalid or nominalRate / frequency <= -1
+ */
+export function presentValueCompounded(params: {
+  futureValue: number;
+  nominalRate: number;
+  time: number;
+  frequency: CompoundingFrequency;
+}): number {
+  const { futureValue, nominalRate, time, frequency } = params;
+  return futureValue * Math.exp(-logGrowth(nominalRate, frequency) * time);
+}
+
+/**
+ * Calculate future value with an explicit compounding frequency.
+ *
+ * Formula: FV = PV * (1 + r / m)^(m * t), or PV * e^(r * t) for continuous compounding
+ *
+ * @param params - Object containing presentValue, nominalRate, time (years), and frequency
+ * @returns Future value
+ * @throws Error if frequency is invalid or nominalRate / frequency <= -1
+ */
+export function futureValueCompounded(params: {
+  presentValue: number;
+  nominalRate: number;
+  time: number;
+  frequency: CompoundingFrequency;
+}): number {
+  const { presentValue, nominalRate, time, frequency } = params;
+  return presentValue * Math.exp(logGrowth(nominalRate, frequency) * time);
+}
@@ -0,0 +1,12 @@
+/**
+ * Time value module barrel.
+ *
+ * Groups single-sum discounting, cash flow NPV/IRR, annuities and rate
+ * conversion into the single `timeValue` namespace exported from the package
+ * root.
+ */
+
+export * from "./timeValue.js";
+export * from "./cashFlows.js";
+export * from "./annuities.js";
+export * from "./compounding.js";
@@ -0,0 +1,223 @@
+/**
+ * AFI Vesting Schedules
+ *
+ * Unlock curves for team, investor and ecosystem allocations, in integer
+ * base units on the emissions epoch grid.
+ *
+ * Kinds (`start` is the first vesting epoch; n = epochs elapsed through
+ * epoch e, i.e. e - start + 1, clamped at 0):
+ * - cliff:  everything unlocks once n >= cliffEpochs
+ * - linear: floor(total * n / durationEpochs), nothing before `cliffEpochs`
+ *           (the amount accrued so far unlocks at the cliff)
+ * - graded: equal tranches, one per completed period of `periodEpochs`
+ *           (may be fractional, e.g. 52 / 12 for monthly on weekly epochs);
+ *           floor(total * k / periods) after k periods, nothing before
+ *           `cliffEpochs`
+ * - steps:  custom unlocks of `amount` at absolute epochs
+ *
+ * Every kind vests exactly `total` (the sum of step amounts for `steps`).
+ */
+
+import {
+  getCumulativeEmissionsUnits,
+  type IntegerEmissionsSchedule
+} from "../emissions/integerSchedule.js";
+
+export type VestingSchedule =
+  | { kind: "cliff"; total: bigint; start: number; cliffEpochs: number }
+  | { kind: "linear"; total: bigint; start: number; durationEpochs: number; cliffEpochs?: number }
+  | {
+      kind: "graded";
+      total: bigint;
+      start: number;
+      periods: number;
+      periodEpochs: number;
+      cliffEpochs?: number;
+    }
+  | { kind: "steps"; steps: VestingStep[] };
+
+export interface VestingStep {
+  /** Epoch at which the amount unlocks */
+  epoch: number;
+  /** Amount in base units */
+  amount: bigint;
+}
+
+export interface UnlockProjection {
+  /** Number of projected epochs */
+  horizon: number;
+  /** Cumulative emissions per epoch (index 0 = epoch 1) */
+  emitted: bigint[];
+  /** Cumulative vested amount across all vesting schedules */
+  vested: bigint[];
+  /** Total unlocked supply: emitted + vested */
+  unlocked: bigint[];
+}
+
+function isPositiveInteger(x: number): boolean {
+  return Number.isInteger(x) && x >= 1;
+}
+
+/**
+ * Validate a vesting schedule.
+ */
+function checkVesting(schedule: VestingSchedule): void {
+  if (schedule.kind === "steps") {
+    for (const step of schedule.steps) {
+      if (!isPositiveInteger(step.epoch)) {
+        throw new Error("Invalid: step epochs must be positive integers");
+      }
+      if (step.amount < 0n) {
+        throw new Error("Invalid: step amounts must be non-negative");
+      }
+    }
+    return;
+  }
+  if (schedule.total < 0n) {
+    throw new Error("Invalid: total must be non-negative");
+  }
+  if (!isPositiveInteger(schedule.start)) {
+    throw new Error("Invalid: start must be a positive integer");
+  }
+  const cliff = schedule.cliffEpochs ?? 0;
+  if (!Number.isInteger(cliff) || cliff < 0) {
+    throw new Error("Invalid: cliffEpochs must be a non-negative integer");
+  }
+  if (schedule.kind === "linear" && !isPositiveInteger(schedule.durationEpochs)) {
+    throw new Error("Invalid: durationEpochs must be a positive integer");
+  }
+  if (schedule.kind === "graded") {
+    if (!isPositiveInteger(schedule.periods)) {
+      throw new Error("Invalid: periods must be a positive integer");
+    }
+    if (!(Number.isFinite(schedule.periodEpochs) && schedule.periodEpochs > 0)) {
+      throw new Error("Invalid: periodEpochs must be positive and finite");
+    }
+  }
+}
+
+/**
+ * Get the total amount a schedule vests.
+ *
+ * @param schedule - Vesting schedule
+ * @returns Total in base units
+ * @throws Error if the schedule is invalid
+ */
+export function totalVesting(schedule: VestingSchedule): bigint {
+  checkVesting(schedule);
+  if (schedule.kind === "steps") {
+    return schedule.steps.reduce((acc, s) => acc + s.amount, 0n);
+  }
+  return schedule.total;
+}
+
+/**
+ * Get the first epoch by which the whole amount has vested.
+ *
+ * @param schedule - Vesting schedule
+ * @returns Epoch (0 for an empty steps schedule)
+ * @throws Error if the schedule is invalid
+ */
+export function vestingEndEpoch(schedule: VestingSchedule): number {
+  checkVesting(schedule);
+  switch (schedule.kind) {
+    case "cliff":
+      return schedule.start + Math.max(1, schedule.cliffEpochs) - 1;
+    case "linear":
+      return schedule.start + Math.max(schedule.durationEpochs, schedule.cliffEpochs ?? 0) - 1;
+    case "graded": {
+      const epochs = Math.ceil(schedule.periods * schedule.periodEpochs);
+      return schedule.start + Math.max(epochs, schedule.cliffEpochs ?? 0) - 1;
+    }
+    case "steps":
+      return schedule.steps.reduce((acc, s) => Math.max(acc, s.epoch), 0);
+  }
+}
+
+/**
+ * Get the cumulative vested amount at the end of an epoch.
+ *
+ * @param schedule - Vesting schedule
+ * @param epoch - Epoch number (1-indexed)
+ * @returns Vested amount in base units (0 before the start, total after the end)
+ * @throws Error if the schedule is invalid
+ */
+export function vestedAt(schedule: VestingSchedule, epoch: number): bigint {
+  checkVesting(schedule);
+  if (schedule.kind === "steps") {
+    return schedule.steps.reduce((acc, s) => (s.epoch <= epoch ? acc + s.amount : acc), 0n);
+  }
+
+  const elapsed = Math.max(0, Math.floor(epoch) - schedule.start + 1);
+  if (elapsed === 0) return 0n;
+  switch (schedule.kind) {
+    case "cliff":
+      return elapsed >= schedule.cliffEpochs ? schedule.total : 0n;
+    case "linear": {
+      if (elapsed < (schedule.cliffEpochs ?? 0)) return 0n;
+      const n = Math.min(elapsed, schedule.durationEpochs);
+      return (schedule.total * BigInt(n)) / BigInt(schedule.durationEpochs);
+    }
+    case "graded": {
+      if (elapsed < (schedule.cliffEpochs ?? 0)) return 0n;
+      // Period k completes at epoch ceil(k * periodEpochs) of the vesting
+      let k = Math.min(schedule.periods, Math.floor(elapsed / schedule.periodEpochs));
+      while (k < schedule.periods && Math.ceil((k + 1) * schedule.periodEpochs) <= elapsed) k++;
+      while (k > 0 && Math.ceil(k * schedule.periodEpochs) > elapsed) k--;
+      return (schedule.total * BigInt(k)) / BigInt(schedule.periods);
+    }
+  }
+}
+
+/**
+ * Get the amount that vests during an inclusive epoch range.
+ *
+ * @param schedule - Vesting schedule
+ * @param fromEpoch - First epoch (inclusive)
+ * @param toEpoch - Last epoch (inclusive), at or after `fromEpoch`
+ * @returns Amount becoming releasable in fromEpoch..toEpoch
+ * @throws Error if the schedule is invalid or toEpoch < fromEpoch
+ */
+export function releasableBetween(
+  schedule: VestingSchedule,
+  fromEpoch: number,
+  toEpoch: number
+): bigint {
+  if (toEpoch < fromEpoch) {
+    throw new Error("Invalid: range end must not precede its start");
+  }
+  return vestedAt(schedule, toEpoch) - vestedAt(schedule, fromEpoch - 1);
+}
+
+/**
+ * Project total unlocked supply: cumulative emissions plus everything vested
+ * from the given allocations.
+ *
+ * @param emissions - Pre-built integer emissions schedule
+ * @param vestings - Vesting schedules of allocations outside the emissions
+ * @param horizon - Last epoch to project (default: the later of the schedule
+ *                  end and the last vesting end)
+ * @returns Per-epoch emitted, vested and unlocked series in base units
+ * @throws Error if a vesting schedule is invalid or horizon is negative
+ */
+export function projectUnlockedSupply(
+  emissions: IntegerEmissionsSchedule,
+  vestings: VestingSchedule[],
+  horizon?: number
+): UnlockProjection {
+  const end =
+    horizon ?? Math.max(emissions.totalEpochs, ...vestings.map(v => vestingEndEpoch(v)));
+  if (!Number.isInteger(end) || end < 0) {
+    throw new Error("Invalid: horizon must be a non-negative integer");
+  }
+
+  const projection: UnlockProjection = { horizon: end, emitted: [], vested: [], unlocked: [] };
+  for (let epoch = 1; epoch <= end; epoch++) {
+    const emitted = getCumulativeEmissionsUnits(emissions, epoch);
+    const vested = vestings.reduce((acc, v) => acc + vestedAt(v, epoch), 0n);
+    projection.emitted.push(emitted);
+    projection.vested.push(vested);
+    projection.unlocked.push(emitted + vested);
+  }
+  return projection;
+}
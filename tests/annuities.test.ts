@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  annuityPresentValue,
+  annuityFutureValue,
+  perpetuityPresentValue,
+  pmt,
+  nper,
+  annuityRate,
+  amortizationSchedule
+} from '../src/timeValue/annuities';
+import { tvMultiple } from '../src/timeValue/timeValue';
+
+describe('Annuity Functions', () => {
+  describe('annuityPresentValue and annuityFutureValue', () => {
+    it('should value a level ordinary annuity', () => {
+      expect(annuityPresentValue({ payment: 100, rate: 0.05, periods: 10 })).toBeCloseTo(772.1734929185, 8);
+      expect(annuityFutureValue({ payment: 100, rate: 0.05, periods: 10 })).toBeCloseTo(1257.7892535549, 8);
+    });
+
+    it('should scale annuity-due values by (1 + r)', () => {
+      const ordinary = annuityPresentValue({ payment: 100, rate: 0.05, periods: 10 });
+      expect(annuityPresentValue({ payment: 100, rate: 0.05, periods: 10, timing: 'due' })).toBeCloseTo(ordinary * 1.05, 9);
+      expect(annuityFutureValue({ payment: 100, rate: 0.05, periods: 10, timing: 'due' })).toBeCloseTo(
+        1257.7892535549 * 1.05,
+        8
+      );
+    });
+
+    it('should match the discounted sum of growing payments', () => {
+      let sum = 0;
+      for (let k = 1; k <= 20; k++) {
+        sum += (100 * Math.pow(1.03, k - 1)) / Math.pow(1.08, k);
+      }
+      expect(annuityPresentValue({ payment: 100, rate: 0.08, periods: 20, growth: 0.03 })).toBeCloseTo(sum, 9);
+    });
+
+    it('should be continuous at growth = rate and at a zero rate', () => {
+      expect(annuityPresentValue({ payment: 100, rate: 0.05, periods: 10, growth: 0.05 })).toBeCloseTo(1000 / 1.05, 9);
+      expect(annuityPresentValue({ payment: 100, rate: 0.05, periods: 10, growth: 0.05 + 1e-12 })).toBeCloseTo(
+        1000 / 1.05,
+        6
+      );
+      expect(annuityPresentValue({ payment: 100, rate: 0, periods: 10 })).toBe(1000);
+      expect(annuityFutureValue({ payment: 100, rate: 0, periods: 10 })).toBe(1000);
+    });
+
+    it('should reject rate or growth <= -1', () => {
+      expect(() => annuityPresentValue({ payment: 100, rate: -1, periods: 10 })).toThrow('Invalid: rate must be > -1');
+      expect(() => annuityPresentValue({ payment: 100, rate: 0.05, periods: 10, growth: -1 })).toThrow(
+        'Invalid: growth must be > -1'
+      );
+    });
+
+    it('should reject periods <= 0', () => {
+      expect(() => annuityPresentValue({ payment: 100, rate: 0.05, periods: 0 })).toThrow('Invalid: periods must be > 0');
+      expect(() => annuityFutureValue({ payment: 100, rate: 0.05, periods: -1 })).toThrow('Invalid: periods must be > 0');
+      expect(() => annuityPresentValue({ payment: 100, rate: 0.05, periods: NaN })).toThrow('Invalid: periods must be > 0');
+    });
+  });
+
+  describe('perpetuityPresentValue', () => {
+    it('should value level, growing and due perpetuities', () => {
+      expect(perpetuityPresentValue({ payment: 100, rate: 0.05 })).toBeCloseTo(2000, 9);
+      expect(perpetuityPresentValue({ payment: 100, rate: 0.05, timing: 'due' })).toBeCloseTo(2100, 9);
+      expect(perpetuityPresentValue({ payment: 1, rate: 0.10, growth: 0.03 })).toBeCloseTo(tvMultiple(0.10, 0.03), 12);
+    });
+
+    it('should throw when growth >= rate', () => {
+      expect(() => perpetuityPresentValue({ payment: 100, rate: 0.05, growth: 0.05 })).toThrow(
+        'Invalid: growth must be < rate for valid perpetuity'
+      );
+    });
+
+    it('should reject rate <= -1', () => {
+      expect(() => perpetuityPresentValue({ payment: 100, rate: -2, growth: -3 })).toThrow('Invalid: rate must be > -1');
+    });
+  });
+
+  describe('pmt, nper and annuityRate', () => {
+    const loan = { presentValue: 200000, rate: 0.06 / 12, periods: 360 };
+
+    it('should compute the level payment of a loan', () => {
+      expect(pmt(loan)).toBeCloseTo(1199.1010503055, 8);
+      expect(pmt({ ...loan, rate: 0 })).toBeCloseTo(200000 / 360, 9);
+      expect(() => pmt({ ...loan, periods: 0 })).toThrow('Invalid: periods must be > 0');
+    });
+
+    it('should round-trip pmt through nper and annuityRate', () => {
+      for (const timing of ['ordinary', 'due'] as const) {
+        const payment = pmt({ ...loan, futureValue: 50000, timing });
+        expect(nper({ rate: loan.rate, payment, presentValue: 200000, futureValue: 50000, timing })).toBeCloseTo(360, 8);
+        expect(annuityRate({ presentValue: 200000, payment, periods: 360, futureValue: 50000, timing })).toBeCloseTo(
+          loan.rate,
+          9
+        );
+      }
+    });
+
+    it('should handle zero and negative rates', () => {
+      expect(nper({ rate: 0, payment: 100, presentValue: 1000 })).toBe(10);
+      expect(annuityRate({ presentValue: 1000, payment: 100, periods: 10 })).toBeCloseTo(0, 9);
+      const rate = annuityRate({ presentValue: 1000, payment: 90, periods: 10 });
+      expect(rate).toBeLessThan(0);
+      expect(annuityPresentValue({ payment: 90, rate: rate!, periods: 10 })).toBeCloseTo(1000, 6);
+    });
+
+    it('should solve a pure compounding rate with a zero payment', () => {
+      // 1000 grows to 2000 over 500 periods with no payments: (1 + r)^500 = 2
+      expect(annuityRate({ presentValue: 1000, payment: 0, periods: 500, futureValue: 2000 })).toBeCloseTo(
+        Math.pow(2, 1 / 500) - 1,
+        9
+      );
+      // Negative payments and a balloon give Infinity - Infinity at minRate
+      expect(annuityRate({ presentValue: 1000, payment: -100, periods: 500, futureValue: 1000 })).toBeNull();
+    });
+
+    it('should return null when the payment never pays the balance down', () => {
+      expect(nper({ rate: loan.rate, payment: 900, presentValue: 200000 })).toBeNull();
+      expect(nper({ rate: loan.rate, payment: 1000, presentValue: 200000 })).toBeNull();
+      expect(annuityRate({ presentValue: 1000, payment: 100, periods: 10, maxRate: 0.5, minRate: 0.01 })).toBeNull();
+    });
+  });
+
+  describe('amortizationSchedule', () => {
+    it('should split ordinary payments into interest and principal', () => {
+      const schedule = amortizationSchedule({ principal: 200000, rate: 0.005, periods: 360 });
+      expect(schedule).toHaveLength(360);
+      expect(schedule[0].interest).toBeCloseTo(1000, 9);
+      expect(schedule[0].principal).toBeCloseTo(199.1010503055, 8);
+      expect(schedule[359].balance).toBeCloseTo(0, 6);
+      const principalPaid = schedule.reduce((sum, row) => sum + row.principal, 0);
+      expect(principalPaid).toBeCloseTo(200000, 6);
+      schedule.forEach(row => expect(row.interest + row.principal).toBeCloseTo(row.payment, 9));
+    });
+
+    it('should make the first annuity-due payment all principal', () => {
+      const schedule = amortizationSchedule({ principal: 10000, rate: 0.01, periods: 12, timing: 'due' });
+      expect(schedule[0].interest).toBe(0);
+      expect(schedule[1].interest).toBeCloseTo(schedule[0].balance * 0.01, 12);
+      expect(schedule[11].balance).toBeCloseTo(0, 9);
+    });
+
+    it('should leave a due balloon one period of interest short of the future value', () => {
+      const schedule = amortizationSchedule({ principal: 10000, rate: 0.01, periods: 12, futureValue: 4000, timing: 'due' });
+      expect(schedule[11].balance).toBeCloseTo(4000 / 1.01, 8);
+      expect(schedule[11].balance * 1.01).toBeCloseTo(4000, 8);
+    });
+
+    it('should leave a balloon balance and honor an explicit payment', () => {
+      const balloon = amortizationSchedule({ principal: 10000, rate: 0.01, periods: 12, futureValue: 4000 });
+      expect(balloon[11].balance).toBeCloseTo(4000, 8);
+      const interestOnly = amortizationSchedule({ principal: 10000, rate: 0.01, periods: 3, payment: 100 });
+      interestOnly.forEach(row => {
+        expect(row.principal).toBeCloseTo(0, 12);
+        expect(row.balance).toBeCloseTo(10000, 9);
+      });
+      expect(() => amortizationSchedule({ principal: 10000, rate: 0.01, periods: 1.5 })).toThrow(
+        'Invalid: periods must be a positive integer'
+      );
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  yearFraction,
+  npv,
+  irr,
+  xnpv,
+  xirr
+} from '../src/timeValue/cashFlows';
+
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe('Cash Flow Functions', () => {
+  describe('yearFraction', () => {
+    it('should count actual days for ACT/365F and ACT/360', () => {
+      expect(yearFraction(d('2024-01-01'), d('2025-01-01'))).toBe(366 / 365);
+      expect(yearFraction(d('2024-01-01'), d('2024-07-01'), 'ACT/360')).toBe(182 / 360);
+    });
+
+    it('should apply the 30/360 bond basis day adjustments', () => {
+      expect(yearFraction(d('2024-01-31'), d('2024-03-31'), '30/360')).toBe(60 / 360);
+      expect(yearFraction(d('2024-01-15'), d('2024-03-31'), '30/360')).toBe(76 / 360);
+      expect(yearFraction(d('2023-02-28'), d('2024-02-28'), '30/360')).toBe(1);
+    });
+
+    it('should split ACT/ACT across calendar years', () => {
+      expect(yearFraction(d('2023-07-01'), d('2024-07-01'), 'ACT/ACT')).toBeCloseTo(184 / 365 + 182 / 366, 14);
+      expect(yearFraction(d('2020-01-01'), d('2023-01-01'), 'ACT/ACT')).toBeCloseTo(3, 14);
+    });
+
+    it('should ignore time of day and be antisymmetric', () => {
+      const start = new Date('2024-01-01T23:59:00Z');
+      expect(yearFraction(start, d('2024-01-02'))).toBe(1 / 365);
+      expect(yearFraction(d('2024-06-01'), d('2024-01-01'), 'ACT/ACT')).toBe(
+        -yearFraction(d('2024-01-01'), d('2024-06-01'), 'ACT/ACT')
+      );
+    });
+
+    it('should reject invalid dates', () => {
+      expect(() => yearFraction(new Date('nope'), d('2024-01-01'))).toThrow(
+        'Invalid: cash flow dates must be valid dates'
+      );
+    });
+  });
+
+  describe('npv', () => {
+    it('should leave the t = 0 flow undiscounted', () => {
+      const value = npv({ rate: 0.1, cashFlows: [-10000, 3000, 4200, 6800] });
+      // Spreadsheet NPV(10%, ...) = 1188.44 discounts every flow one more period
+      expect(value / 1.1).toBeCloseTo(1188.4434123352, 8);
+    });
+
+    it('should sum the flows at a zero rate and reject rate <= -1', () => {
+      expect(npv({ rate: 0, cashFlows: [-100, 60, 60] })).toBe(20);
+      expect(() => npv({ rate: -1, cashFlows: [-100, 110] })).toThrow('Invalid: rate must be > -1');
+      expect(() => npv({ rate: 0.1, cashFlows: [-100, NaN] })).toThrow('Invalid: cash flows must be finite');
+    });
+  });
+
+  describe('irr', () => {
+    it('should find the unique IRR of a conventional project', () => {
+      const cashFlows = [-70000, 12000, 15000, 18000, 21000, 26000];
+      const result = irr({ cashFlows });
+      expect(result.rate).toBeCloseTo(0.086630948, 8);
+      expect(result.roots).toHaveLength(1);
+      expect(result.multipleRoots).toBe(false);
+      expect(result.signChanges).toBe(1);
+      expect(npv({ rate: result.rate!, cashFlows })).toBeCloseTo(0, 5);
+    });
+
+    it('should detect multiple IRRs', () => {
+      const result = irr({ cashFlows: [-100, 230, -132] });
+      expect(result.multipleRoots).toBe(true);
+      expect(result.signChanges).toBe(2);
+      expect(result.roots[0]).toBeCloseTo(0.1, 9);
+      expect(result.roots[1]).toBeCloseTo(0.2, 9);
+      expect(result.rate).toBeCloseTo(0.1, 9);
+      expect(irr({ cashFlows: [-100, 230, -132], guess: 0.25 }).rate).toBeCloseTo(0.2, 9);
+    });
+
+    it('should return null when NPV never crosses zero', () => {
+      expect(irr({ cashFlows: [100, 50] })).toEqual({
+        rate: null,
+        roots: [],
+        multipleRoots: false,
+        signChanges: 0
+      });
+      expect(irr({ cashFlows: [-100, 230, -133] }).rate).toBeNull();
+    });
+
+    it('should find negative IRRs and validate the search range', () => {
+      // 30v^2 + 50v - 100 = 0 with v = 1 / (1 + r)
+      const v = (-50 + Math.sqrt(50 * 50 + 4 * 30 * 100)) / 60;
+      expect(irr({ cashFlows: [-100, 50, 30] }).rate).toBeCloseTo(1 / v - 1, 9);
+      expect(() => irr({ cashFlows: [-100, 110], minRate: -1 })).toThrow(
+        'Invalid: search range must satisfy -1 < minRate < maxRate'
+      );
+    });
+  });
+
+  describe('xnpv and xirr', () => {
+    const cashFlows = [
+      { date: d('2008-01-01'), amount: -10000 },
+      { date: d('2008-03-01'), amount: 2750 },
+      { date: d('2008-10-30'), amount: 4250 },
+      { date: d('2009-02-15'), amount: 3250 },
+      { date: d('2009-04-01'), amount: 2750 }
+    ];
+
+    it('should match spreadsheet XNPV and XIRR', () => {
+      expect(xnpv({ rate: 0.09, cashFlows })).toBeCloseTo(2086.6476020315, 6);
+      const result = xirr({ cashFlows });
+      expect(result.rate).toBeCloseTo(0.373362535, 8);
+      expect(result.multipleRoots).toBe(false);
+    });
+
+    it('should reduce to npv for annual flows under 30/360', () => {
+      const annual = [-1000, 300, 400, 500].map((amount, i) => ({
+        date: d(`${2020 + i}-06-15`),
+        amount
+      }));
+      expect(xnpv({ rate: 0.08, cashFlows: annual, dayCount: '30/360' })).toBeCloseTo(
+        npv({ rate: 0.08, cashFlows: [-1000, 300, 400, 500] }),
+        10
+      );
+      expect(xirr({ cashFlows: annual, dayCount: '30/360' }).rate).toBeCloseTo(
+        irr({ cashFlows: [-1000, 300, 400, 500] }).rate!,
+        9
+      );
+    });
+
+    it('should handle a vesting cliff followed by staking payouts', () => {
+      const flows = [
+        { date: d('2024-01-01'), amount: -1000 },
+        { date: d('2025-01-01'), amount: 0 },
+        ...[1, 4, 7, 10].map(month => ({ date: new Date(Date.UTC(2025, month, 1)), amount: 280 }))
+      ];
+      const result = xirr({ cashFlows: flows, dayCount: 'ACT/ACT' });
+      expect(result.roots).toHaveLength(1);
+      expect(xnpv({ rate: result.rate!, cashFlows: flows, dayCount: 'ACT/ACT' })).toBeCloseTo(0, 6);
+    });
+
+    it('should reject flows dated before the first cash flow', () => {
+      expect(() =>
+        xnpv({ rate: 0.1, cashFlows: [{ date: d('2024-06-01'), amount: -100 }, { date: d('2024-01-01'), amount: 110 }] })
+      ).toThrow('Invalid: cash flow dates must not precede the first cash flow');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildEmissionsSchedule,
+  buildPhasedEmissionsSchedule,
+  getCumulativeEmissions,
+  getEpochEmission,
+  resolveEmissionsParams,
+  toPhasedEmissionsParams,
+  type DeepPartial,
+  type EmissionsParams
+} from '../src/emissions/emissionsSchedule';
+import {
+  CLOSED_FORM_EMISSIONS_TOLERANCE,
+  buildClosedFormEmissionsSchedule,
+  getClosedFormCumulativeEmissions,
+  getClosedFormEpochEmission
+} from '../src/emissions/closedForm';
+
+/**
+ * Max relative errors of the closed form against the array-based schedule
+ * (per-epoch errors skip the epochs in `skip`).
+ */
+function maxErrors(
+  params: DeepPartial<EmissionsParams>,
+  deterministic = false,
+  skip: number[] = []
+): { epoch: number; cumulative: number } {
+  const arrays = buildEmissionsSchedule(params, { deterministic });
+  const closed = buildClosedFormEmissionsSchedule(params, { deterministic });
+  expect(closed.totalEpochs).toBe(arrays.totalEpochs);
+  const cap = Number(arrays.params.cap);
+  let epoch = 0;
+  let cumulative = 0;
+  for (let e = 1; e <= arrays.totalEpochs; e++) {
+    const expected = getEpochEmission(arrays, e);
+    if (!skip.includes(e)) epoch = Math.max(epoch, Math.abs(getClosedFormEpochEmission(closed, e) - expected) / expected);
+    const cum = getClosedFormCumulativeEmissions(closed, e) - getCumulativeEmissions(arrays, e);
+    cumulative = Math.max(cumulative, Math.abs(cum) / cap);
+  }
+  return { epoch, cumulative };
+}
+
+describe('Closed-Form Emissions', () => {
+  it('should match the default array-based schedule within tolerance', () => {
+    const errors = maxErrors({});
+    expect(errors.epoch).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+    expect(errors.cumulative).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+  });
+
+  it('should match an hourly schedule within tolerance', () => {
+    const errors = maxErrors({ epochsPerYear: 8760 });
+    expect(errors.epoch).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+    expect(errors.cumulative).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+  });
+
+  it('should match an hourly schedule with a uniform phase within tolerance', () => {
+    // ~219k equal tail weights: the array builder's float sums drift the most here
+    const errors = maxErrors({ epochsPerYear: 8760, shapeTail: 0 });
+    expect(errors.epoch).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+    expect(errors.cumulative).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+  });
+
+  it('should handle back-loaded, uniform and single-epoch phases', () => {
+    for (const params of [
+      { shapeEarly: -1.5, shapeMid: 0 },
+      { earlyYears: 1 / 52, targets: { f100: 0.9 } }
+    ]) {
+      const errors = maxErrors(params);
+      expect(errors.epoch).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+      expect(errors.cumulative).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+    }
+  });
+
+  it('should match tagged exponential phases except for their unit-sum compensated last epoch', () => {
+    const params = { shapeTail: { kind: 'exponential' as const, shape: 5 } };
+    const arrays = buildEmissionsSchedule(params);
+    const errors = maxErrors(params, false, [arrays.totalEpochs]);
+    expect(errors.epoch).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+    expect(errors.cumulative).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+    const last = getEpochEmission(arrays, arrays.totalEpochs);
+    const closed = getClosedFormEpochEmission(buildClosedFormEmissionsSchedule(params), arrays.totalEpochs);
+    expect(Math.abs(closed - last) / last).toBeLessThanOrEqual(1e-6);
+  });
+
+  it('should match the deterministic schedule in deterministic mode', () => {
+    const errors = maxErrors({ shapeMid: 2.5 }, true);
+    expect(errors.epoch).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+    expect(errors.cumulative).toBeLessThan(CLOSED_FORM_EMISSIONS_TOLERANCE);
+  });
+
+  it('should evaluate per-block cadences without materializing arrays', () => {
+    const perBlock = buildClosedFormEmissionsSchedule({ epochsPerYear: 2_628_000 });
+    expect(perBlock.totalEpochs).toBe(53 * 2_628_000);
+    expect(perBlock.phases.map(p => p.endEpoch)).toEqual([4, 28, 53].map(y => y * 2_628_000));
+    expect(getClosedFormCumulativeEmissions(perBlock, 4 * 2_628_000) / 86_000_000_000).toBeCloseTo(1 / 3, 12);
+    expect(getClosedFormEpochEmission(perBlock, 1)).toBeGreaterThan(getClosedFormEpochEmission(perBlock, 2));
+  });
+
+  it('should lay out phases on the builder epoch boundaries', () => {
+    const params = { epochsPerYear: 12, earlyYears: 1.04, midYears: 0.01, tailYears: 2.96 };
+    const phased = buildPhasedEmissionsSchedule(toPhasedEmissionsParams(resolveEmissionsParams(params).params));
+    const closed = buildClosedFormEmissionsSchedule(params);
+    expect(closed.phases.map(p => [p.startEpoch, p.endEpoch])).toEqual(
+      phased.phases.map(p => [p.startEpoch, p.endEpoch])
+    );
+  });
+
+  it('should clamp outside the schedule like the array getters', () => {
+    const closed = buildClosedFormEmissionsSchedule();
+    expect(getClosedFormEpochEmission(closed, 0)).toBe(0);
+    expect(getClosedFormEpochEmission(closed, closed.totalEpochs + 1)).toBe(0);
+    expect(getClosedFormCumulativeEmissions(closed, 0)).toBe(0);
+    expect(getClosedFormCumulativeEmissions(closed, closed.totalEpochs)).toBe(86_000_000_000);
+    expect(getClosedFormCumulativeEmissions(closed, 1e9)).toBe(86_000_000_000);
+  });
+
+  it('should reject non-exponential shapes', () => {
+    expect(() => buildClosedFormEmissionsSchedule({ shapeMid: { kind: 'linear' } })).toThrow(
+      'Invalid: closed-form evaluation requires exponential phase shapes'
+    );
+  });
+});
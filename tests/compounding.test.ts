@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COMPOUNDING_FREQUENCIES,
+  effectiveAnnualRate,
+  nominalAnnualRate,
+  convertNominalRate,
+  presentValueCompounded,
+  futureValueCompounded
+} from '../src/timeValue/compounding';
+import {
+  presentValue,
+  futureValue,
+  presentValueContinuous,
+  futureValueContinuous
+} from '../src/timeValue/timeValue';
+
+describe('Compounding Functions', () => {
+  describe('effectiveAnnualRate and nominalAnnualRate', () => {
+    it('should convert APR to APY at common frequencies', () => {
+      expect(effectiveAnnualRate({ nominalRate: 0.12, frequency: COMPOUNDING_FREQUENCIES.annual })).toBeCloseTo(0.12, 15);
+      expect(effectiveAnnualRate({ nominalRate: 0.12, frequency: COMPOUNDING_FREQUENCIES.monthly })).toBeCloseTo(
+        Math.pow(1.01, 12) - 1,
+        14
+      );
+      expect(effectiveAnnualRate({ nominalRate: 0.05, frequency: COMPOUNDING_FREQUENCIES.daily })).toBeCloseTo(
+        0.0512674964674,
+        12
+      );
+      expect(effectiveAnnualRate({ nominalRate: 0.05, frequency: 'continuous' })).toBeCloseTo(Math.exp(0.05) - 1, 15);
+    });
+
+    it('should converge to continuous compounding at per-block frequencies', () => {
+      const blocksPerYear = 365 * 7200;
+      const perBlock = effectiveAnnualRate({ nominalRate: 0.05, frequency: blocksPerYear });
+      expect(perBlock).toBeLessThan(Math.exp(0.05) - 1);
+      // Gap to continuous compounding is ~ e^r * r^2 / (2m)
+      expect(Math.exp(0.05) - 1 - perBlock).toBeCloseTo((Math.exp(0.05) * 0.05 * 0.05) / (2 * blocksPerYear), 12);
+    });
+
+    it('should invert effectiveAnnualRate', () => {
+      for (const frequency of [1, 12, 52, 365, 2_628_000, 'continuous'] as const) {
+        const apy = effectiveAnnualRate({ nominalRate: 0.08, frequency });
+        expect(nominalAnnualRate({ effectiveRate: apy, frequency })).toBeCloseTo(0.08, 13);
+      }
+      expect(nominalAnnualRate({ effectiveRate: 0.1, frequency: 'continuous' })).toBeCloseTo(Math.log(1.1), 15);
+    });
+
+    it('should reject invalid frequencies and rates', () => {
+      expect(() => effectiveAnnualRate({ nominalRate: 0.05, frequency: 0 })).toThrow(
+        'Invalid: frequency must be a positive number or "continuous"'
+      );
+      expect(() => effectiveAnnualRate({ nominalRate: -12, frequency: 12 })).toThrow(
+        'Invalid: nominalRate / frequency must be > -1'
+      );
+      expect(() => nominalAnnualRate({ effectiveRate: -1, frequency: 12 })).toThrow('Invalid: effectiveRate must be > -1');
+    });
+  });
+
+  describe('convertNominalRate', () => {
+    it('should preserve the effective annual rate', () => {
+      const daily = convertNominalRate({ nominalRate: 0.06, from: 12, to: 365 });
+      expect(effectiveAnnualRate({ nominalRate: daily, frequency: 365 })).toBeCloseTo(
+        effectiveAnnualRate({ nominalRate: 0.06, frequency: 12 }),
+        14
+      );
+      expect(daily).toBeLessThan(0.06);
+    });
+
+    it('should convert to and from continuous rates', () => {
+      const continuous = convertNominalRate({ nominalRate: 0.06, from: 1, to: 'continuous' });
+      expect(continuous).toBeCloseTo(Math.log(1.06), 15);
+      expect(convertNominalRate({ nominalRate: continuous, from: 'continuous', to: 1 })).toBeCloseTo(0.06, 15);
+      expect(convertNominalRate({ nominalRate: 0.06, from: 52, to: 52 })).toBeCloseTo(0.06, 15);
+    });
+  });
+
+  describe('presentValueCompounded and futureValueCompounded', () => {
+    it('should match periodic compounding at frequency 1', () => {
+      expect(presentValueCompounded({ futureValue: 1000, nominalRate: 0.1, time: 5, frequency: 1 })).toBeCloseTo(
+        presentValue({ futureValue: 1000, rate: 0.1, periods: 5 }),
+        9
+      );
+      expect(futureValueCompounded({ presentValue: 1000, nominalRate: 0.1, time: 5, frequency: 1 })).toBeCloseTo(
+        futureValue({ presentValue: 1000, rate: 0.1, periods: 5 }),
+        9
+      );
+    });
+
+    it('should compound r / m over m * t periods', () => {
+      expect(futureValueCompounded({ presentValue: 1000, nominalRate: 0.12, time: 2, frequency: 12 })).toBeCloseTo(
+        1000 * Math.pow(1.01, 24),
+        9
+      );
+      expect(futureValueCompounded({ presentValue: 1000, nominalRate: 0.12, time: 0.5, frequency: 4 })).toBeCloseTo(
+        1000 * Math.pow(1.03, 2),
+        9
+      );
+    });
+
+    it('should match the continuous variants', () => {
+      expect(presentValueCompounded({ futureValue: 1000, nominalRate: 0.05, time: 3, frequency: 'continuous' })).toBeCloseTo(
+        presentValueContinuous({ futureValue: 1000, rate: 0.05, time: 3 }),
+        9
+      );
+      expect(futureValueCompounded({ presentValue: 1000, nominalRate: 0.05, time: 3, frequency: 'continuous' })).toBeCloseTo(
+        futureValueContinuous({ presentValue: 1000, rate: 0.05, time: 3 }),
+        9
+      );
+    });
+
+    it('should round-trip PV and FV', () => {
+      const fv = futureValueCompounded({ presentValue: 500, nominalRate: 0.07, time: 4.25, frequency: 52 });
+      expect(presentValueCompounded({ futureValue: fv, nominalRate: 0.07, time: 4.25, frequency: 52 })).toBeCloseTo(500, 9);
+    });
+  });
+});
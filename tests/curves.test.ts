@@ -270,6 +270,22 @@ describe('Curve Primitives', () => {
       expect(Object.is(smoothstep(3.7, 0, 10), smoothstep(3.7, 0, 10))).toBe(true);
       expect(Object.is(tanhNormalized(41.9, 0.08, 30), tanhNormalized(41.9, 0.08, 30))).toBe(true);
     });
+
+    it('deterministic mode should agree with native evaluation within 1e-14 relative', () => {
+      const det = { deterministic: true };
+      const pairs: Array<[number, number]> = [];
+      for (let t = -20; t <= 80; t += 5) {
+        pairs.push([logistic(t, 100, 0.12, 30, det), logistic(t, 100, 0.12, 30)]);
+        pairs.push([logisticNormalized(t, 0.12, 30, det), logisticNormalized(t, 0.12, 30)]);
+        pairs.push([tanhNormalized(t, 0.12, 30, det), tanhNormalized(t, 0.12, 30)]);
+        pairs.push([exponential(t, 2, 0.05, det), exponential(t, 2, 0.05)]);
+        pairs.push([powerLaw(Math.abs(t) + 1, 2, 1.7, det), powerLaw(Math.abs(t) + 1, 2, 1.7)]);
+      }
+      for (const [actual, expected] of pairs) {
+        expect(Math.abs(actual - expected)).toBeLessThanOrEqual(Math.abs(expected) * 1e-14);
+      }
+      expect(inverseLogistic(50, 100, 0.12, 30, det)).toBe(30);
+    });
   });
 });
 
@@ -295,6 +295,27 @@ describe('Decay Models', () => {
       expect(Object.is(c, d)).toBe(true);
     });
 
+    it('deterministic mode should agree with native evaluation within 1e-14 relative', () => {
+      for (const halfLife of halfLives) {
+        for (const elapsed of elapsedTimes) {
+          const native = exponentialDecay({ initialValue: 250, halfLife, elapsed });
+          const det = exponentialDecay({ initialValue: 250, halfLife, elapsed, deterministic: true });
+          expect(Math.abs(det - native)).toBeLessThanOrEqual(native * 1e-14);
+
+          const nativePower = powerDecay({ initialValue: 250, timeScale: halfLife, power: 1.5, elapsed });
+          const detPower = powerDecay({
+            initialValue: 250,
+            timeScale: halfLife,
+            power: 1.5,
+            elapsed,
+            deterministic: true
+          });
+          expect(Math.abs(detPower - nativePower)).toBeLessThanOrEqual(nativePower * 1e-14);
+        }
+      }
+      expect(timeWeightedScore({ baseScore: 100, halfLife: 10, age: 10, deterministic: true })).toBe(50);
+    });
+
     it('compositeDecayScore should be order-invariant up to float rounding', () => {
       const signals = [
         { score: 100, halfLife: 10, age: 0 },
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exp,
+  expm1,
+  log,
+  pow,
+  tanh,
+  transcendentals
+} from '../src/deterministic/deterministicMath';
+
+/** Exact IEEE-754 bit pattern of a float64 as a 16-digit hex string. */
+function bits(x: number): string {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, x);
+  return view.getBigUint64(0).toString(16).padStart(16, '0');
+}
+
+/** Distance between two finite float64 values in units in the last place. */
+function ulpDistance(a: number, b: number): number {
+  const view = new DataView(new ArrayBuffer(16));
+  view.setFloat64(0, a);
+  view.setFloat64(8, b);
+  return Number(view.getBigInt64(0) - view.getBigInt64(8));
+}
+
+describe('Deterministic Transcendentals', () => {
+  describe('bit-exact pins (must hold on every engine)', () => {
+    it('should pin exp', () => {
+      expect(bits(exp(0.5))).toBe('3ffa61298e1e069c');
+      expect(bits(exp(-3.7))).toBe('3f99511fc6871044');
+      expect(bits(exp(100))).toBe('48f3494a9b171bf5');
+      expect(bits(exp(-700))).toBe('00d14f2b0fb9307f');
+    });
+
+    it('should pin log', () => {
+      expect(bits(log(10))).toBe('40026bb1bbb55516');
+      expect(bits(log(0.001))).toBe('c01ba18a998fffa0');
+      expect(bits(log(1e300))).toBe('4085963447f87fb5');
+    });
+
+    it('should pin pow', () => {
+      expect(bits(pow(1.1, 10.5))).toBe('4005c341a3d40f19');
+      expect(bits(pow(2, 0.3))).toBe('3ff3b2c47bff8329');
+      expect(bits(pow(0.95, 400))).toBe('3e151bd54b265fec');
+    });
+
+    it('should pin tanh and expm1', () => {
+      expect(bits(tanh(0.3))).toBe('3fd2a4dda7d914fa');
+      expect(bits(tanh(-1.7))).toBe('bfedeedf00d3e7f5');
+      expect(bits(tanh(5))).toBe('3fefff419668df11');
+      expect(bits(expm1(1e-10))).toBe('3ddb7cdfd9dda4e3');
+      expect(bits(expm1(0.2))).toBe('3fcc56ecf2c56468');
+      expect(bits(expm1(-3))).toBe('bfee6824f33314f5');
+    });
+  });
+
+  describe('accuracy against the native implementations (grid)', () => {
+    const xs: number[] = [];
+    for (let i = -200; i <= 200; i++) {
+      xs.push(i * 0.173 + 0.011);
+    }
+
+    it('should agree with Math.exp/Math.expm1 within 1 ulp', () => {
+      for (const x of xs) {
+        expect(Math.abs(ulpDistance(exp(x), Math.exp(x)))).toBeLessThanOrEqual(1);
+        expect(Math.abs(ulpDistance(expm1(x), Math.expm1(x)))).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should agree with Math.log within 1 ulp', () => {
+      for (const x of xs.map(Math.abs).filter(x => x > 0)) {
+        expect(Math.abs(ulpDistance(log(x), Math.log(x)))).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should agree with Math.tanh within 2 ulp', () => {
+      for (const x of xs) {
+        expect(Math.abs(ulpDistance(tanh(x), Math.tanh(x)))).toBeLessThanOrEqual(2);
+      }
+    });
+
+    it('should agree with Math.pow within 2 ulp', () => {
+      for (const x of [0.01, 0.5, 0.95, 1.05, 1.1, 2, 3.7, 52, 1e6]) {
+        for (const y of [-12.5, -3, -0.5, 0.3, 1.5, 2.25, 7, 10.5, 40]) {
+          expect(Math.abs(ulpDistance(pow(x, y), Math.pow(x, y)))).toBeLessThanOrEqual(2);
+        }
+      }
+    });
+  });
+
+  describe('special values (ECMAScript semantics)', () => {
+    it('should handle exp/expm1 special values', () => {
+      expect(exp(0)).toBe(1);
+      expect(exp(1)).toBe(Math.E);
+      expect(exp(Infinity)).toBe(Infinity);
+      expect(exp(-Infinity)).toBe(0);
+      expect(exp(1000)).toBe(Infinity);
+      expect(exp(-1000)).toBe(0);
+      expect(exp(Number.NaN)).toBeNaN();
+      expect(Object.is(expm1(-0), -0)).toBe(true);
+      expect(expm1(-Infinity)).toBe(-1);
+      expect(expm1(-100)).toBe(-1);
+    });
+
+    it('should handle log special values', () => {
+      expect(log(1)).toBe(0);
+      expect(log(0)).toBe(-Infinity);
+      expect(log(-0)).toBe(-Infinity);
+      expect(log(-1)).toBeNaN();
+      expect(log(Infinity)).toBe(Infinity);
+      expect(log(Number.NaN)).toBeNaN();
+      expect(log(Number.MIN_VALUE)).toBe(Math.log(Number.MIN_VALUE));
+    });
+
+    it('should handle pow special values like Math.pow', () => {
+      const values = [0, -0, 1, -1, 2, -2, 0.5, 3, Infinity, -Infinity, Number.NaN];
+      for (const x of values) {
+        for (const y of values) {
+          expect(Object.is(pow(x, y), Math.pow(x, y)), `pow(${x}, ${y})`).toBe(true);
+        }
+      }
+      expect(pow(-2, 3)).toBe(-8);
+      expect(pow(-8, 1 / 3)).toBeNaN();
+      expect(pow(10, 400)).toBe(Infinity);
+      expect(pow(10, -400)).toBe(0);
+    });
+
+    it('should handle tanh special values', () => {
+      expect(Object.is(tanh(-0), -0)).toBe(true);
+      expect(tanh(Infinity)).toBe(1);
+      expect(tanh(-Infinity)).toBe(-1);
+      expect(tanh(30)).toBe(1);
+      expect(tanh(Number.NaN)).toBeNaN();
+      expect(tanh(1e-30)).toBe(1e-30);
+    });
+  });
+
+  describe('transcendentals', () => {
+    it('should select native Math functions by default', () => {
+      expect(transcendentals().exp).toBe(Math.exp);
+      expect(transcendentals({ deterministic: false }).pow).toBe(Math.pow);
+    });
+
+    it('should select the deterministic functions on opt-in', () => {
+      const t = transcendentals({ deterministic: true });
+      expect(t.exp).toBe(exp);
+      expect(t.expm1).toBe(expm1);
+      expect(t.log).toBe(log);
+      expect(t.pow).toBe(pow);
+      expect(t.tanh).toBe(tanh);
+    });
+  });
+});
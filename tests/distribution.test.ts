@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { distributeProRata, type DistributionParticipant } from '../src/emissions/distribution';
+
+function amounts(result: ReturnType<typeof distributeProRata>): bigint[] {
+  return result.payouts.map(p => p.amount);
+}
+
+describe('Emissions Pro-Rata Distribution', () => {
+  describe('pro-rata split', () => {
+    it('should pay score × budget / Σscores exactly', () => {
+      const r = distributeProRata(1_000n, [
+        { id: 'a', score: 5 },
+        { id: 'b', score: 3 },
+        { id: 'c', score: 2 }
+      ]);
+      expect(amounts(r)).toEqual([500n, 300n, 200n]);
+      expect(r.distributed).toBe(1_000n);
+      expect(r.undistributed).toBe(0n);
+      expect(r.payouts.every(p => p.status === 'paid')).toBe(true);
+    });
+
+    it('should sum exactly to the budget with largest-remainder rounding', () => {
+      const participants = Array.from({ length: 37 }, (_, i) => ({ id: `p${i}`, score: 1 + ((i * 7919) % 101) / 3 }));
+      for (const budget of [1n, 36n, 1_000_003n, 10n ** 24n + 7n]) {
+        const r = distributeProRata(budget, participants);
+        expect(r.distributed).toBe(budget);
+      }
+      // Ties go to the earlier participant
+      expect(amounts(distributeProRata(2n, [{ id: 'a', score: 1 }, { id: 'b', score: 1 }, { id: 'c', score: 1 }])))
+        .toEqual([1n, 1n, 0n]);
+    });
+
+    it('should leave the budget undistributed when the total score is zero', () => {
+      const r = distributeProRata(100n, [{ id: 'a', score: 0 }, { id: 'b', score: 0 }]);
+      expect(amounts(r)).toEqual([0n, 0n]);
+      expect(r.undistributed).toBe(100n);
+      expect(r.payouts.every(p => p.status === 'ineligible')).toBe(true);
+      expect(distributeProRata(100n, []).undistributed).toBe(100n);
+    });
+
+    it('should exclude participants below minScore', () => {
+      const r = distributeProRata(100n, [{ id: 'a', score: 1 }, { id: 'b', score: 3 }], { minScore: 2 });
+      expect(amounts(r)).toEqual([0n, 100n]);
+      expect(r.payouts[0].status).toBe('ineligible');
+    });
+  });
+
+  describe('caps', () => {
+    it('should redistribute the overflow of capped participants', () => {
+      const r = distributeProRata(1_000n, [
+        { id: 'whale', score: 8, cap: 300n },
+        { id: 'b', score: 1 },
+        { id: 'c', score: 1 }
+      ]);
+      expect(amounts(r)).toEqual([300n, 350n, 350n]);
+      expect(r.payouts[0].status).toBe('capped');
+    });
+
+    it('should cascade caps until no share exceeds its cap', () => {
+      const r = distributeProRata(1_000n, [
+        { id: 'a', score: 6, cap: 400n },
+        { id: 'b', score: 3, cap: 350n },
+        { id: 'c', score: 1 }
+      ]);
+      // a: 600 > 400 -> capped; b's share of the remaining 600 is 450 > 350 -> capped; c takes the rest
+      expect(amounts(r)).toEqual([400n, 350n, 250n]);
+      expect(r.payouts.map(p => p.status)).toEqual(['capped', 'capped', 'paid']);
+      expect(r.distributed).toBe(1_000n);
+
+      const tight = distributeProRata(1_000n, [
+        { id: 'a', score: 6, cap: 400n },
+        { id: 'b', score: 3, cap: 300n },
+        { id: 'c', score: 1 }
+      ]);
+      expect(amounts(tight)).toEqual([400n, 300n, 300n]);
+    });
+
+    it('should leave the overflow undistributed when everyone is capped', () => {
+      const r = distributeProRata(1_000n, [
+        { id: 'a', score: 1, cap: 100n },
+        { id: 'b', score: 1, cap: 200n }
+      ]);
+      expect(amounts(r)).toEqual([100n, 200n]);
+      expect(r.undistributed).toBe(700n);
+    });
+  });
+
+  describe('dust', () => {
+    const participants: DistributionParticipant[] = [
+      { id: 'a', score: 90 },
+      { id: 'b', score: 8 },
+      { id: 'c', score: 1.5 },
+      { id: 'd', score: 0.5 }
+    ];
+
+    it('should drop dust shares and redistribute them', () => {
+      const r = distributeProRata(1_000n, participants, { minPayout: 10n });
+      expect(r.payouts.map(p => p.status)).toEqual(['paid', 'paid', 'paid', 'dust']);
+      expect(r.distributed).toBe(1_000n);
+      expect(r.payouts[2].amount).toBeGreaterThanOrEqual(10n);
+    });
+
+    it('should drop one participant at a time, lowest score first', () => {
+      // Initially b = 10 and c = 5 are all below 11; dropping c4..c1 lifts b to 11.43
+      const levels: DistributionParticipant[] = [
+        { id: 'a', score: 10 },
+        ...[1, 2, 3, 4].map(i => ({ id: `b${i}`, score: 1 })),
+        ...[1, 2, 3, 4].map(i => ({ id: `c${i}`, score: 0.5 }))
+      ];
+      const r = distributeProRata(160n, levels, { minPayout: 11n });
+      expect(r.payouts.map(p => p.status)).toEqual([...Array(5).fill('paid'), ...Array(4).fill('dust')]);
+      expect(amounts(r)).toEqual([114n, 12n, 12n, 11n, 11n, 0n, 0n, 0n, 0n]);
+    });
+
+    it('should break dust ties by input order, keeping the earlier participant', () => {
+      // Both 50-unit shares are below 60; dropping b alone lets a take the budget
+      const r = distributeProRata(100n, [{ id: 'a', score: 1 }, { id: 'b', score: 1 }], { minPayout: 60n });
+      expect(r.payouts).toEqual([
+        { id: 'a', amount: 100n, status: 'paid' },
+        { id: 'b', amount: 0n, status: 'dust' }
+      ]);
+      expect(r.undistributed).toBe(0n);
+      const three = distributeProRata(100n, ['a', 'b', 'c'].map(id => ({ id, score: 1 })), { minPayout: 40n });
+      expect(amounts(three)).toEqual([50n, 50n, 0n]);
+      expect(distributeProRata(50n, [{ id: 'a', score: 1 }], { minPayout: 60n }).undistributed).toBe(50n);
+    });
+
+    it('should withhold dust shares when retaining dust', () => {
+      const r = distributeProRata(1_000n, participants, { minPayout: 10n, dust: 'retain' });
+      expect(amounts(r)).toEqual([900n, 80n, 15n, 0n]);
+      expect(r.undistributed).toBe(5n);
+    });
+  });
+
+  describe('input validation', () => {
+    it('should reject negative scores, budgets and caps, and duplicate ids', () => {
+      expect(() => distributeProRata(1n, [{ id: 'a', score: -1 }])).toThrow(
+        'Invalid: scores must be finite and non-negative'
+      );
+      expect(() => distributeProRata(-1n, [])).toThrow('Invalid: budget must be non-negative');
+      expect(() => distributeProRata(1n, [{ id: 'a', score: 1, cap: -1n }])).toThrow('Invalid: caps must be non-negative');
+      expect(() => distributeProRata(1n, [{ id: 'a', score: 1 }, { id: 'a', score: 2 }])).toThrow(
+        'Invalid: participant ids must be unique'
+      );
+      expect(() => distributeProRata(1n, [], { minPayout: -1n })).toThrow('Invalid: minPayout must be non-negative');
+    });
+  });
+});
@@ -2,12 +2,16 @@ import { describe, it, expect } from 'vitest';
 import {
   DEFAULT_EMISSIONS_PARAMS,
   shapeWeights,
+  resolveEmissionsParams,
+  toPhasedEmissionsParams,
+  buildPhasedEmissionsSchedule,
   buildEmissionsSchedule,
   getEpochEmission,
   getCumulativeEmissions,
   getRemainingSupply,
   getEmittedFraction,
-  type EmissionsSchedule
+  type EmissionsSchedule,
+  type PhasedEmissionsParams
 } from '../src/emissions/emissionsSchedule';
 import golden from './goldens/emissions.golden.json';
 
@@ -109,6 +113,39 @@ describe('Emissions Schedule', () => {
       expectRelClose(sum(s.emissions), g.sumOfEmissions);
     });
 
+    it('should match the deterministic-mode golden vector bit-exactly', () => {
+      // Engine-independent transcendentals: floats are pinned with Object.is,
+      // not at tolerance.
+      const g = golden.deterministicSchedule;
+      const s = buildEmissionsSchedule({}, { deterministic: true });
+
+      expect(s.totalEpochs).toBe(g.totalEpochs);
+      expect(s.milestones).toEqual(g.milestones);
+      for (const [epochStr, expected] of Object.entries(g.emissionsAtEpochs)) {
+        expect(Object.is(s.emissions[Number(epochStr) - 1], expected)).toBe(true);
+      }
+      for (const [epochStr, expected] of Object.entries(g.cumulativeAtEpochs)) {
+        expect(Object.is(s.cumulative[Number(epochStr) - 1], expected)).toBe(true);
+      }
+      expect(Object.is(sum(s.emissions), g.sumOfEmissions)).toBe(true);
+    });
+
+    it('should match the four-phase golden vector bit-exactly', () => {
+      const g = golden.fourPhaseSchedule;
+      const s = buildPhasedEmissionsSchedule(
+        { ...g.paramsUsed, cap: BigInt(g.paramsUsed.cap) },
+        { deterministic: true }
+      );
+
+      expect(s.totalEpochs).toBe(g.totalEpochs);
+      expect(s.phases).toEqual(g.phases);
+      expect(s.emissions).toHaveLength(g.emissions.length);
+      for (let i = 0; i < g.emissions.length; i++) {
+        expect(Object.is(s.emissions[i], g.emissions[i])).toBe(true);
+        expect(Object.is(s.cumulative[i], g.cumulative[i])).toBe(true);
+      }
+    });
+
     it('should match the shapeWeights golden vectors', () => {
       const cases: Array<[number[], number[]]> = [
         [shapeWeights(5, 2.0), golden.shapeWeights['n5_shape2']],
@@ -167,6 +204,13 @@ describe('Emissions Schedule', () => {
       expect(s.totalEpochs).toBe(26 * 4 + 26 * 24 + 26 * 25);
     });
 
+    it('should deep-merge a partial targets object instead of dropping fields', () => {
+      const s = buildEmissionsSchedule({ targets: { f33: 0.3 } });
+      expect(s.params.targets).toEqual({ f33: 0.3, f80: 0.8, f100: 1.0 });
+      expect(s.emissions.every(e => Number.isFinite(e) && e > 0)).toBe(true);
+      expectRelClose(s.cumulative[s.milestones.epochTo33Pct - 1] / cap, 0.3, 1e-2);
+    });
+
     it('should emit only finite, strictly positive per-epoch amounts', () => {
       for (const e of schedule.emissions) {
         expect(Number.isFinite(e)).toBe(true);
@@ -267,6 +311,226 @@ describe('Emissions Schedule', () => {
     });
   });
 
+  describe('resolveEmissionsParams', () => {
+    it('should return the defaults and no overridden fields for empty overrides', () => {
+      const resolved = resolveEmissionsParams();
+      expect(resolved.params).toEqual(DEFAULT_EMISSIONS_PARAMS);
+      expect(resolved.overridden).toEqual([]);
+    });
+
+    it('should report overridden leaf paths, including nested target fields', () => {
+      const resolved = resolveEmissionsParams({ shapeMid: 1.4, targets: { f80: 0.75 }, cap: 1000n });
+      expect(resolved.overridden).toEqual(['shapeMid', 'targets.f80', 'cap']);
+      expect(resolved.params.targets).toEqual({ f33: 1 / 3, f80: 0.75, f100: 1.0 });
+      expect(resolved.params.cap).toBe(1000n);
+    });
+
+    it('should ignore undefined override values', () => {
+      const resolved = resolveEmissionsParams({ epochsPerYear: undefined, targets: { f33: undefined } });
+      expect(resolved.params).toEqual(DEFAULT_EMISSIONS_PARAMS);
+      expect(resolved.overridden).toEqual([]);
+    });
+
+    it('should merge onto a caller-supplied base without mutating it', () => {
+      const base = resolveEmissionsParams({ epochsPerYear: 12 }).params;
+      const resolved = resolveEmissionsParams({ targets: { f100: 0.99 } }, base);
+      expect(resolved.params.epochsPerYear).toBe(12);
+      expect(resolved.params.targets.f100).toBe(0.99);
+      expect(base.targets.f100).toBe(1.0);
+      expect(DEFAULT_EMISSIONS_PARAMS.targets.f100).toBe(1.0);
+    });
+
+    it('should match the params echoed by buildEmissionsSchedule', () => {
+      const overrides = { targets: { f33: 0.3 }, shapeTail: 1.0 };
+      expect(buildEmissionsSchedule(overrides).params).toEqual(resolveEmissionsParams(overrides).params);
+    });
+  });
+
+  describe('buildPhasedEmissionsSchedule (generalized N-phase)', () => {
+    const fivePhase: PhasedEmissionsParams = {
+      cap: 10_000_000n,
+      epochsPerYear: 12,
+      phases: [
+        { years: 2, targetFraction: 0.2, shape: 2.5 },
+        { years: 3, targetFraction: 0.45, shape: 2.0 },
+        { years: 5, targetFraction: 0.7, shape: 1.5 },
+        { years: 10, targetFraction: 0.9, shape: 1.0 },
+        { years: 10, targetFraction: 1.0, shape: 0.5 }
+      ]
+    };
+
+    it('should reproduce the three-phase schedule bit-identically via toPhasedEmissionsParams', () => {
+      for (const det of [false, true]) {
+        const threePhase = buildEmissionsSchedule({}, { deterministic: det });
+        const phased = buildPhasedEmissionsSchedule(
+          toPhasedEmissionsParams(DEFAULT_EMISSIONS_PARAMS),
+          { deterministic: det }
+        );
+        expect(phased.totalEpochs).toBe(threePhase.totalEpochs);
+        for (let i = 0; i < threePhase.totalEpochs; i++) {
+          expect(Object.is(phased.emissions[i], threePhase.emissions[i])).toBe(true);
+          expect(Object.is(phased.cumulative[i], threePhase.cumulative[i])).toBe(true);
+        }
+        expect(phased.phases.map(ph => ph.milestoneEpoch)).toEqual([
+          threePhase.milestones.epochTo33Pct,
+          threePhase.milestones.epochTo80Pct,
+          threePhase.milestones.epochTo100Pct
+        ]);
+      }
+    });
+
+    it('should map three-phase params onto early / mid / tail phases', () => {
+      expect(toPhasedEmissionsParams(DEFAULT_EMISSIONS_PARAMS).phases).toEqual([
+        { years: 4, targetFraction: 1 / 3, shape: 2.0 },
+        { years: 24, targetFraction: 0.8, shape: 1.5 },
+        { years: 25, targetFraction: 1.0, shape: 1.2 }
+      ]);
+    });
+
+    it('should lay phases out back to back and sum to the cap', () => {
+      const s = buildPhasedEmissionsSchedule(fivePhase);
+      expect(s.totalEpochs).toBe(12 * 30);
+      expect(s.phases.map(ph => [ph.startEpoch, ph.endEpoch])).toEqual([
+        [1, 24],
+        [25, 60],
+        [61, 120],
+        [121, 240],
+        [241, 360]
+      ]);
+      expectRelClose(sum(s.emissions), 10_000_000, 1e-12);
+      expect(s.emissions.every(e => Number.isFinite(e) && e > 0)).toBe(true);
+    });
+
+    it('should reach each target fraction at the end of its phase', () => {
+      const s = buildPhasedEmissionsSchedule(fivePhase);
+      for (const ph of s.phases) {
+        expectRelClose(s.cumulative[ph.endEpoch - 1] / 10_000_000, ph.targetFraction, 1e-12);
+        expect(ph.milestoneEpoch).toBeLessThanOrEqual(ph.endEpoch);
+        expect(ph.milestoneYears).toBe(ph.milestoneEpoch / 12);
+      }
+    });
+
+    it('should front-load each phase independently', () => {
+      const s = buildPhasedEmissionsSchedule(fivePhase);
+      for (const ph of s.phases) {
+        for (let e = ph.startEpoch; e < ph.endEpoch; e++) {
+          expect(s.emissions[e]).toBeLessThan(s.emissions[e - 1]);
+        }
+      }
+    });
+
+    it('should support a single phase', () => {
+      const s = buildPhasedEmissionsSchedule({
+        cap: 1000n,
+        epochsPerYear: 4,
+        phases: [{ years: 2, targetFraction: 1.0, shape: 0 }]
+      });
+      expect(s.emissions).toHaveLength(8);
+      for (const e of s.emissions) {
+        expectRelClose(e, 125, 1e-15);
+      }
+    });
+
+    it('should validate phases in strict mode', () => {
+      const invalid = {
+        ...fivePhase,
+        phases: [fivePhase.phases[1], fivePhase.phases[0]]
+      };
+      expect(() => buildPhasedEmissionsSchedule(invalid, { strict: true })).toThrow(
+        'Invalid: emissions params (phases[1].targetFraction must be greater than phases[0].targetFraction)'
+      );
+      expect(() => buildPhasedEmissionsSchedule(fivePhase, { strict: true })).not.toThrow();
+    });
+  });
+
+  describe('continuity mode (C0 phase boundaries)', () => {
+    const continuous = buildEmissionsSchedule({}, { continuity: true });
+
+    it('should match the continuity-mode golden vector bit-exactly', () => {
+      const g = golden.continuitySchedule;
+      const s = buildEmissionsSchedule({}, { continuity: true, deterministic: true });
+      expect(s.milestones).toEqual(g.milestones);
+      expect(s.continuity).toEqual(g.continuity);
+      expect(Object.is(s.params.shapeMid, g.paramsUsed.shapeMid)).toBe(true);
+      expect(Object.is(s.params.shapeTail, g.paramsUsed.shapeTail)).toBe(true);
+      for (const [epochStr, expected] of Object.entries(g.emissionsAtEpochs)) {
+        expect(Object.is(s.emissions[Number(epochStr) - 1], expected)).toBe(true);
+      }
+      for (const [epochStr, expected] of Object.entries(g.cumulativeAtEpochs)) {
+        expect(Object.is(s.cumulative[Number(epochStr) - 1], expected)).toBe(true);
+      }
+    });
+
+    it('should emit the same amount on both sides of each phase boundary', () => {
+      for (const boundary of [208, 1456]) {
+        const last = continuous.emissions[boundary - 1];
+        const first = continuous.emissions[boundary];
+        expect(Math.abs(first - last) / last).toBeLessThanOrEqual(1e-12);
+      }
+      for (const gap of continuous.continuity!.boundaryGaps) {
+        expect(Math.abs(gap)).toBeLessThanOrEqual(1e-12);
+      }
+    });
+
+    it('should still hit the 33⅓% / 80% / 100% milestones exactly at the phase ends', () => {
+      expect(continuous.milestones).toEqual(schedule.milestones);
+      expectRelClose(continuous.cumulative[207], cap / 3, 1e-12);
+      expectRelClose(continuous.cumulative[1455], cap * 0.8, 1e-12);
+      expectRelClose(sum(continuous.emissions), cap, 1e-12);
+    });
+
+    it('should keep the early shape and report the solved later shapes', () => {
+      const { shapes } = continuous.continuity!;
+      expect(shapes).toHaveLength(3);
+      expect(shapes[0]).toBe(2.0);
+      expect(continuous.params.shapeEarly).toBe(2.0);
+      expect(continuous.params.shapeMid).toBe(shapes[1]);
+      expect(continuous.params.shapeTail).toBe(shapes[2]);
+      // Both later phases remain front-loaded for the canonical targets
+      expect(shapes[1]).toBeGreaterThan(0);
+      expect(shapes[2]).toBeGreaterThan(0);
+    });
+
+    it('should reproduce the continuous schedule from the echoed params without continuity mode', () => {
+      const rebuilt = buildEmissionsSchedule(continuous.params);
+      for (let i = 0; i < continuous.totalEpochs; i++) {
+        expect(Object.is(rebuilt.emissions[i], continuous.emissions[i])).toBe(true);
+      }
+      expect(rebuilt.continuity).toBeUndefined();
+    });
+
+    it('should solve back-loaded (negative) shapes when a phase must ramp up', () => {
+      // A short, heavily front-loaded early phase ends low; the mid phase has a
+      // much larger per-epoch average, so it must start low and rise.
+      const s = buildPhasedEmissionsSchedule(
+        {
+          cap: 1_000_000n,
+          epochsPerYear: 12,
+          phases: [
+            { years: 1, targetFraction: 0.1, shape: 6 },
+            { years: 1, targetFraction: 1.0, shape: 1 }
+          ]
+        },
+        { continuity: true }
+      );
+      expect(s.continuity!.shapes[1]).toBeLessThan(0);
+      expect(s.emissions[12]).toBeGreaterThan(s.emissions[11] * (1 - 1e-12));
+      expect(s.emissions[23]).toBeGreaterThan(s.emissions[12]);
+      expect(Math.abs(s.continuity!.boundaryGaps[0])).toBeLessThanOrEqual(1e-12);
+    });
+
+    it('should reject non-exponential shapes in continuity mode', () => {
+      expect(() =>
+        buildEmissionsSchedule({ shapeTail: { kind: 'linear' } }, { continuity: true })
+      ).toThrow('Invalid: continuity mode requires exponential phase shapes');
+    });
+
+    it('should leave schedules untouched when continuity is off', () => {
+      expect(schedule.continuity).toBeUndefined();
+      expect(schedule.params.shapeMid).toBe(1.5);
+    });
+  });
+
   describe('getEpochEmission', () => {
     it('should return 0 for epoch 0 and negative epochs (schedule is 1-indexed)', () => {
       expect(getEpochEmission(schedule, 0)).toBe(0);
@@ -394,6 +658,18 @@ describe('Emissions Schedule', () => {
       }
     });
 
+    it('should agree with the native weights within 1e-15 relative in deterministic mode', () => {
+      for (const n of sizes) {
+        for (const shape of shapes) {
+          const native = shapeWeights(n, shape);
+          const det = shapeWeights(n, shape, { deterministic: true });
+          for (let i = 0; i < n; i++) {
+            expectRelClose(det[i], native[i], 1e-15);
+          }
+        }
+      }
+    });
+
     it('should be uniform for shape 0', () => {
       for (const n of sizes) {
         const w = shapeWeights(n, 0);
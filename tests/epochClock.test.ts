@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { buildEmissionsSchedule, getCumulativeEmissions } from '../src/emissions/emissionsSchedule';
+import {
+  buildIntegerEmissionsSchedule,
+  getCumulativeEmissionsUnits
+} from '../src/emissions/integerSchedule';
+import {
+  epochAtTimestamp,
+  epochEndTimestamp,
+  epochStartTimestamp,
+  getCumulativeEmissionsAt,
+  getCumulativeEmissionsUnitsAt,
+  getEmittedBetween,
+  getEmittedBetweenUnits,
+  type EpochClock
+} from '../src/emissions/epochClock';
+
+const WEEK = 7 * 24 * 60 * 60;
+const clock: EpochClock = { genesisTime: 1_700_000_000, epochDuration: WEEK };
+
+describe('Emissions Epoch Clock', () => {
+  const schedule = buildEmissionsSchedule();
+  const integer = buildIntegerEmissionsSchedule();
+  const cap = 86e9;
+
+  describe('timestamp <-> epoch mapping', () => {
+    it('should map half-open epoch intervals to 1-indexed epochs', () => {
+      expect(epochAtTimestamp(clock, clock.genesisTime)).toBe(1);
+      expect(epochAtTimestamp(clock, clock.genesisTime + WEEK - 1)).toBe(1);
+      expect(epochAtTimestamp(clock, clock.genesisTime + WEEK)).toBe(2);
+      expect(epochAtTimestamp(clock, clock.genesisTime + 519 * WEEK + 3600)).toBe(520);
+      expect(epochAtTimestamp(clock, clock.genesisTime - 1)).toBe(0);
+      // Past the schedule the epoch keeps counting
+      expect(epochAtTimestamp(clock, clock.genesisTime + 5000 * WEEK)).toBe(5001);
+    });
+
+    it('should round-trip epoch start/end timestamps', () => {
+      for (const epoch of [1, 2, 208, 1456, 2756, 4000]) {
+        const start = epochStartTimestamp(clock, epoch);
+        expect(epochAtTimestamp(clock, start)).toBe(epoch);
+        expect(epochEndTimestamp(clock, epoch)).toBe(start + WEEK);
+        expect(epochAtTimestamp(clock, epochEndTimestamp(clock, epoch) - 1)).toBe(epoch);
+      }
+      expect(epochStartTimestamp(clock, 1)).toBe(clock.genesisTime);
+    });
+
+    it('should support fractional durations and genesis times', () => {
+      const c: EpochClock = { genesisTime: 0.5, epochDuration: 0.25 };
+      expect(epochAtTimestamp(c, 0.5)).toBe(1);
+      expect(epochAtTimestamp(c, 0.75)).toBe(2);
+      expect(epochStartTimestamp(c, 3)).toBe(1);
+    });
+  });
+
+  describe('pro-rated emissions', () => {
+    it('should match the epoch getters at epoch boundaries', () => {
+      for (const epoch of [0, 1, 208, 1456, 2756]) {
+        const t = clock.genesisTime + epoch * WEEK;
+        expect(getCumulativeEmissionsAt(schedule, clock, t)).toBe(getCumulativeEmissions(schedule, epoch));
+        expect(getCumulativeEmissionsUnitsAt(integer, clock, t)).toBe(
+          getCumulativeEmissionsUnits(integer, epoch)
+        );
+      }
+    });
+
+    it('should pro-rate a sub-epoch interval linearly', () => {
+      const start = epochStartTimestamp(clock, 10);
+      const half = getEmittedBetween(schedule, clock, start, start + WEEK / 2);
+      expect(half).toBeCloseTo(schedule.emissions[9] / 2, 3);
+      const quarter = getEmittedBetween(schedule, clock, start + WEEK / 4, start + WEEK / 2);
+      expect(quarter).toBeCloseTo(schedule.emissions[9] / 4, 3);
+    });
+
+    it('should pro-rate both ends of an interval spanning several epochs', () => {
+      const from = epochStartTimestamp(clock, 207) + WEEK / 2;
+      const to = epochStartTimestamp(clock, 210) + WEEK / 4;
+      const expected =
+        schedule.emissions[206] / 2 +
+        schedule.emissions[207] +
+        schedule.emissions[208] +
+        schedule.emissions[209] / 4;
+      expect(getEmittedBetween(schedule, clock, from, to)).toBeCloseTo(expected, 2);
+    });
+
+    it('should emit nothing before genesis and nothing after the final epoch', () => {
+      const before = clock.genesisTime - 10 * WEEK;
+      expect(getEmittedBetween(schedule, clock, before, clock.genesisTime)).toBe(0);
+      const end = epochEndTimestamp(clock, schedule.totalEpochs);
+      expect(getCumulativeEmissionsAt(schedule, clock, end)).toBe(cap);
+      expect(getEmittedBetween(schedule, clock, end, end + 100 * WEEK)).toBe(0);
+      expect(getEmittedBetween(schedule, clock, before, end + WEEK)).toBe(cap);
+    });
+
+    it('should be monotone in time', () => {
+      let previous = -1;
+      for (let t = clock.genesisTime - WEEK; t < clock.genesisTime + 40 * WEEK; t += 86_399) {
+        const cumulative = getCumulativeEmissionsAt(schedule, clock, t);
+        expect(cumulative).toBeGreaterThanOrEqual(previous);
+        previous = cumulative;
+      }
+    });
+  });
+
+  describe('base-unit queries', () => {
+    it('should round partial epochs down and conserve the total supply', () => {
+      const start = epochStartTimestamp(clock, 3);
+      const third = getEmittedBetweenUnits(integer, clock, start, start + 1000);
+      expect(third).toBe((integer.emissions[2] * 1000n) / BigInt(WEEK));
+
+      const end = epochEndTimestamp(clock, integer.totalEpochs);
+      expect(getEmittedBetweenUnits(integer, clock, 0, end)).toBe(integer.totalSupply);
+    });
+
+    it('should split an interval additively at any whole-second point', () => {
+      const from = epochStartTimestamp(clock, 100) + 12_345;
+      const mid = epochStartTimestamp(clock, 104) + 777;
+      const to = epochStartTimestamp(clock, 110) + 1;
+      expect(
+        getEmittedBetweenUnits(integer, clock, from, mid) + getEmittedBetweenUnits(integer, clock, mid, to)
+      ).toBe(getEmittedBetweenUnits(integer, clock, from, to));
+    });
+
+    it('should require whole seconds', () => {
+      expect(() => getCumulativeEmissionsUnitsAt(integer, clock, clock.genesisTime + 0.5)).toThrow(
+        'Invalid: base-unit queries require whole-second clock and timestamps'
+      );
+    });
+  });
+
+  describe('input validation', () => {
+    it('should reject invalid clocks, epochs and intervals', () => {
+      expect(() => epochAtTimestamp({ genesisTime: 0, epochDuration: 0 }, 1)).toThrow(
+        'Invalid: epochDuration must be positive and finite'
+      );
+      expect(() => epochAtTimestamp({ genesisTime: NaN, epochDuration: 1 }, 1)).toThrow(
+        'Invalid: genesisTime must be finite'
+      );
+      expect(() => epochAtTimestamp(clock, Infinity)).toThrow('Invalid: timestamp must be finite');
+      expect(() => epochStartTimestamp(clock, 0)).toThrow('Invalid: epoch must be a positive integer');
+      expect(() => epochEndTimestamp(clock, 0)).toThrow('Invalid: epoch must be a positive integer');
+      expect(() => epochEndTimestamp(clock, 1.5)).toThrow('Invalid: epoch must be a positive integer');
+      expect(() => getEmittedBetween(schedule, clock, 2, 1)).toThrow(
+        'Invalid: interval end must not precede its start'
+      );
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { buildEmissionsSchedule } from '../src/emissions/emissionsSchedule';
+import { buildIntegerEmissionsSchedule } from '../src/emissions/integerSchedule';
+import {
+  canonicalizeEmissionsParams,
+  fingerprintEmissionsSchedule,
+  fingerprintIntegerEmissionsSchedule
+} from '../src/emissions/fingerprint';
+import {
+  toEmissionsCsv,
+  toMathematicaEmissions,
+  toSolidityEmissionsConstants
+} from '../src/emissions/exportFormats';
+
+describe('Emissions Export Formats', () => {
+  const schedule = buildEmissionsSchedule();
+  const units = buildIntegerEmissionsSchedule();
+  const root = '0x' + 'ab'.repeat(32);
+
+  describe('toEmissionsCsv', () => {
+    it('should render a metadata header and one row per epoch', () => {
+      const lines = toEmissionsCsv(schedule).trimEnd().split('\n');
+      expect(lines.slice(0, 4)).toEqual([
+        '# format: afi-emissions-schedule/v1',
+        `# params: ${canonicalizeEmissionsParams(schedule.params)}`,
+        `# sha256: ${fingerprintEmissionsSchedule(schedule)}`,
+        'epoch,emission,cumulative'
+      ]);
+      expect(lines).toHaveLength(4 + schedule.totalEpochs);
+      const [epoch, emission, cumulative] = lines[4 + 207].split(',');
+      expect(Number(epoch)).toBe(208);
+      expect(Number(emission)).toBe(schedule.emissions[207]);
+      expect(Number(cumulative)).toBe(schedule.cumulative[207]);
+    });
+
+    it('should render base units exactly', () => {
+      const lines = toEmissionsCsv(units).trimEnd().split('\n');
+      expect(lines[2]).toBe('# decimals: 18');
+      expect(lines[3]).toBe(`# sha256: ${fingerprintIntegerEmissionsSchedule(units)}`);
+      expect(lines[5]).toBe(`1,${units.emissions[0]},${units.cumulative[0]}`);
+      expect(lines[lines.length - 1].split(',')[2]).toBe(units.totalSupply.toString());
+    });
+  });
+
+  describe('toSolidityEmissionsConstants', () => {
+    it('should render constants and the per-epoch uint256[]', () => {
+      const source = toSolidityEmissionsConstants(units, { merkleRoot: root });
+      expect(source).toContain('pragma solidity ^0.8.0;');
+      expect(source).toContain('library AfiEmissionsSchedule {');
+      expect(source).toContain('uint256 internal constant TOTAL_SUPPLY = 86000000000000000000000000000;');
+      expect(source).toContain('uint256 internal constant TOTAL_EPOCHS = 2756;');
+      expect(source).toContain(`bytes32 internal constant SCHEDULE_SHA256 = 0x${fingerprintIntegerEmissionsSchedule(units)};`);
+      expect(source).toContain(`bytes32 internal constant EMISSIONS_MERKLE_ROOT = ${root};`);
+      expect(source).toContain('amounts = new uint256[](2756);');
+      expect(source).toContain(`amounts[0] = ${units.emissions[0]};`);
+      expect(source).toContain(`amounts[2755] = ${units.emissions[2755]};`);
+      expect(source.endsWith('}\n')).toBe(true);
+    });
+
+    it('should render only the constants when the amounts are omitted', () => {
+      const source = toSolidityEmissionsConstants(units, { name: 'Emissions', includeEmissions: false });
+      expect(source).toContain('library Emissions {');
+      expect(source).not.toContain('function emissions()');
+      expect(source).not.toContain('EMISSIONS_MERKLE_ROOT');
+      expect(source.split('\n').filter(l => l.startsWith('// ')).length).toBe(6);
+    });
+
+    it('should reject invalid names and roots', () => {
+      expect(() => toSolidityEmissionsConstants(units, { name: '1Bad' })).toThrow(
+        'Invalid: name must be a Solidity identifier'
+      );
+      expect(() => toSolidityEmissionsConstants(units, { merkleRoot: '0x1234' })).toThrow(
+        'Invalid: merkleRoot must be 0x-prefixed 32-byte hex'
+      );
+    });
+  });
+
+  describe('toMathematicaEmissions', () => {
+    it('should render machine-real list literals with a comment header', () => {
+      const source = toMathematicaEmissions(schedule);
+      expect(source.startsWith('(*\n format: afi-emissions-schedule/v1\n')).toBe(true);
+      const list = source.match(/^afiEmissions = \{(.*)\};$/m)![1].split(', ');
+      expect(list).toHaveLength(schedule.totalEpochs);
+      list.forEach((x, i) => {
+        expect(x).toMatch(/^-?\d+\.\d*(\*\^-?\d+)?$/);
+        expect(Number(x.replace('*^', 'e'))).toBe(schedule.emissions[i]);
+      });
+      expect(source).toMatch(/^afiCumulative = \{.*\};$/m);
+    });
+
+    it('should write exponents and integral floats as Mathematica reals', () => {
+      const tiny = buildEmissionsSchedule({ cap: 1n, earlyYears: 1 / 52, midYears: 1 / 52, tailYears: 1 / 52 });
+      const source = toMathematicaEmissions({ ...tiny, emissions: [1e21, 2.5e-7, 3], cumulative: [1e21, 1e21, 1e21] });
+      expect(source).toContain('afiEmissions = {1.*^21, 2.5*^-7, 3.};');
+    });
+
+    it('should render base units as exact integers', () => {
+      const source = toMathematicaEmissions(units);
+      expect(source).toContain(`afiEmissions = {${units.emissions[0]}, ${units.emissions[1]},`);
+      expect(source).toContain(' decimals: 18\n');
+    });
+  });
+});
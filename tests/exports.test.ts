@@ -4,7 +4,8 @@ import type {
   ReverseDCFInputs,
   ReverseDCFOutputs,
   EmissionsParams,
-  EmissionsSchedule
+  EmissionsSchedule,
+  IntegerEmissionsSchedule
 } from '../src/index';
 
 /**
@@ -21,7 +22,16 @@ function surfaceOf(ns: object): string[] {
   return Object.keys(ns).sort();
 }
 
-const EXPECTED_NAMESPACES = ['curves', 'decay', 'emissions', 'timeValue', 'valuation'] as const;
+const EXPECTED_NAMESPACES = [
+  'curves',
+  'decay',
+  'deterministic',
+  'emissions',
+  'hashing',
+  'timeValue',
+  'valuation',
+  'vesting'
+] as const;
 
 const EXPECTED_SURFACE: Record<(typeof EXPECTED_NAMESPACES)[number], string[]> = {
   timeValue: [
@@ -30,7 +40,25 @@ const EXPECTED_SURFACE: Record<(typeof EXPECTED_NAMESPACES)[number], string[]> =
     'impliedRate',
     'presentValue',
     'presentValueContinuous',
-    'tvMultiple'
+    'tvMultiple',
+    'yearFraction',
+    'npv',
+    'irr',
+    'xnpv',
+    'xirr',
+    'annuityPresentValue',
+    'annuityFutureValue',
+    'perpetuityPresentValue',
+    'pmt',
+    'nper',
+    'annuityRate',
+    'amortizationSchedule',
+    'COMPOUNDING_FREQUENCIES',
+    'effectiveAnnualRate',
+    'nominalAnnualRate',
+    'convertNominalRate',
+    'presentValueCompounded',
+    'futureValueCompounded'
   ].sort(),
   curves: [
     'exponential',
@@ -43,6 +71,15 @@ const EXPECTED_SURFACE: Record<(typeof EXPECTED_NAMESPACES)[number], string[]> =
     'tanhNormalized'
   ].sort(),
   valuation: ['impliedDiscountRate', 'reverseDCF'].sort(),
+  hashing: ['sha256', 'sha256Hex', 'toHex', 'utf8Encode'].sort(),
+  vesting: [
+    'projectUnlockedSupply',
+    'releasableBetween',
+    'totalVesting',
+    'vestedAt',
+    'vestingEndEpoch'
+  ].sort(),
+  deterministic: ['exp', 'expm1', 'log', 'pow', 'tanh', 'transcendentals'].sort(),
   decay: [
     'adjustedHalfLife',
     'compositeDecayScore',
@@ -55,18 +92,85 @@ const EXPECTED_SURFACE: Record<(typeof EXPECTED_NAMESPACES)[number], string[]> =
     'timeWeightedScore'
   ].sort(),
   emissions: [
+    'CLOSED_FORM_EMISSIONS_TOLERANCE',
+    'DEFAULT_EMISSIONS_DECIMALS',
     'DEFAULT_EMISSIONS_PARAMS',
+    'EMISSIONS_PARAMS_FORMAT',
+    'EmissionsParamsError',
+    'assertValidEmissionsParams',
+    'assertValidPhasedEmissionsParams',
+    'buildPhasedEmissionsSchedule',
+    'buildSupplyModel',
+    'EMISSIONS_SCHEDULE_FORMAT',
+    'INTEGER_EMISSIONS_SCHEDULE_FORMAT',
+    'WEIGHT_SHAPE_KINDS',
+    'buildClosedFormEmissionsSchedule',
+    'buildEmissionsMerkleTree',
     'buildEmissionsSchedule',
+    'buildIntegerEmissionsSchedule',
+    'canonicalizeEmissionsParams',
+    'canonicalizeEmissionsSchedule',
+    'canonicalizeIntegerEmissionsSchedule',
+    'computeInflationMetrics',
+    'constantWeights',
+    'diffEmissionsSchedules',
+    'distributeProRata',
+    'emissionsMerkleLeaf',
+    'epochAtTimestamp',
+    'epochEndTimestamp',
+    'epochStartTimestamp',
+    'exponentialShapeForFirstWeight',
+    'fingerprintEmissionsParams',
+    'fingerprintEmissionsSchedule',
+    'fingerprintIntegerEmissionsSchedule',
+    'fitEmissionsShapes',
+    'getClosedFormCumulativeEmissions',
+    'getClosedFormEpochEmission',
     'getCumulativeEmissions',
+    'getCumulativeEmissionsAt',
+    'getCumulativeEmissionsUnits',
+    'getCumulativeEmissionsUnitsAt',
+    'getEmittedBetween',
+    'getEmittedBetweenUnits',
+    'getEmissionsInRange',
+    'getEmissionsInYear',
     'getEmittedFraction',
     'getEpochEmission',
+    'getEpochEmissionUnits',
+    'getEpochForFraction',
+    'getEmissionsMerkleProof',
+    'getEpochRewardSplit',
     'getRemainingSupply',
-    'shapeWeights'
+    'getRemainingSupplyUnits',
+    'getSupplyAt',
+    'getYearlyEmissions',
+    'halvingWeights',
+    'largestRemainderAllocation',
+    'linearWeights',
+    'logisticTaperWeights',
+    'powerLawWeights',
+    'reconcileMints',
+    'reparameterizeEmissionsSchedule',
+    'reparameterizeIntegerEmissionsSchedule',
+    'resolveEmissionsParams',
+    'shapeWeights',
+    'spliceEmissionsSchedules',
+    'splitRewardPool',
+    'toEmissionsCsv',
+    'toIntegerEmissionsSchedule',
+    'toMathematicaEmissions',
+    'toPhasedEmissionsParams',
+    'phaseEpochCount',
+    'toSolidityEmissionsConstants',
+    'validateEmissionsParams',
+    'validatePhasedEmissionsParams',
+    'verifyEmissionsMerkleProof',
+    'weightsForShape'
   ].sort()
 };
 
 describe('Public export surface (src/index.ts barrel)', () => {
-  it('should export exactly the five kernel namespaces (no more, no fewer)', () => {
+  it('should export exactly the expected kernel namespaces (no more, no fewer)', () => {
     const runtimeKeys = surfaceOf(afiMath);
     expect(runtimeKeys).toEqual([...EXPECTED_NAMESPACES].sort());
   });
@@ -79,12 +183,22 @@ describe('Public export surface (src/index.ts barrel)', () => {
   );
 
   it('should export functions for every member except the documented constants', () => {
-    const constants = new Set(['emissions.DEFAULT_EMISSIONS_PARAMS']);
+    const constants = new Map<string, string>([
+      ['emissions.CLOSED_FORM_EMISSIONS_TOLERANCE', 'number'],
+      ['emissions.DEFAULT_EMISSIONS_PARAMS', 'object'],
+      ['emissions.DEFAULT_EMISSIONS_DECIMALS', 'number'],
+      ['emissions.EMISSIONS_PARAMS_FORMAT', 'string'],
+      ['emissions.EMISSIONS_SCHEDULE_FORMAT', 'string'],
+      ['emissions.INTEGER_EMISSIONS_SCHEDULE_FORMAT', 'string'],
+      ['emissions.WEIGHT_SHAPE_KINDS', 'object'],
+      ['timeValue.COMPOUNDING_FREQUENCIES', 'object']
+    ]);
     for (const ns of EXPECTED_NAMESPACES) {
       for (const member of EXPECTED_SURFACE[ns]) {
         const value = (afiMath[ns] as Record<string, unknown>)[member];
-        if (constants.has(`${ns}.${member}`)) {
-          expect(typeof value).toBe('object');
+        const constantType = constants.get(`${ns}.${member}`);
+        if (constantType) {
+          expect(typeof value).toBe(constantType);
         } else {
           expect(typeof value, `${ns}.${member} should be a function`).toBe('function');
         }
@@ -117,11 +231,25 @@ describe('Public export surface (src/index.ts barrel)', () => {
       expect(v).toBeCloseTo(50, 9);
     });
 
+    it('hashing.sha256Hex is callable through the barrel', () => {
+      expect(afiMath.hashing.sha256Hex('abc')).toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+    });
+
+    it('deterministic.exp is callable through the barrel', () => {
+      expect(afiMath.deterministic.exp(0)).toBe(1);
+    });
+
     it('emissions.buildEmissionsSchedule is callable through the barrel', () => {
       const s = afiMath.emissions.buildEmissionsSchedule();
       expect(s.totalEpochs).toBe(2756);
       expect(afiMath.emissions.getEpochEmission(s, 1)).toBeGreaterThan(0);
     });
+
+    it('vesting.vestedAt is callable through the barrel', () => {
+      expect(afiMath.vesting.vestedAt({ kind: 'linear', total: 100n, start: 1, durationEpochs: 4 }, 2)).toBe(50n);
+    });
   });
 
   describe('type re-exports', () => {
@@ -146,5 +274,13 @@ describe('Public export surface (src/index.ts barrel)', () => {
       const schedule: EmissionsSchedule = afiMath.emissions.buildEmissionsSchedule(params);
       expect(schedule.params.epochsPerYear).toBe(12);
     });
+
+    it('should re-export IntegerEmissionsSchedule usable as a type', () => {
+      const schedule: IntegerEmissionsSchedule = afiMath.emissions.buildIntegerEmissionsSchedule(
+        { epochsPerYear: 12 },
+        { decimals: 0 }
+      );
+      expect(schedule.totalSupply).toBe(86_000_000_000n);
+    });
   });
 });
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EMISSIONS_PARAMS,
+  buildEmissionsSchedule,
+  type EmissionsParams
+} from '../src/emissions/emissionsSchedule';
+import { buildIntegerEmissionsSchedule } from '../src/emissions/integerSchedule';
+import {
+  EMISSIONS_PARAMS_FORMAT,
+  canonicalizeEmissionsParams,
+  canonicalizeEmissionsSchedule,
+  canonicalizeIntegerEmissionsSchedule,
+  fingerprintEmissionsParams,
+  fingerprintEmissionsSchedule,
+  fingerprintIntegerEmissionsSchedule
+} from '../src/emissions/fingerprint';
+import golden from './goldens/emissions.golden.json';
+
+describe('Emissions Fingerprints', () => {
+  const schedule = buildEmissionsSchedule({}, { deterministic: true });
+
+  describe('golden digests', () => {
+    it('should match the golden params fingerprint', () => {
+      expect(fingerprintEmissionsParams(DEFAULT_EMISSIONS_PARAMS)).toBe(golden.fingerprints.defaultParams);
+    });
+
+    it('should match the golden deterministic-schedule fingerprint', () => {
+      expect(fingerprintEmissionsSchedule(schedule)).toBe(golden.fingerprints.deterministicSchedule);
+    });
+
+    it('should match the golden integer-schedule fingerprint', () => {
+      const integer = buildIntegerEmissionsSchedule({}, { decimals: 18, deterministic: true });
+      expect(fingerprintIntegerEmissionsSchedule(integer)).toBe(
+        golden.fingerprints.integerScheduleDecimals18
+      );
+    });
+  });
+
+  describe('canonical serialization', () => {
+    it('should pin the canonical params form (fixed key order, cap as string)', () => {
+      expect(canonicalizeEmissionsParams(DEFAULT_EMISSIONS_PARAMS)).toBe(
+        `{"format":"${EMISSIONS_PARAMS_FORMAT}","params":{"cap":"86000000000","epochsPerYear":52,` +
+          '"earlyYears":4,"midYears":24,"tailYears":25,' +
+          '"targets":{"f33":0.3333333333333333,"f80":0.8,"f100":1},' +
+          '"shapeEarly":2,"shapeMid":1.5,"shapeTail":1.2}}'
+      );
+    });
+
+    it('should be independent of object key construction order', () => {
+      const reordered: EmissionsParams = {
+        shapeTail: 1.2,
+        shapeMid: 1.5,
+        shapeEarly: 2.0,
+        targets: { f100: 1.0, f80: 0.8, f33: 1 / 3 },
+        tailYears: 25,
+        midYears: 24,
+        earlyYears: 4,
+        epochsPerYear: 52,
+        cap: 86_000_000_000n
+      };
+      expect(canonicalizeEmissionsParams(reordered)).toBe(
+        canonicalizeEmissionsParams(DEFAULT_EMISSIONS_PARAMS)
+      );
+    });
+
+    it('should round-trip floats exactly through the schedule serialization', () => {
+      const parsed = JSON.parse(canonicalizeEmissionsSchedule(schedule));
+      expect(parsed.totalEpochs).toBe(schedule.totalEpochs);
+      expect(parsed.params.cap).toBe('86000000000');
+      for (let i = 0; i < schedule.totalEpochs; i++) {
+        expect(Object.is(parsed.emissions[i], schedule.emissions[i])).toBe(true);
+      }
+      expect(parsed.milestones).toEqual(schedule.milestones);
+    });
+
+    it('should serialize integer amounts as decimal strings', () => {
+      const integer = buildIntegerEmissionsSchedule({ epochsPerYear: 4, earlyYears: 1, midYears: 1, tailYears: 1 }, {
+        decimals: 0,
+        deterministic: true
+      });
+      const parsed = JSON.parse(canonicalizeIntegerEmissionsSchedule(integer));
+      expect(parsed.totalSupply).toBe('86000000000');
+      expect(parsed.emissions).toEqual(integer.emissions.map(String));
+    });
+
+    it('should reject non-finite numbers', () => {
+      const broken = { ...DEFAULT_EMISSIONS_PARAMS, shapeMid: Number.NaN };
+      expect(() => canonicalizeEmissionsParams(broken)).toThrow('Invalid: canonical serialization requires finite numbers');
+    });
+  });
+
+  describe('sensitivity', () => {
+    it('should change when any parameter changes', () => {
+      const base = fingerprintEmissionsParams(DEFAULT_EMISSIONS_PARAMS);
+      const variants: EmissionsParams[] = [
+        { ...DEFAULT_EMISSIONS_PARAMS, cap: 86_000_000_001n },
+        { ...DEFAULT_EMISSIONS_PARAMS, epochsPerYear: 12 },
+        { ...DEFAULT_EMISSIONS_PARAMS, shapeTail: 1.2000000000000002 },
+        { ...DEFAULT_EMISSIONS_PARAMS, targets: { ...DEFAULT_EMISSIONS_PARAMS.targets, f80: 0.81 } }
+      ];
+      for (const v of variants) {
+        expect(fingerprintEmissionsParams(v)).not.toBe(base);
+      }
+    });
+
+    it('should serialize tagged weight shapes with kind first and distinguish them', () => {
+      const halving = { ...DEFAULT_EMISSIONS_PARAMS, shapeEarly: { kind: 'halving' as const, periods: 4 } };
+      expect(canonicalizeEmissionsParams(halving)).toContain(
+        '"shapeEarly":{"kind":"halving","periods":4}'
+      );
+      const logistic = {
+        ...DEFAULT_EMISSIONS_PARAMS,
+        shapeMid: { midpoint: 0.5, steepness: 8, kind: 'logistic' as const }
+      };
+      expect(canonicalizeEmissionsParams(logistic)).toContain(
+        '"shapeMid":{"kind":"logistic","steepness":8,"midpoint":0.5}'
+      );
+      const exponential = { ...DEFAULT_EMISSIONS_PARAMS, shapeEarly: { kind: 'exponential' as const, shape: 2 } };
+      const digests = new Set([
+        fingerprintEmissionsParams(DEFAULT_EMISSIONS_PARAMS),
+        fingerprintEmissionsParams(halving),
+        fingerprintEmissionsParams({ ...halving, shapeEarly: { kind: 'halving', periods: 5 } }),
+        fingerprintEmissionsParams(exponential)
+      ]);
+      expect(digests.size).toBe(4);
+    });
+
+    it('should distinguish params, schedule and integer-schedule digests', () => {
+      const integer = buildIntegerEmissionsSchedule({}, { deterministic: true });
+      const digests = new Set([
+        fingerprintEmissionsParams(schedule.params),
+        fingerprintEmissionsSchedule(schedule),
+        fingerprintIntegerEmissionsSchedule(integer)
+      ]);
+      expect(digests.size).toBe(3);
+    });
+  });
+});
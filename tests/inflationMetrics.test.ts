@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { buildEmissionsSchedule, getCumulativeEmissions } from '../src/emissions/emissionsSchedule';
+import { computeInflationMetrics } from '../src/emissions/inflationMetrics';
+import { buildIntegerEmissionsSchedule } from '../src/emissions/integerSchedule';
+import { buildSupplyModel } from '../src/emissions/supplyModel';
+import { projectUnlockedSupply, type VestingSchedule } from '../src/vesting/vesting';
+
+describe('Emissions Inflation Metrics', () => {
+  const schedule = buildEmissionsSchedule();
+  const epy = schedule.params.epochsPerYear;
+  const metrics = computeInflationMetrics(schedule);
+
+  it('should track cumulative emissions as circulating supply without adjustments', () => {
+    expect(metrics.epochs.circulating).toHaveLength(schedule.totalEpochs);
+    expect(metrics.epochs.circulating[207]).toBe(getCumulativeEmissions(schedule, 208));
+    expect(metrics.epochs.issuance).toEqual(schedule.emissions);
+    expect(metrics.epochs.netIssuance).toEqual(schedule.emissions);
+  });
+
+  it('should annualize epoch inflation against the starting supply', () => {
+    expect(metrics.epochs.annualizedInflation[0]).toBe(Infinity);
+    expect(metrics.epochs.annualizedInflation[1]).toBeCloseTo((schedule.emissions[1] * epy) / schedule.cumulative[0], 10);
+    expect(metrics.epochs.issuanceRate[1]).toBeCloseTo(schedule.emissions[1] / schedule.cumulative[0], 12);
+    expect(metrics.epochs.stockToFlow[1]).toBeCloseTo(schedule.cumulative[1] / (schedule.emissions[1] * epy), 10);
+  });
+
+  it('should aggregate schedule years', () => {
+    const years = Math.ceil(schedule.totalEpochs / epy);
+    expect(metrics.years.inflation).toHaveLength(years);
+    expect(metrics.years.inflation[0]).toBe(Infinity);
+    const year2 = schedule.emissions.slice(epy, 2 * epy).reduce((a, b) => a + b, 0);
+    expect(metrics.years.issuance[1]).toBeCloseTo(year2, 0);
+    expect(metrics.years.inflation[1]).toBeCloseTo(year2 / schedule.cumulative[epy - 1], 12);
+    expect(metrics.years.circulating[1]).toBe(metrics.epochs.circulating[2 * epy - 1]);
+    expect(metrics.years.stockToFlow[1]).toBeCloseTo(metrics.years.circulating[1] / year2, 10);
+  });
+
+  it('should decline over the schedule and peak early', () => {
+    const finite = metrics.years.inflation.slice(1);
+    expect(finite[finite.length - 1]).toBeLessThan(finite[0]);
+    expect(metrics.peak.year).toBe(2);
+    expect(metrics.peak.inflation).toBe(metrics.years.inflation[1]);
+    expect(metrics.peak.epoch).toBe(2);
+    expect(metrics.peak.annualizedInflation).toBe(Math.max(...metrics.epochs.annualizedInflation.slice(1)));
+  });
+
+  it('should annualize the flow of a partial final year', () => {
+    const partial = buildEmissionsSchedule({ earlyYears: 1.5 });
+    expect(partial.totalEpochs % epy).not.toBe(0);
+    const m = computeInflationMetrics(partial);
+    const last = m.years.stockToFlow.length - 1;
+    const epochsInYear = partial.totalEpochs - last * epy;
+    expect(m.years.stockToFlow[last]).toBeCloseTo(
+      m.years.circulating[last] / ((m.years.netIssuance[last] * epy) / epochsInYear),
+      8
+    );
+  });
+
+  it('should apply burn and vesting series', () => {
+    const vested = [0, 1_000_000_000];
+    const burned = [0, 0, 500_000_000];
+    const m = computeInflationMetrics(schedule, { burned, vested });
+    expect(m.epochs.circulating[1]).toBeCloseTo(schedule.cumulative[1] + 1e9, 0);
+    expect(m.epochs.issuance[1]).toBeCloseTo(schedule.emissions[1] + 1e9, 0);
+    expect(m.epochs.netIssuance[2]).toBeCloseTo(schedule.emissions[2] - 5e8, 0);
+    expect(m.epochs.circulating[2]).toBeCloseTo(schedule.cumulative[2] + 5e8, 0);
+    expect(m.epochs.annualizedInflation[2]).toBeCloseTo(
+      ((schedule.emissions[2] - 5e8) * epy) / m.epochs.circulating[1],
+      10
+    );
+  });
+
+  it('should accept bigint base-unit series', () => {
+    const unit = 10n ** 18n;
+    const m = computeInflationMetrics(schedule, {
+      vested: [0n, 1_000_000_000n * unit],
+      burned: [0n, 0n, 500_000_000n * unit + unit / 4n]
+    });
+    expect(m.epochs.issuance[1]).toBeCloseTo(schedule.emissions[1] + 1e9, 0);
+    expect(m.epochs.netIssuance[2]).toBeCloseTo(schedule.emissions[2] - 500_000_000.25, 4);
+    const small = computeInflationMetrics(schedule, { vested: [1_500_000n], decimals: 6 });
+    expect(small.epochs.issuance[0]).toBe(schedule.emissions[0] + 1.5);
+    expect(() => computeInflationMetrics(schedule, { vested: [-1n] })).toThrow(
+      'Invalid: vested amounts must be finite and non-negative'
+    );
+    expect(() => computeInflationMetrics(schedule, { vested: [1n], decimals: 1.5 })).toThrow(
+      'Invalid: decimals must be a non-negative integer'
+    );
+  });
+
+  it('should take flows differenced from supply-model and vesting projections', () => {
+    const units = buildIntegerEmissionsSchedule();
+    const unit = 10n ** 18n;
+    const model = buildSupplyModel(units, {
+      burns: [
+        { epoch: 10, amount: 2_000_000n * unit },
+        { epoch: 60, amount: 5_000_000n * unit }
+      ]
+    });
+    const team: VestingSchedule = { kind: 'linear', total: 10n ** 27n, start: 1, durationEpochs: 208, cliffEpochs: 52 };
+    const projection = projectUnlockedSupply(units, [team], units.totalEpochs);
+    const flows = (cumulative: bigint[]) => cumulative.map((c, i) => c - (i === 0 ? 0n : cumulative[i - 1]));
+    const m = computeInflationMetrics(schedule, { burned: flows(model.burned), vested: flows(projection.vested) });
+    for (const epoch of [10, 52, 60, 300, schedule.totalEpochs]) {
+      const expected = Number(projection.unlocked[epoch - 1] - model.burned[epoch - 1]) / 1e18;
+      expect(m.epochs.circulating[epoch - 1] / expected).toBeCloseTo(1, 12);
+    }
+  });
+
+  it('should report a net-deflationary epoch with negative inflation', () => {
+    const burned = new Array(schedule.totalEpochs).fill(0);
+    burned[519] = schedule.emissions[519] * 2;
+    const m = computeInflationMetrics(schedule, { burned });
+    expect(m.epochs.netIssuance[519]).toBeLessThan(0);
+    expect(m.epochs.annualizedInflation[519]).toBeLessThan(0);
+    expect(m.epochs.stockToFlow[519]).toBe(Infinity);
+  });
+
+  it('should reject invalid series', () => {
+    expect(() => computeInflationMetrics(schedule, { burned: [schedule.emissions[0] * 2] })).toThrow(
+      'Invalid: burns exceed circulating supply at epoch 1'
+    );
+    expect(() => computeInflationMetrics(schedule, { vested: [-1] })).toThrow(
+      'Invalid: vested amounts must be finite and non-negative'
+    );
+    expect(() => computeInflationMetrics(schedule, { burned: new Array(schedule.totalEpochs + 1).fill(0) })).toThrow(
+      'Invalid: burned series is longer than the schedule'
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildEmissionsSchedule,
+  DEFAULT_EMISSIONS_PARAMS
+} from '../src/emissions/emissionsSchedule';
+import {
+  DEFAULT_EMISSIONS_DECIMALS,
+  largestRemainderAllocation,
+  toIntegerEmissionsSchedule,
+  buildIntegerEmissionsSchedule,
+  getEpochEmissionUnits,
+  getCumulativeEmissionsUnits,
+  getRemainingSupplyUnits
+} from '../src/emissions/integerSchedule';
+import golden from './goldens/emissions.golden.json';
+
+/** Exact bigint sum. */
+function sum(xs: bigint[]): bigint {
+  return xs.reduce((acc, x) => acc + x, 0n);
+}
+
+describe('Integer Emissions Schedule', () => {
+  // Build once — construction is pure; deterministic mode makes the golden pins engine-independent.
+  const schedule = buildIntegerEmissionsSchedule({}, { deterministic: true });
+  const smallParams = {
+    cap: 1_000_000n,
+    epochsPerYear: 4,
+    earlyYears: 1,
+    midYears: 1,
+    tailYears: 1
+  };
+
+  describe('golden vectors (exact integer pins)', () => {
+    it('should match the small-schedule golden vectors at decimals 0 and 18', () => {
+      const g = golden.integerSchedule;
+      const s0 = buildIntegerEmissionsSchedule(smallParams, { decimals: 0 });
+      const s18 = buildIntegerEmissionsSchedule(smallParams, { decimals: 18 });
+      expect(s0.emissions.map(String)).toEqual(g.smallDecimals0);
+      expect(s18.emissions.map(String)).toEqual(g.smallDecimals18);
+    });
+
+    it('should match the default-schedule golden vector at decimals 18', () => {
+      const g = golden.integerSchedule.defaultDecimals18;
+      expect(schedule.totalSupply.toString()).toBe(g.totalSupply);
+      for (const [epochStr, expected] of Object.entries(g.emissionsAtEpochs)) {
+        expect(schedule.emissions[Number(epochStr) - 1].toString()).toBe(expected);
+      }
+      for (const [epochStr, expected] of Object.entries(g.cumulativeAtEpochs)) {
+        expect(schedule.cumulative[Number(epochStr) - 1].toString()).toBe(expected);
+      }
+    });
+  });
+
+  describe('exact cap conservation', () => {
+    it('should default to 18 decimals and scale the cap to base units', () => {
+      expect(DEFAULT_EMISSIONS_DECIMALS).toBe(18);
+      expect(schedule.decimals).toBe(18);
+      expect(schedule.totalSupply).toBe(DEFAULT_EMISSIONS_PARAMS.cap * 10n ** 18n);
+    });
+
+    it('should sum exactly to the scaled cap for a range of decimals and cadences', () => {
+      for (const decimals of [0, 6, 9, 18]) {
+        for (const epochsPerYear of [4, 12, 52]) {
+          const s = buildIntegerEmissionsSchedule({ epochsPerYear }, { decimals });
+          expect(sum(s.emissions)).toBe(s.totalSupply);
+          expect(s.cumulative[s.totalEpochs - 1]).toBe(s.totalSupply);
+        }
+      }
+    });
+
+    it('should stay within one base unit of the exact float-weighted quota', () => {
+      const float = buildEmissionsSchedule(smallParams);
+      const s = toIntegerEmissionsSchedule(float, 0);
+      const floatTotal = float.emissions.reduce((acc, e) => acc + e, 0);
+      for (let i = 0; i < s.totalEpochs; i++) {
+        const quota = (float.emissions[i] / floatTotal) * 1_000_000;
+        expect(Math.abs(Number(s.emissions[i]) - quota)).toBeLessThan(1);
+      }
+    });
+
+    it('should keep the cumulative series consistent with the per-epoch amounts', () => {
+      let running = 0n;
+      for (let i = 0; i < schedule.totalEpochs; i++) {
+        running += schedule.emissions[i];
+        expect(schedule.cumulative[i]).toBe(running);
+      }
+    });
+
+    it('should be bit-identical across repeated builds', () => {
+      const again = buildIntegerEmissionsSchedule({}, { deterministic: true });
+      expect(again.emissions).toEqual(schedule.emissions);
+    });
+
+    it('should reject invalid decimals', () => {
+      expect(() => buildIntegerEmissionsSchedule({}, { decimals: -1 })).toThrow(
+        'Invalid: decimals must be a non-negative integer'
+      );
+      expect(() => buildIntegerEmissionsSchedule({}, { decimals: 1.5 })).toThrow(
+        'Invalid: decimals must be a non-negative integer'
+      );
+    });
+  });
+
+  describe('largestRemainderAllocation', () => {
+    it('should split evenly divisible totals without residue', () => {
+      expect(largestRemainderAllocation(9n, [1, 1, 1])).toEqual([3n, 3n, 3n]);
+    });
+
+    it('should hand the residue to the largest remainders', () => {
+      // Quotas: 10 * [0.5, 0.3, 0.2] / 1.0 -> exact 5 / 3 / 2
+      expect(largestRemainderAllocation(10n, [0.5, 0.3, 0.2])).toEqual([5n, 3n, 2n]);
+      // Quotas: 7 * [3, 2, 2] / 7 -> 3 / 2 / 2
+      expect(largestRemainderAllocation(7n, [3, 2, 2])).toEqual([3n, 2n, 2n]);
+      // Quotas: 5 * [1, 2] / 3 -> 1.667 / 3.333: floor 1 / 3, residue to index 0
+      expect(largestRemainderAllocation(5n, [1, 2])).toEqual([2n, 3n]);
+    });
+
+    it('should break remainder ties by the lower index', () => {
+      expect(largestRemainderAllocation(2n, [1, 1, 1])).toEqual([1n, 1n, 0n]);
+      expect(largestRemainderAllocation(1n, [1, 1, 1, 1])).toEqual([1n, 0n, 0n, 0n]);
+    });
+
+    it('should hand the whole residue to residueIndex when given', () => {
+      // Floors 3 / 3 / 3, residue 1
+      expect(largestRemainderAllocation(10n, [1, 1, 1], { residueIndex: 2 })).toEqual([3n, 3n, 4n]);
+      expect(largestRemainderAllocation(5n, [1, 2], { residueIndex: 1 })).toEqual([1n, 4n]);
+      expect(() => largestRemainderAllocation(5n, [1, 2], { residueIndex: 2 })).toThrow(
+        'Invalid: residueIndex must be an index into weights'
+      );
+    });
+
+    it('should handle more weights than the engine accepts as call arguments', () => {
+      const weights = new Array<number>(500_000).fill(1);
+      weights[0] = 0.5;
+      const allocations = largestRemainderAllocation(10n ** 24n, weights);
+      expect(allocations.reduce((sum, a) => sum + a, 0n)).toBe(10n ** 24n);
+    });
+
+    it('should never allocate to zero weights', () => {
+      expect(largestRemainderAllocation(5n, [0, 1, 0, 1])).toEqual([0n, 3n, 0n, 2n]);
+    });
+
+    it('should interpret weights exactly (1/3 as a float64 is not exactly 1/3)', () => {
+      const allocation = largestRemainderAllocation(3n * 10n ** 30n, [1 / 3, 1 / 3, 1 / 3]);
+      expect(sum(allocation)).toBe(3n * 10n ** 30n);
+      expect(allocation).toEqual([10n ** 30n, 10n ** 30n, 10n ** 30n]);
+    });
+
+    it('should reject invalid inputs', () => {
+      expect(() => largestRemainderAllocation(-1n, [1])).toThrow('Invalid: total must be non-negative');
+      expect(() => largestRemainderAllocation(1n, [1, -1])).toThrow('Invalid: weights must be finite');
+      expect(() => largestRemainderAllocation(1n, [Number.NaN])).toThrow('Invalid: weights must be finite');
+      expect(() => largestRemainderAllocation(1n, [0, 0])).toThrow('Invalid: at least one weight');
+      expect(() => largestRemainderAllocation(1n, [])).toThrow('Invalid: at least one weight');
+    });
+  });
+
+  describe('getters (same clamping semantics as the float schedule)', () => {
+    it('should return 0n outside the schedule for getEpochEmissionUnits', () => {
+      expect(getEpochEmissionUnits(schedule, 0)).toBe(0n);
+      expect(getEpochEmissionUnits(schedule, schedule.totalEpochs + 1)).toBe(0n);
+      expect(getEpochEmissionUnits(schedule, 1)).toBe(schedule.emissions[0]);
+    });
+
+    it('should clamp getCumulativeEmissionsUnits to [0, totalSupply]', () => {
+      expect(getCumulativeEmissionsUnits(schedule, 0)).toBe(0n);
+      expect(getCumulativeEmissionsUnits(schedule, 1)).toBe(schedule.emissions[0]);
+      expect(getCumulativeEmissionsUnits(schedule, schedule.totalEpochs)).toBe(schedule.totalSupply);
+      expect(getCumulativeEmissionsUnits(schedule, schedule.totalEpochs + 5)).toBe(schedule.totalSupply);
+    });
+
+    it('should clamp getRemainingSupplyUnits at 0n', () => {
+      expect(getRemainingSupplyUnits(schedule, 0n)).toBe(schedule.totalSupply);
+      expect(getRemainingSupplyUnits(schedule, 1n)).toBe(schedule.totalSupply - 1n);
+      expect(getRemainingSupplyUnits(schedule, schedule.totalSupply + 1n)).toBe(0n);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { buildIntegerEmissionsSchedule } from '../src/emissions/integerSchedule';
+import {
+  buildEmissionsMerkleTree,
+  emissionsMerkleLeaf,
+  getEmissionsMerkleProof,
+  verifyEmissionsMerkleProof
+} from '../src/emissions/merkle';
+import { sha256, toHex } from '../src/hashing/sha256';
+import golden from './goldens/emissions.golden.json';
+
+describe('Emissions Merkle Commitment', () => {
+  const small = buildIntegerEmissionsSchedule(
+    { cap: 1_000_000n, epochsPerYear: 4, earlyYears: 1, midYears: 1, tailYears: 1 },
+    { decimals: 0 }
+  );
+  const smallTree = buildEmissionsMerkleTree(small);
+
+  describe('golden roots', () => {
+    it('should match the golden root of the default schedule', () => {
+      const units = buildIntegerEmissionsSchedule({}, { decimals: 18, deterministic: true });
+      expect(buildEmissionsMerkleTree(units).root).toBe(golden.merkleRoots.defaultDecimals18);
+    });
+
+    it('should match the golden root and proof of the small schedule', () => {
+      expect(smallTree.root).toBe(golden.merkleRoots.smallDecimals0);
+      expect(getEmissionsMerkleProof(smallTree, 5)).toEqual(golden.merkleRoots.smallDecimals0ProofEpoch5);
+    });
+  });
+
+  describe('leaf encoding', () => {
+    it('should double-hash the ABI-packed epoch and amount', () => {
+      const packed = new Uint8Array(64);
+      packed[31] = 3;
+      packed[62] = 0x01;
+      packed[63] = 0x02;
+      expect(emissionsMerkleLeaf(3, 0x0102n)).toBe(`0x${toHex(sha256(sha256(packed)))}`);
+    });
+
+    it('should reject leaves that do not fit the encoding', () => {
+      expect(() => emissionsMerkleLeaf(0, 1n)).toThrow('Invalid: epoch must be a positive integer');
+      expect(() => emissionsMerkleLeaf(1, -1n)).toThrow('Invalid: amount must fit in uint256');
+      expect(() => emissionsMerkleLeaf(1, 1n << 256n)).toThrow('Invalid: amount must fit in uint256');
+    });
+  });
+
+  describe('proofs', () => {
+    it('should verify every epoch of a small schedule (odd levels promoted)', () => {
+      expect(smallTree.leafCount).toBe(12);
+      expect(smallTree.layers.map(l => l.length)).toEqual([12, 6, 3, 2, 1]);
+      for (let epoch = 1; epoch <= small.totalEpochs; epoch++) {
+        const proof = getEmissionsMerkleProof(smallTree, epoch);
+        expect(verifyEmissionsMerkleProof(smallTree.root, epoch, small.emissions[epoch - 1], proof)).toBe(true);
+      }
+    });
+
+    it('should verify sampled epochs of the default schedule', () => {
+      const units = buildIntegerEmissionsSchedule();
+      const tree = buildEmissionsMerkleTree(units);
+      for (const epoch of [1, 208, 1456, 2755, 2756]) {
+        const proof = getEmissionsMerkleProof(tree, epoch);
+        expect(proof.length).toBeLessThanOrEqual(12);
+        expect(verifyEmissionsMerkleProof(tree.root, epoch, units.emissions[epoch - 1], proof)).toBe(true);
+      }
+    });
+
+    it('should reject wrong amounts, epochs and proofs', () => {
+      const proof = getEmissionsMerkleProof(smallTree, 5);
+      const amount = small.emissions[4];
+      expect(verifyEmissionsMerkleProof(smallTree.root, 5, amount + 1n, proof)).toBe(false);
+      expect(verifyEmissionsMerkleProof(smallTree.root, 6, amount, proof)).toBe(false);
+      expect(verifyEmissionsMerkleProof(smallTree.root, 5, amount, proof.slice(1))).toBe(false);
+      expect(verifyEmissionsMerkleProof(smallTree.root.toUpperCase().replace('0X', '0x'), 5, amount, proof)).toBe(true);
+    });
+
+    it('should handle a single-epoch schedule', () => {
+      const one = { ...small, totalEpochs: 1, emissions: [7n], cumulative: [7n] };
+      const tree = buildEmissionsMerkleTree(one);
+      expect(tree.root).toBe(emissionsMerkleLeaf(1, 7n));
+      expect(getEmissionsMerkleProof(tree, 1)).toEqual([]);
+    });
+
+    it('should reject invalid inputs', () => {
+      expect(() => getEmissionsMerkleProof(smallTree, 13)).toThrow('Invalid: epoch must be an integer in 1..leafCount');
+      expect(() => verifyEmissionsMerkleProof('0x1234', 1, 1n, [])).toThrow(
+        'Invalid: hashes must be 0x-prefixed 32-byte hex'
+      );
+      expect(() => buildEmissionsMerkleTree({ ...small, totalEpochs: 0, emissions: [], cumulative: [] })).toThrow(
+        'Invalid: schedule must have at least one epoch'
+      );
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { buildEmissionsSchedule, getCumulativeEmissions } from '../src/emissions/emissionsSchedule';
+import {
+  getEmissionsInRange,
+  getEmissionsInYear,
+  getEpochForFraction,
+  getYearlyEmissions
+} from '../src/emissions/rangeQueries';
+
+/** Reference loop over the per-epoch emissions (what callers did before). */
+function loopSum(emissions: number[], from: number, to: number): number {
+  let total = 0;
+  for (let epoch = Math.max(1, from); epoch <= Math.min(emissions.length, to); epoch++) {
+    total += emissions[epoch - 1];
+  }
+  return total;
+}
+
+describe('Emissions Range Queries', () => {
+  const schedule = buildEmissionsSchedule();
+  const cap = 86e9;
+
+  describe('getEmissionsInRange', () => {
+    it('should match a loop over the per-epoch emissions', () => {
+      for (const [from, to] of [[300, 520], [1, 1], [1, 208], [209, 1456], [2000, 2756], [5, 2700]]) {
+        const expected = loopSum(schedule.emissions, from, to);
+        expect(Math.abs(getEmissionsInRange(schedule, from, to) - expected) / expected).toBeLessThan(1e-9);
+      }
+    });
+
+    it('should use the cumulative clamping at both ends', () => {
+      expect(getEmissionsInRange(schedule, 1, schedule.totalEpochs)).toBe(cap);
+      expect(getEmissionsInRange(schedule, -10, 5000)).toBe(cap);
+      expect(getEmissionsInRange(schedule, -10, 0)).toBe(0);
+      expect(getEmissionsInRange(schedule, 2757, 3000)).toBe(0);
+      expect(getEmissionsInRange(schedule, 1, 208)).toBe(schedule.cumulative[207]);
+    });
+
+    it('should be additive over adjacent ranges', () => {
+      const whole = getEmissionsInRange(schedule, 100, 900);
+      const split = getEmissionsInRange(schedule, 100, 400) + getEmissionsInRange(schedule, 401, 900);
+      expect(split).toBeCloseTo(whole, 2);
+    });
+
+    it('should reject invalid ranges', () => {
+      expect(() => getEmissionsInRange(schedule, 10, 9)).toThrow('Invalid: range end must not precede its start');
+      expect(() => getEmissionsInRange(schedule, 1.5, 9)).toThrow('Invalid: range epochs must be integers');
+    });
+  });
+
+  describe('per-year aggregation', () => {
+    it('should sum each schedule year and cover the whole cap', () => {
+      const yearly = getYearlyEmissions(schedule);
+      expect(yearly).toHaveLength(53);
+      expect(yearly[0]).toBe(schedule.cumulative[51]);
+      expect(yearly[9]).toBe(getEmissionsInYear(schedule, 10));
+      expect(Math.abs(yearly.reduce((a, b) => a + b, 0) - cap) / cap).toBeLessThan(1e-12);
+      // Years 1-4 are the early phase
+      expect(yearly.slice(0, 4).reduce((a, b) => a + b, 0) / cap).toBeCloseTo(schedule.params.targets.f33, 9);
+    });
+
+    it('should include a partial final year and return 0 past the schedule', () => {
+      const monthly = buildEmissionsSchedule({ epochsPerYear: 12, earlyYears: 1.5 });
+      const yearly = getYearlyEmissions(monthly);
+      expect(monthly.totalEpochs).toBe(606);
+      expect(yearly).toHaveLength(51);
+      expect(yearly[50]).toBe(getEmissionsInRange(monthly, 601, 606));
+      expect(getEmissionsInYear(schedule, 54)).toBe(0);
+      expect(() => getEmissionsInYear(schedule, 0)).toThrow('Invalid: year must be a positive integer');
+    });
+  });
+
+  describe('getEpochForFraction', () => {
+    it('should reproduce the fixed milestones', () => {
+      const { f33, f80 } = schedule.params.targets;
+      expect(getEpochForFraction(schedule, f33)).toBe(schedule.milestones.epochTo33Pct);
+      expect(getEpochForFraction(schedule, f80)).toBe(schedule.milestones.epochTo80Pct);
+      expect(getEpochForFraction(schedule, 1)).toBe(schedule.totalEpochs);
+    });
+
+    it('should return the first epoch reaching any fraction', () => {
+      for (const fraction of [1e-9, 0.01, 0.25, 0.5, 0.6180339, 0.9, 0.999999]) {
+        const epoch = getEpochForFraction(schedule, fraction);
+        expect(getCumulativeEmissions(schedule, epoch)).toBeGreaterThanOrEqual(fraction * cap);
+        expect(getCumulativeEmissions(schedule, epoch - 1)).toBeLessThan(fraction * cap);
+      }
+      expect(getEpochForFraction(schedule, 0)).toBe(0);
+    });
+
+    it('should reject fractions outside [0, 1]', () => {
+      expect(() => getEpochForFraction(schedule, 1.01)).toThrow('Invalid: fraction must be in [0, 1]');
+      expect(() => getEpochForFraction(schedule, NaN)).toThrow('Invalid: fraction must be in [0, 1]');
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { buildIntegerEmissionsSchedule } from '../src/emissions/integerSchedule';
+import {
+  reconcileMints,
+  type CatchUpPolicy,
+  type MintRecord
+} from '../src/emissions/reconciliation';
+
+describe('Emissions Mint Reconciliation', () => {
+  const schedule = buildIntegerEmissionsSchedule();
+  const s = (epoch: number): bigint => schedule.emissions[epoch - 1];
+
+  /** Mint exactly the schedule for the given epochs. */
+  const onSchedule = (epochs: number[]): MintRecord[] => epochs.map(epoch => ({ epoch, amount: s(epoch) }));
+
+  describe('on-schedule minting', () => {
+    it('should report no deficit or surplus and allow the next scheduled amount', () => {
+      const r = reconcileMints(schedule, onSchedule([1, 2, 3, 4, 5]), 5);
+      expect(r.epochs).toHaveLength(5);
+      for (const e of r.epochs) {
+        expect(e.allowance).toBe(e.scheduled);
+        expect(e.deficit).toBe(0n);
+        expect(e.surplus).toBe(0n);
+        expect(e.excess).toBe(0n);
+      }
+      expect(r.cumulativeMinted).toBe(schedule.cumulative[4]);
+      expect(r.nextEpoch).toBe(6);
+      expect(r.nextAllowance).toBe(s(6));
+    });
+
+    it('should allow the first epoch with an empty history', () => {
+      const r = reconcileMints(schedule, [], 0);
+      expect(r.epochs).toEqual([]);
+      expect(r.nextAllowance).toBe(s(1));
+    });
+
+    it('should sum several records in one epoch', () => {
+      const half = s(1) / 2n;
+      const r = reconcileMints(schedule, [{ epoch: 1, amount: half }, { epoch: 1, amount: s(1) - half }], 1);
+      expect(r.epochs[0].minted).toBe(s(1));
+      expect(r.deficit).toBe(0n);
+    });
+  });
+
+  describe('catch-up policies', () => {
+    // Epochs 2 and 3 missed, then reconciled through epoch 3
+    const history = onSchedule([1]);
+
+    it('immediate: should allow the whole backlog in the next epoch', () => {
+      const r = reconcileMints(schedule, history, 3, { kind: 'immediate' });
+      expect(r.deficit).toBe(s(2) + s(3));
+      expect(r.nextAllowance).toBe(s(2) + s(3) + s(4));
+      // Allowance equals the cumulative headroom exactly
+      expect(r.cumulativeMinted + r.nextAllowance).toBe(schedule.cumulative[3]);
+    });
+
+    it('spread: should release each shortfall linearly over N epochs', () => {
+      const policy: CatchUpPolicy = { kind: 'spread', epochs: 4 };
+      const r = reconcileMints(schedule, history, 3, policy);
+      expect(r.deficit).toBe(s(2) + s(3));
+      // Epoch 4: shortfall of epoch 2 is 2/4 released, shortfall of epoch 3 is 1/4 released
+      expect(r.nextAllowance).toBe(s(4) + (s(2) * 2n) / 4n + s(3) / 4n);
+
+      // Minting every allowance clears the backlog exactly after N epochs
+      const full: MintRecord[] = [...history];
+      for (let epoch = 4; epoch <= 7; epoch++) {
+        const step = reconcileMints(schedule, full, epoch - 1, policy);
+        full.push({ epoch, amount: step.nextAllowance });
+      }
+      const done = reconcileMints(schedule, full, 7, policy);
+      expect(done.deficit).toBe(0n);
+      expect(done.cumulativeMinted).toBe(schedule.cumulative[6]);
+    });
+
+    it('spread: should keep released but unminted amounts available', () => {
+      const policy: CatchUpPolicy = { kind: 'spread', epochs: 2 };
+      const r = reconcileMints(schedule, onSchedule([1, 3, 4]), 4, policy);
+      // Epoch 2 missed; its release in epochs 3-4 was not minted, so all of it is available
+      expect(r.nextAllowance).toBe(s(5) + s(2));
+    });
+
+    it('forfeit: should drop missed amounts and allow only the scheduled amount', () => {
+      const r = reconcileMints(schedule, history, 3, { kind: 'forfeit' });
+      expect(r.forfeited).toBe(s(2) + s(3));
+      expect(r.deficit).toBe(0n);
+      expect(r.nextAllowance).toBe(s(4));
+    });
+
+    it('should treat a partial mint as a partial shortfall', () => {
+      const r = reconcileMints(schedule, [{ epoch: 1, amount: s(1) - 1000n }], 1, { kind: 'forfeit' });
+      expect(r.forfeited).toBe(1000n);
+      const immediate = reconcileMints(schedule, [{ epoch: 1, amount: s(1) - 1000n }], 1);
+      expect(immediate.nextAllowance).toBe(s(2) + 1000n);
+    });
+  });
+
+  describe('ahead of schedule', () => {
+    it('should report surplus and excess and reduce later allowances', () => {
+      const r = reconcileMints(schedule, [{ epoch: 1, amount: s(1) + 500n }], 1);
+      expect(r.epochs[0].excess).toBe(500n);
+      expect(r.surplus).toBe(500n);
+      expect(r.nextAllowance).toBe(s(2) - 500n);
+    });
+
+    it('should absorb a later shortfall with an earlier surplus', () => {
+      const r = reconcileMints(
+        schedule,
+        [{ epoch: 1, amount: s(1) + 500n }, { epoch: 2, amount: s(2) - 200n }],
+        2,
+        { kind: 'forfeit' }
+      );
+      expect(r.forfeited).toBe(0n);
+      expect(r.surplus).toBe(300n);
+    });
+  });
+
+  describe('cumulative invariant', () => {
+    it('should never allow minting past the cumulative schedule under any policy', () => {
+      const policies: CatchUpPolicy[] = [
+        { kind: 'immediate' },
+        { kind: 'spread', epochs: 3 },
+        { kind: 'spread', epochs: 13 },
+        { kind: 'forfeit' }
+      ];
+      for (const policy of policies) {
+        // Mint the full allowance on a deterministic subset of epochs
+        const history: MintRecord[] = [];
+        for (let epoch = 1; epoch <= 60; epoch++) {
+          const step = reconcileMints(schedule, history, epoch - 1, policy);
+          if (epoch % 3 !== 0 && epoch % 7 !== 0) {
+            history.push({ epoch, amount: step.nextAllowance });
+          }
+        }
+        const r = reconcileMints(schedule, history, 60, policy);
+        for (const e of r.epochs) {
+          expect(e.excess).toBe(0n);
+          expect(e.cumulativeMinted).toBeLessThanOrEqual(e.cumulativeScheduled - e.forfeited);
+          expect(e.cumulativeMinted + e.deficit + e.forfeited).toBe(e.cumulativeScheduled);
+        }
+      }
+    });
+
+    it('should allow only the remaining backlog after the schedule ends', () => {
+      const end = schedule.totalEpochs;
+      const history = onSchedule(Array.from({ length: end - 1 }, (_, i) => i + 1));
+      const r = reconcileMints(schedule, history, end + 2);
+      expect(r.deficit).toBe(s(end));
+      expect(r.nextAllowance).toBe(s(end));
+      expect(r.cumulativeMinted + r.nextAllowance).toBe(schedule.totalSupply);
+    });
+  });
+
+  describe('input validation', () => {
+    it('should reject invalid policies, epochs and amounts', () => {
+      expect(() => reconcileMints(schedule, [], -1)).toThrow('Invalid: throughEpoch must be a non-negative integer');
+      expect(() => reconcileMints(schedule, [], 1, { kind: 'spread', epochs: 0 })).toThrow(
+        'Invalid: spread epochs must be a positive integer'
+      );
+      expect(() => reconcileMints(schedule, [], 1, { kind: 'later' } as unknown as CatchUpPolicy)).toThrow(
+        'Invalid: unknown catch-up policy kind'
+      );
+      expect(() => reconcileMints(schedule, [{ epoch: 3, amount: 1n }], 2)).toThrow(
+        'Invalid: mint epoch must be an integer in 1..throughEpoch'
+      );
+      expect(() => reconcileMints(schedule, [{ epoch: 1, amount: -1n }], 2)).toThrow(
+        'Invalid: mint amount must be non-negative'
+      );
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { buildEmissionsSchedule } from '../src/emissions/emissionsSchedule';
+import { buildIntegerEmissionsSchedule } from '../src/emissions/integerSchedule';
+import {
+  reparameterizeEmissionsSchedule,
+  reparameterizeIntegerEmissionsSchedule,
+  spliceEmissionsSchedules
+} from '../src/emissions/reparameterize';
+
+describe('Emissions Re-parameterization', () => {
+  const current = buildEmissionsSchedule();
+  const cap = Number(current.params.cap);
+
+  describe('reparameterizeEmissionsSchedule', () => {
+    it('should keep epochs 1..N and re-spread the remaining supply', () => {
+      const switched = reparameterizeEmissionsSchedule(current, 300, { shapeMid: 3.0 });
+      expect(switched.emissions.slice(0, 300)).toEqual(current.emissions.slice(0, 300));
+      expect(switched.cumulative[299]).toBe(current.cumulative[299]);
+      expect(switched.emissions[300]).not.toBe(current.emissions[300]);
+      expect(switched.params.shapeMid).toBe(3.0);
+      expect(switched.params.shapeEarly).toBe(current.params.shapeEarly);
+      const total = switched.emissions.reduce((sum, e) => sum + e, 0);
+      expect(total / cap).toBeCloseTo(1, 12);
+    });
+
+    it('should follow the new curve proportionally after the switch', () => {
+      const next = buildEmissionsSchedule({ shapeMid: 3.0 });
+      const switched = reparameterizeEmissionsSchedule(current, 300, { shapeMid: 3.0 });
+      const ratio = switched.emissions[300] / next.emissions[300];
+      for (const epoch of [400, 1000, 2000, 2756]) {
+        expect(switched.emissions[epoch - 1] / next.emissions[epoch - 1]).toBeCloseTo(ratio, 10);
+      }
+    });
+
+    it('should adopt new durations and recompute milestones', () => {
+      const switched = reparameterizeEmissionsSchedule(current, 520, { tailYears: 35 });
+      expect(switched.totalEpochs).toBe(current.totalEpochs + 520);
+      expect(switched.milestones.epochTo33Pct).toBe(current.milestones.epochTo33Pct);
+      const target80 = cap * switched.params.targets.f80;
+      expect(switched.milestones.epochTo80Pct).toBe(switched.cumulative.findIndex(c => c >= target80) + 1);
+      expect(switched.milestones.yearsTo80Pct).toBe(switched.milestones.epochTo80Pct / 52);
+    });
+
+    it('should rebuild from scratch at switch epoch 0 with unchanged params', () => {
+      const switched = reparameterizeEmissionsSchedule(current, 0, {});
+      expect(switched.totalEpochs).toBe(current.totalEpochs);
+      switched.emissions.forEach((e, i) => expect(e / current.emissions[i]).toBeCloseTo(1, 12));
+    });
+
+    it('should raise the cap by spreading the extra supply over the remainder', () => {
+      const switched = reparameterizeEmissionsSchedule(current, 104, { cap: 100_000_000_000n });
+      expect(switched.emissions.slice(0, 104)).toEqual(current.emissions.slice(0, 104));
+      const total = switched.emissions.reduce((sum, e) => sum + e, 0);
+      expect(total / 100_000_000_000).toBeCloseTo(1, 12);
+    });
+  });
+
+  describe('reparameterizeIntegerEmissionsSchedule', () => {
+    const units = buildIntegerEmissionsSchedule();
+
+    it('should keep epochs 1..N and sum exactly to the cap', () => {
+      const switched = reparameterizeIntegerEmissionsSchedule(units, 300, { shapeMid: 3.0, tailYears: 30 });
+      expect(switched.emissions.slice(0, 300)).toEqual(units.emissions.slice(0, 300));
+      expect(switched.totalEpochs).toBe(units.totalEpochs + 5 * 52);
+      expect(switched.emissions.reduce((acc, e) => acc + e, 0n)).toBe(units.totalSupply);
+      expect(switched.cumulative[switched.totalEpochs - 1]).toBe(units.totalSupply);
+      expect(switched.decimals).toBe(units.decimals);
+    });
+
+    it('should scale a new cap by the schedule decimals', () => {
+      const small = buildIntegerEmissionsSchedule({}, { decimals: 6 });
+      const switched = reparameterizeIntegerEmissionsSchedule(small, 52, { cap: 90_000_000_000n });
+      expect(switched.totalSupply).toBe(90_000_000_000n * 10n ** 6n);
+      expect(switched.emissions.reduce((acc, e) => acc + e, 0n)).toBe(switched.totalSupply);
+    });
+
+    // 464,280 epochs: more than a spread call can pass as arguments
+    it('should handle hourly cadences', () => {
+      const hourly = buildIntegerEmissionsSchedule({ epochsPerYear: 8760 });
+      const switched = reparameterizeIntegerEmissionsSchedule(hourly, 100, { shapeMid: 2 });
+      expect(switched.totalEpochs).toBe(hourly.totalEpochs);
+      expect(switched.emissions.slice(0, 100)).toEqual(hourly.emissions.slice(0, 100));
+      expect(switched.cumulative[switched.totalEpochs - 1]).toBe(hourly.totalSupply);
+    }, 30_000);
+  });
+
+  describe('spliceEmissionsSchedules', () => {
+    it('should splice a pre-built schedule after the switch epoch', () => {
+      const next = buildEmissionsSchedule({ shapeTail: 2.0 });
+      const spliced = spliceEmissionsSchedules(current, next, 1500);
+      expect(spliced.emissions.slice(0, 1500)).toEqual(current.emissions.slice(0, 1500));
+      expect(spliced.params).toBe(next.params);
+    });
+  });
+
+  describe('input validation', () => {
+    it('should reject invalid switch epochs and caps', () => {
+      expect(() => reparameterizeEmissionsSchedule(current, -1, {})).toThrow(
+        'Invalid: switchEpoch must be an integer before the end of the new schedule'
+      );
+      expect(() => reparameterizeEmissionsSchedule(current, current.totalEpochs, {})).toThrow(
+        'Invalid: switchEpoch must be an integer before the end of the new schedule'
+      );
+      expect(() => reparameterizeEmissionsSchedule(current, 1000, { cap: 1_000_000n })).toThrow(
+        'Invalid: new cap must cover the supply already emitted'
+      );
+      expect(() =>
+        reparameterizeIntegerEmissionsSchedule(buildIntegerEmissionsSchedule(), 1000, { cap: 1_000_000n })
+      ).toThrow('Invalid: new cap must cover the supply already emitted');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { buildIntegerEmissionsSchedule } from '../src/emissions/integerSchedule';
+import {
+  getEpochRewardSplit,
+  splitRewardPool,
+  type RewardBucket,
+  type RewardRemainderPolicy
+} from '../src/emissions/rewardPool';
+
+const BUCKETS: RewardBucket[] = [
+  { name: 'validators', weight: 0.4 },
+  { name: 'signalProviders', weight: 0.3 },
+  { name: 'treasury', weight: 0.2 },
+  { name: 'ecosystem', weight: 0.1 }
+];
+
+function total(allocations: { amount: bigint }[]): bigint {
+  return allocations.reduce((acc, a) => acc + a.amount, 0n);
+}
+
+describe('Emissions Reward Pool Split', () => {
+  const schedule = buildIntegerEmissionsSchedule();
+
+  describe('splitRewardPool', () => {
+    it('should split proportionally and sum exactly to the pool', () => {
+      const split = splitRewardPool(1_000n, BUCKETS);
+      expect(split).toEqual([
+        { name: 'validators', amount: 400n },
+        { name: 'signalProviders', amount: 300n },
+        { name: 'treasury', amount: 200n },
+        { name: 'ecosystem', amount: 100n }
+      ]);
+      for (const pool of [0n, 1n, 7n, 999_999_999_999n, schedule.emissions[0]]) {
+        expect(total(splitRewardPool(pool, BUCKETS))).toBe(pool);
+      }
+    });
+
+    it('should accept weights that do not sum to 1', () => {
+      const split = splitRewardPool(10n, [
+        { name: 'a', weight: 3 },
+        { name: 'b', weight: 1 },
+        { name: 'c', weight: 1 }
+      ]);
+      expect(split.map(a => a.amount)).toEqual([6n, 2n, 2n]);
+    });
+
+    it('should hand the remainder to the largest remainders, earlier bucket on ties', () => {
+      const even = [
+        { name: 'a', weight: 1 },
+        { name: 'b', weight: 1 },
+        { name: 'c', weight: 1 }
+      ];
+      expect(splitRewardPool(11n, even).map(a => a.amount)).toEqual([4n, 4n, 3n]);
+    });
+
+    it('should hand the whole remainder to a named bucket', () => {
+      const policy: RewardRemainderPolicy = { kind: 'bucket', name: 'treasury' };
+      const even = [
+        { name: 'validators', weight: 1 },
+        { name: 'treasury', weight: 1 },
+        { name: 'ecosystem', weight: 1 }
+      ];
+      expect(splitRewardPool(11n, even, { remainder: policy }).map(a => a.amount)).toEqual([3n, 5n, 3n]);
+    });
+
+    it('should be deterministic for the same inputs', () => {
+      const pool = schedule.emissions[1234];
+      expect(splitRewardPool(pool, BUCKETS)).toEqual(splitRewardPool(pool, BUCKETS));
+    });
+
+    it('should reject invalid buckets and policies', () => {
+      expect(() => splitRewardPool(1n, [{ name: 'a', weight: 1 }, { name: 'a', weight: 1 }])).toThrow(
+        'Invalid: bucket names must be unique and non-empty'
+      );
+      expect(() => splitRewardPool(1n, [{ name: 'a', weight: 0 }])).toThrow('Invalid: at least one weight');
+      expect(() =>
+        splitRewardPool(1n, BUCKETS, { remainder: { kind: 'bucket', name: 'burn' } })
+      ).toThrow('Invalid: remainder bucket not found');
+      expect(() =>
+        splitRewardPool(1n, BUCKETS, { remainder: { kind: 'random' } as unknown as RewardRemainderPolicy })
+      ).toThrow('Invalid: unknown remainder policy kind');
+      expect(() => splitRewardPool(-1n, BUCKETS)).toThrow('Invalid: total must be non-negative');
+    });
+  });
+
+  describe('getEpochRewardSplit', () => {
+    it("should split the epoch's emission in base units", () => {
+      const split = getEpochRewardSplit(schedule, 10, BUCKETS);
+      expect(total(split)).toBe(schedule.emissions[9]);
+      expect(getEpochRewardSplit(schedule, schedule.totalEpochs + 1, BUCKETS).every(a => a.amount === 0n)).toBe(
+        true
+      );
+    });
+
+    it('should switch bucket weights at the phase boundaries', () => {
+      const phases = [
+        [{ name: 'validators', weight: 1 }, { name: 'treasury', weight: 0 }],
+        [{ name: 'validators', weight: 1 }, { name: 'treasury', weight: 1 }],
+        [{ name: 'validators', weight: 0 }, { name: 'treasury', weight: 1 }]
+      ];
+      const at = (epoch: number) => getEpochRewardSplit(schedule, epoch, { phases }).map(a => a.amount);
+      expect(at(208)).toEqual([schedule.emissions[207], 0n]);
+      const mid = at(209);
+      expect(mid[0] - mid[1]).toBeLessThanOrEqual(1n);
+      expect(at(1456)[1]).toBeLessThan(schedule.emissions[1455]);
+      expect(at(1457)).toEqual([0n, schedule.emissions[1456]]);
+      expect(at(9999)).toEqual([0n, 0n]);
+    });
+
+    it('should reject invalid epochs and phase sets', () => {
+      expect(() => getEpochRewardSplit(schedule, 0, BUCKETS)).toThrow('Invalid: epoch must be a positive integer');
+      expect(() => getEpochRewardSplit(schedule, 1, { phases: [BUCKETS] })).toThrow(
+        "Invalid: phase bucket sets must match the schedule's 3 phases"
+      );
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { buildEmissionsSchedule, getCumulativeEmissions } from '../src/emissions/emissionsSchedule';
+import { diffEmissionsSchedules } from '../src/emissions/scheduleDiff';
+
+describe('Emissions Schedule Diff', () => {
+  const current = buildEmissionsSchedule();
+  const epy = current.params.epochsPerYear;
+
+  it('should report no change for identical params', () => {
+    const diff = diffEmissionsSchedules(current, buildEmissionsSchedule());
+    expect(diff.firstDivergentEpoch).toBe(0);
+    expect(diff.deltas.every(d => d === 0)).toBe(true);
+    expect(diff.maxAbsoluteChange).toEqual({ epoch: 0, delta: 0 });
+    expect(diff.maxRelativeChange).toEqual({ epoch: 0, change: 0 });
+    expect(diff.milestones.epochTo33Pct.shift).toBe(0);
+    expect(diff.checkpoints.every(c => c.delta === 0)).toBe(true);
+  });
+
+  it('should report per-epoch deltas and extremes for a full replacement', () => {
+    const proposed = buildEmissionsSchedule({ shapeEarly: 3.0 });
+    const diff = diffEmissionsSchedules(current, proposed);
+    expect(diff.totalEpochs).toBe(current.totalEpochs);
+    expect(diff.deltas[0]).toBeCloseTo(proposed.emissions[0] - current.emissions[0], 0);
+    expect(diff.firstDivergentEpoch).toBe(1);
+    const maxAbs = Math.max(...diff.deltas.map(Math.abs));
+    expect(Math.abs(diff.maxAbsoluteChange.delta)).toBe(maxAbs);
+    expect(diff.deltas[diff.maxAbsoluteChange.epoch - 1]).toBe(diff.maxAbsoluteChange.delta);
+    const e = diff.maxRelativeChange.epoch;
+    expect(diff.maxRelativeChange.change).toBeCloseTo(diff.deltas[e - 1] / current.emissions[e - 1], 12);
+    expect(diff.milestones.epochTo33Pct.after).toBe(proposed.milestones.epochTo33Pct);
+    expect(diff.after).toBe(proposed);
+  });
+
+  it('should report milestone shifts and yearly checkpoints for a longer schedule', () => {
+    const proposed = buildEmissionsSchedule({ earlyYears: 6 });
+    const diff = diffEmissionsSchedules(current, proposed);
+    expect(diff.totalEpochs).toBe(proposed.totalEpochs);
+    expect(diff.milestones.epochTo33Pct).toEqual({ before: 208, after: 312, shift: 104 });
+    expect(diff.milestones.epochTo100Pct.shift).toBe(104);
+    expect(diff.checkpoints).toHaveLength(Math.ceil(proposed.totalEpochs / epy));
+    const year4 = diff.checkpoints[3];
+    expect(year4.epoch).toBe(208);
+    expect(year4.before).toBe(getCumulativeEmissions(current, 208));
+    expect(year4.after).toBe(getCumulativeEmissions(proposed, 208));
+    expect(year4.delta).toBeLessThan(0);
+    // Past the end of the current schedule it emits 0, so the change is infinite
+    expect(diff.deltas[diff.totalEpochs - 1]).toBe(proposed.emissions[proposed.totalEpochs - 1]);
+    expect(diff.maxRelativeChange.change).toBe(Infinity);
+    expect(diff.checkpoints[diff.checkpoints.length - 1].delta).toBe(0);
+  });
+
+  it('should preserve already-emitted supply for a mid-schedule change', () => {
+    const proposed = buildEmissionsSchedule({ shapeMid: 3.0, tailYears: 30 });
+    const diff = diffEmissionsSchedules(current, proposed, { fromEpoch: 300 });
+    expect(diff.fromEpoch).toBe(300);
+    expect(diff.deltas.slice(0, 299).every(d => d === 0)).toBe(true);
+    expect(diff.firstDivergentEpoch).toBe(300);
+    expect(diff.after.emissions.slice(0, 299)).toEqual(current.emissions.slice(0, 299));
+    expect(diff.after.totalEpochs).toBe(proposed.totalEpochs);
+    const total = diff.after.emissions.reduce((sum, e) => sum + e, 0);
+    expect(total / Number(current.params.cap)).toBeCloseTo(1, 12);
+    expect(diff.checkpoints[4].delta).toBe(0);
+    expect(diff.milestones.epochTo33Pct.shift).toBe(0);
+    const cap80 = Number(current.params.cap) * 0.8;
+    expect(diff.milestones.epochTo80Pct.after).toBe(diff.after.cumulative.findIndex(c => c >= cap80) + 1);
+  });
+
+  it('should reject invalid comparisons', () => {
+    expect(() => diffEmissionsSchedules(current, buildEmissionsSchedule({ epochsPerYear: 365 }))).toThrow(
+      'Invalid: schedules must share epochsPerYear'
+    );
+    expect(() => diffEmissionsSchedules(current, current, { fromEpoch: 0 })).toThrow(
+      'Invalid: fromEpoch must be a positive integer'
+    );
+    expect(() => diffEmissionsSchedules(current, current, { fromEpoch: current.totalEpochs + 1 })).toThrow(
+      'Invalid: fromEpoch must be within the new schedule'
+    );
+    expect(() =>
+      diffEmissionsSchedules(current, buildEmissionsSchedule({ cap: 1_000_000n }), { fromEpoch: 100 })
+    ).toThrow('Invalid: new cap must cover the supply already emitted');
+  });
+});
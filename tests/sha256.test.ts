@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { sha256, sha256Hex, toHex, utf8Encode } from '../src/hashing/sha256';
+
+describe('SHA-256', () => {
+  describe('FIPS 180-4 test vectors', () => {
+    it('should hash the empty message', () => {
+      expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    });
+
+    it('should hash "abc"', () => {
+      expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('should hash the two-block 448-bit message', () => {
+      expect(sha256Hex('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+        '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+      );
+    });
+
+    it('should hash one million "a"', () => {
+      expect(sha256Hex('a'.repeat(1_000_000))).toBe(
+        'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0'
+      );
+    });
+  });
+
+  describe('agreement with node:crypto (padding boundaries)', () => {
+    it('should match for every length 0..130 bytes', () => {
+      for (let n = 0; n <= 130; n++) {
+        const bytes = Uint8Array.from({ length: n }, (_, i) => (i * 31 + n) & 0xff);
+        const expected = createHash('sha256').update(bytes).digest('hex');
+        expect(sha256Hex(bytes)).toBe(expected);
+      }
+    });
+  });
+
+  describe('encoding helpers', () => {
+    it('should return a 32-byte digest', () => {
+      expect(sha256('abc')).toHaveLength(32);
+    });
+
+    it('should encode UTF-8 like Buffer.from', () => {
+      for (const text of ['', 'ascii', '33⅓%', 'λ = ln(2)', '😀 emoji', 'mixed ⅓ 😀 text']) {
+        expect(Array.from(utf8Encode(text))).toEqual(Array.from(Buffer.from(text, 'utf8')));
+      }
+    });
+
+    it('should hash strings as their UTF-8 bytes', () => {
+      expect(sha256Hex('33⅓%')).toBe(createHash('sha256').update('33⅓%', 'utf8').digest('hex'));
+    });
+
+    it('should hex-encode with leading zeros', () => {
+      expect(toHex(Uint8Array.from([0, 1, 15, 16, 255]))).toBe('00010f10ff');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { buildEmissionsSchedule } from '../src/emissions/emissionsSchedule';
+import { fitEmissionsShapes, type EmissionsConstraint } from '../src/emissions/solver';
+
+describe('Emissions inverse solver (fitEmissionsShapes)', () => {
+  // Reference schedule with known shapes that the solver should recover
+  const target = buildEmissionsSchedule({ shapeEarly: 2.6, shapeMid: 1.1, shapeTail: 0.7 });
+
+  describe('exact fits', () => {
+    it('should recover all three shapes from one emission per phase', () => {
+      const result = fitEmissionsShapes([
+        { kind: 'epochEmission', epoch: 1, value: target.emissions[0] },
+        { kind: 'epochEmission', epoch: 209, value: target.emissions[208] },
+        { kind: 'epochEmission', epoch: 1457, value: target.emissions[1456] }
+      ]);
+      expect(result.satisfied).toBe(true);
+      expect(result.params.shapeEarly).toBeCloseTo(2.6, 9);
+      expect(result.params.shapeMid).toBeCloseTo(1.1, 9);
+      expect(result.params.shapeTail).toBeCloseTo(0.7, 9);
+      expect(result.schedule.params).toBe(result.params);
+    });
+
+    it('should recover shapes from a full reference curve', () => {
+      const result = fitEmissionsShapes([{ kind: 'referenceCurve', emissions: target.emissions }]);
+      expect(result.satisfied).toBe(true);
+      expect(result.residuals[0]).toHaveLength(target.totalEpochs);
+      expect(result.params.shapeEarly).toBeCloseTo(2.6, 9);
+      expect(result.params.shapeMid).toBeCloseTo(1.1, 9);
+      expect(result.params.shapeTail).toBeCloseTo(0.7, 9);
+    });
+
+    it('should fit a partial reference curve from a start epoch', () => {
+      const result = fitEmissionsShapes(
+        [{ kind: 'referenceCurve', emissions: target.emissions.slice(1456, 1556), startEpoch: 1457 }],
+        {},
+        { fit: ['shapeTail'] }
+      );
+      expect(result.satisfied).toBe(true);
+      expect(result.params.shapeTail).toBeCloseTo(0.7, 9);
+      // Unfitted shapes keep their base values
+      expect(result.params.shapeEarly).toBe(2.0);
+      expect(result.params.shapeMid).toBe(1.5);
+    });
+
+    it('should hit a year-10 cumulative target by fitting only the mid shape', () => {
+      const result = fitEmissionsShapes(
+        [{ kind: 'cumulativeFraction', years: 10, fraction: 0.5 }],
+        {},
+        { fit: ['shapeMid'] }
+      );
+      expect(result.satisfied).toBe(true);
+      expect(result.schedule.cumulative[519] / 86e9).toBeCloseTo(0.5, 9);
+      expect(result.params.shapeMid).toBeGreaterThan(0);
+    });
+
+    it('should accept cumulative targets by epoch and respect fixed base params', () => {
+      const result = fitEmissionsShapes(
+        [{ kind: 'cumulativeFraction', epoch: 24, fraction: 0.2 }],
+        { epochsPerYear: 12 },
+        { fit: ['shapeEarly'] }
+      );
+      expect(result.satisfied).toBe(true);
+      expect(result.params.epochsPerYear).toBe(12);
+      expect(result.schedule.cumulative[23] / 86e9).toBeCloseTo(0.2, 9);
+    });
+  });
+
+  describe('least-squares fits', () => {
+    it('should return the best fit with residuals when constraints conflict', () => {
+      const constraints: EmissionsConstraint[] = [
+        { kind: 'cumulativeFraction', years: 2, fraction: 0.25 },
+        { kind: 'cumulativeFraction', years: 2, fraction: 0.35 }
+      ];
+      const result = fitEmissionsShapes(constraints, {}, { fit: ['shapeEarly'] });
+      expect(result.satisfied).toBe(false);
+      // Equal weights: the best fit splits the difference
+      expect(result.residuals[0][0]).toBeCloseTo(0.05, 6);
+      expect(result.residuals[1][0]).toBeCloseTo(-0.05, 6);
+      expect(result.sumOfSquares).toBeCloseTo(0.005, 8);
+      expect(result.maxAbsResidual).toBeCloseTo(0.05, 6);
+    });
+
+    it('should lean toward heavier-weighted constraints', () => {
+      const result = fitEmissionsShapes(
+        [
+          { kind: 'cumulativeFraction', years: 2, fraction: 0.25, weight: 9 },
+          { kind: 'cumulativeFraction', years: 2, fraction: 0.35 }
+        ],
+        {},
+        { fit: ['shapeEarly'] }
+      );
+      // Minimizer of 9(f - 0.25)^2 + (f - 0.35)^2 is f = 0.26
+      expect(result.residuals[0][0]).toBeCloseTo(0.01, 6);
+    });
+
+    it('should keep fitted shapes within the bounds', () => {
+      const result = fitEmissionsShapes(
+        [{ kind: 'epochEmission', epoch: 1, value: 1e10 }],
+        {},
+        { fit: ['shapeEarly'], shapeBounds: [0, 5] }
+      );
+      expect(result.params.shapeEarly).toBe(5);
+      expect(result.satisfied).toBe(false);
+      expect(result.residuals[0][0]).toBeLessThan(0);
+    });
+  });
+
+  describe('determinism and input validation', () => {
+    it('should be bit-identical across repeated deterministic-mode fits', () => {
+      const constraints: EmissionsConstraint[] = [{ kind: 'cumulativeFraction', years: 10, fraction: 0.5 }];
+      const a = fitEmissionsShapes(constraints, {}, { fit: ['shapeMid'], deterministic: true });
+      const b = fitEmissionsShapes(constraints, {}, { fit: ['shapeMid'], deterministic: true });
+      expect(Object.is(a.params.shapeMid, b.params.shapeMid)).toBe(true);
+      expect(a.iterations).toBe(b.iterations);
+    });
+
+    it('should reject invalid constraints and options', () => {
+      expect(() => fitEmissionsShapes([])).toThrow('Invalid: at least one constraint is required');
+      expect(() => fitEmissionsShapes([{ kind: 'epochEmission', epoch: 1, value: 0 }])).toThrow(
+        'Invalid: epochEmission value must be positive and finite'
+      );
+      expect(() => fitEmissionsShapes([{ kind: 'cumulativeFraction', epoch: 1, fraction: 1.5 }])).toThrow(
+        'Invalid: cumulativeFraction fraction must be in [0, 1]'
+      );
+      expect(() => fitEmissionsShapes([{ kind: 'epochEmission', epoch: 9999, value: 1 }])).toThrow(
+        'Invalid: constraint epoch must be an integer within the schedule'
+      );
+      expect(() => fitEmissionsShapes([{ kind: 'referenceCurve', emissions: [] }])).toThrow(
+        'Invalid: referenceCurve emissions must not be empty'
+      );
+      expect(() =>
+        fitEmissionsShapes([{ kind: 'epochEmission', epoch: 1, value: 1, weight: 0 }])
+      ).toThrow('Invalid: constraint weight must be positive and finite');
+      expect(() =>
+        fitEmissionsShapes([{ kind: 'epochEmission', epoch: 1, value: 1 }], {}, { shapeBounds: [1, 1] })
+      ).toThrow('Invalid: shapeBounds must satisfy lower < upper');
+      expect(() =>
+        fitEmissionsShapes([{ kind: 'epochEmission', epoch: 1, value: 1 }], { shapeEarly: { kind: 'linear' } })
+      ).toThrow('Invalid: fitted shapes must be exponential (numeric)');
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { buildIntegerEmissionsSchedule } from '../src/emissions/integerSchedule';
+import { buildSupplyModel, getSupplyAt, type SupplyModel } from '../src/emissions/supplyModel';
+
+/** Check the accounting identity and the cap at every epoch. */
+function expectConsistent(model: SupplyModel, cap: bigint): void {
+  for (let i = 0; i < model.horizon; i++) {
+    expect(model.circulating[i] + model.locked[i] + model.burned[i]).toBe(model.cumulativeMinted[i]);
+    expect(model.cumulativeMinted[i] + model.pendingRecycle[i]).toBeLessThanOrEqual(cap);
+    expect(model.circulating[i] >= 0n && model.locked[i] >= 0n).toBe(true);
+  }
+}
+
+describe('Emissions Supply Model', () => {
+  const schedule = buildIntegerEmissionsSchedule();
+  const s = (epoch: number): bigint => schedule.emissions[epoch - 1];
+
+  it('should match the schedule when there are no adjustments', () => {
+    const model = buildSupplyModel(schedule);
+    expect(model.horizon).toBe(schedule.totalEpochs);
+    expect(model.cumulativeMinted).toEqual(schedule.cumulative);
+    expect(model.circulating).toEqual(schedule.cumulative);
+    expect(model.circulating[model.horizon - 1]).toBe(schedule.totalSupply);
+    expect(model.locked.every(x => x === 0n) && model.burned.every(x => x === 0n)).toBe(true);
+  });
+
+  it('should remove burns from circulation without freeing room under the cap', () => {
+    const model = buildSupplyModel(schedule, { burns: [{ epoch: 3, amount: 1000n }, { epoch: 3, amount: 500n }] });
+    expect(model.burned[2]).toBe(1500n);
+    expect(model.circulating[2]).toBe(schedule.cumulative[2] - 1500n);
+    expect(model.cumulativeMinted).toEqual(schedule.cumulative);
+    expect(getSupplyAt(model, 99999).circulating).toBe(schedule.totalSupply - 1500n);
+    expectConsistent(model, schedule.totalSupply);
+  });
+
+  it('should withhold unclaimed rewards and re-emit them in the next epoch', () => {
+    const model = buildSupplyModel(schedule, { unclaimed: [{ epoch: 2, amount: 700n }] });
+    expect(model.minted[1]).toBe(s(2) - 700n);
+    expect(model.pendingRecycle[1]).toBe(700n);
+    expect(model.minted[2]).toBe(s(3) + 700n);
+    expect(model.pendingRecycle[2]).toBe(0n);
+    expect(model.cumulativeMinted[2]).toBe(schedule.cumulative[2]);
+    expectConsistent(model, schedule.totalSupply);
+  });
+
+  it('should spread recycled rewards over recycleEpochs with the remainder last', () => {
+    const model = buildSupplyModel(schedule, { unclaimed: [{ epoch: 1, amount: 10n }] }, { recycleEpochs: 3 });
+    expect(model.minted.slice(1, 4)).toEqual([s(2) + 3n, s(3) + 3n, s(4) + 4n]);
+    expect(model.pendingRecycle.slice(0, 4)).toEqual([10n, 7n, 4n, 0n]);
+  });
+
+  it('should allow re-emitted rewards to go unclaimed again', () => {
+    const model = buildSupplyModel(schedule, {
+      unclaimed: [{ epoch: 1, amount: s(1) }, { epoch: 2, amount: s(1) + s(2) }]
+    });
+    expect(model.minted.slice(0, 3)).toEqual([0n, 0n, s(1) + s(2) + s(3)]);
+    expectConsistent(model, schedule.totalSupply);
+  });
+
+  it('should report recycling still pending at the horizon and never exceed the cap', () => {
+    const last = schedule.totalEpochs;
+    const model = buildSupplyModel(schedule, { unclaimed: [{ epoch: last, amount: 1234n }] });
+    expect(model.cumulativeMinted[last - 1]).toBe(schedule.totalSupply - 1234n);
+    expect(model.pendingRecycle[last - 1]).toBe(1234n);
+    // Past the schedule end the recycled amount is minted and the cap is reached exactly
+    const extended = buildSupplyModel(schedule, { unclaimed: [{ epoch: last, amount: 1234n }] }, { horizon: last + 1 });
+    expect(extended.minted[last]).toBe(1234n);
+    expect(extended.cumulativeMinted[last]).toBe(schedule.totalSupply);
+    expectConsistent(extended, schedule.totalSupply);
+  });
+
+  it('should hold locked amounts out of circulation until the unlock epoch', () => {
+    const model = buildSupplyModel(schedule, { locks: [{ epoch: 5, amount: 10n ** 20n, unlockEpoch: 10 }] });
+    expect(model.locked[4]).toBe(10n ** 20n);
+    expect(model.circulating[4]).toBe(schedule.cumulative[4] - 10n ** 20n);
+    expect(model.locked[8]).toBe(10n ** 20n);
+    expect(model.locked[9]).toBe(0n);
+    expect(model.circulating[9]).toBe(schedule.cumulative[9]);
+    expectConsistent(model, schedule.totalSupply);
+  });
+
+  it('should keep the identities under combined adjustments', () => {
+    const model = buildSupplyModel(
+      schedule,
+      {
+        burns: Array.from({ length: 40 }, (_, i) => ({ epoch: 5 + i * 20, amount: 10n ** 18n * BigInt(i + 1) })),
+        unclaimed: Array.from({ length: 30 }, (_, i) => ({ epoch: 3 + i * 31, amount: s(3 + i * 31) / 10n })),
+        locks: [{ epoch: 2, amount: s(1), unlockEpoch: 520 }]
+      },
+      { recycleEpochs: 13 }
+    );
+    expectConsistent(model, schedule.totalSupply);
+    expect(model.pendingRecycle[model.horizon - 1]).toBe(0n);
+  });
+
+  it('should clamp getSupplyAt before epoch 1', () => {
+    const model = buildSupplyModel(schedule);
+    expect(getSupplyAt(model, 0)).toEqual({
+      cumulativeMinted: 0n,
+      circulating: 0n,
+      locked: 0n,
+      burned: 0n,
+      pendingRecycle: 0n
+    });
+    expect(getSupplyAt(model, 1).circulating).toBe(s(1));
+  });
+
+  it('should reject flows that exceed what is available', () => {
+    expect(() => buildSupplyModel(schedule, { burns: [{ epoch: 1, amount: s(1) + 1n }] })).toThrow(
+      'Invalid: burn exceeds circulating supply at epoch 1'
+    );
+    expect(() => buildSupplyModel(schedule, { unclaimed: [{ epoch: 1, amount: s(1) + 1n }] })).toThrow(
+      'Invalid: unclaimed exceeds the emission at epoch 1'
+    );
+    expect(() =>
+      buildSupplyModel(schedule, { locks: [{ epoch: 1, amount: s(1) + 1n, unlockEpoch: 2 }] })
+    ).toThrow('Invalid: lock exceeds circulating supply at epoch 1');
+    expect(() => buildSupplyModel(schedule, { locks: [{ epoch: 3, amount: 1n, unlockEpoch: 3 }] })).toThrow(
+      'Invalid: unlockEpoch must be an integer after the lock epoch'
+    );
+    expect(() => buildSupplyModel(schedule, { burns: [{ epoch: 0, amount: 1n }] })).toThrow(
+      'Invalid: burn epoch must be an integer in 1..horizon'
+    );
+    expect(() => buildSupplyModel(schedule, {}, { recycleEpochs: 0 })).toThrow(
+      'Invalid: recycleEpochs must be a positive integer'
+    );
+  });
+});
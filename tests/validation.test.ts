@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EMISSIONS_PARAMS,
+  buildEmissionsSchedule,
+  type EmissionsParams,
+  type PhasedEmissionsParams
+} from '../src/emissions/emissionsSchedule';
+import { buildIntegerEmissionsSchedule } from '../src/emissions/integerSchedule';
+import { reparameterizeEmissionsSchedule } from '../src/emissions/reparameterize';
+import {
+  EmissionsParamsError,
+  assertValidEmissionsParams,
+  assertValidPhasedEmissionsParams,
+  validateEmissionsParams,
+  validatePhasedEmissionsParams
+} from '../src/emissions/validation';
+
+/** Defaults with a set of top-level overrides (shallow, like the builder). */
+function withOverrides(overrides: Record<string, unknown>): EmissionsParams {
+  return { ...DEFAULT_EMISSIONS_PARAMS, ...overrides } as EmissionsParams;
+}
+
+/** [path, code] pairs, for compact assertions. */
+function codesOf(params: EmissionsParams): Array<[string, string]> {
+  return validateEmissionsParams(params).map(v => [v.path, v.code]);
+}
+
+describe('Emissions params validation', () => {
+  describe('validateEmissionsParams', () => {
+    it('should accept the canonical defaults', () => {
+      expect(validateEmissionsParams(DEFAULT_EMISSIONS_PARAMS)).toEqual([]);
+    });
+
+    it('should accept zero shape factors (uniform phases)', () => {
+      expect(codesOf(withOverrides({ shapeEarly: 0, shapeMid: 0, shapeTail: 0 }))).toEqual([]);
+    });
+
+    it('should reject a zero or negative cap and a non-bigint cap', () => {
+      expect(codesOf(withOverrides({ cap: 0n }))).toEqual([['cap', 'not_positive']]);
+      expect(codesOf(withOverrides({ cap: -5n }))).toEqual([['cap', 'not_positive']]);
+      expect(codesOf(withOverrides({ cap: 86e9 }))).toEqual([['cap', 'invalid_type']]);
+    });
+
+    it('should reject a zero, fractional or non-finite epochsPerYear', () => {
+      expect(codesOf(withOverrides({ epochsPerYear: 0 }))).toEqual([['epochsPerYear', 'not_positive']]);
+      expect(codesOf(withOverrides({ epochsPerYear: 52.5 }))).toEqual([['epochsPerYear', 'not_integer']]);
+      expect(codesOf(withOverrides({ epochsPerYear: Infinity }))).toEqual([['epochsPerYear', 'not_finite']]);
+      expect(codesOf(withOverrides({ epochsPerYear: '52' }))).toEqual([['epochsPerYear', 'invalid_type']]);
+    });
+
+    it('should reject non-positive phase durations', () => {
+      expect(codesOf(withOverrides({ earlyYears: 0, midYears: -1, tailYears: NaN }))).toEqual([
+        ['earlyYears', 'not_positive'],
+        ['midYears', 'not_positive'],
+        ['tailYears', 'not_finite']
+      ]);
+    });
+
+    it('should accept back-loaded (negative) exponential factors down to -512', () => {
+      expect(codesOf(withOverrides({ shapeMid: -1.5, shapeTail: { kind: 'exponential', shape: -512 } }))).toEqual([]);
+      expect(codesOf(withOverrides({ shapeMid: -600, shapeTail: { kind: 'exponential', shape: -513 } }))).toEqual([
+        ['shapeMid', 'out_of_range'],
+        ['shapeTail.shape', 'out_of_range']
+      ]);
+    });
+
+    it('should accept the negative shapes a continuity-mode build solves', () => {
+      const s = buildEmissionsSchedule({ tailYears: 0.05, targets: { f80: 0.5 } }, { continuity: true });
+      expect(s.params.shapeTail).toBeLessThan(0);
+      expect(validateEmissionsParams(s.params)).toEqual([]);
+      expect(() => reparameterizeEmissionsSchedule(s, 10, {}, { strict: true })).not.toThrow();
+    });
+
+    it('should accept tagged weight shapes and reject invalid shape parameters', () => {
+      expect(
+        codesOf(withOverrides({ shapeEarly: { kind: 'halving', periods: 4 }, shapeTail: { kind: 'linear' } }))
+      ).toEqual([]);
+      expect(
+        codesOf(
+          withOverrides({
+            shapeEarly: { kind: 'halving', periods: 1.5 },
+            shapeMid: { kind: 'logistic', steepness: -1, midpoint: 2 },
+            shapeTail: { kind: 'sawtooth' }
+          })
+        )
+      ).toEqual([
+        ['shapeEarly.periods', 'not_integer'],
+        ['shapeMid.steepness', 'negative'],
+        ['shapeMid.midpoint', 'out_of_range'],
+        ['shapeTail.kind', 'invalid_type']
+      ]);
+      expect(codesOf(withOverrides({ shapeMid: { kind: 'powerLaw' } }))).toEqual([
+        ['shapeMid.exponent', 'missing']
+      ]);
+    });
+
+    it('should reject milestone targets that are not strictly increasing', () => {
+      expect(codesOf(withOverrides({ targets: { f33: 0.5, f80: 0.4, f100: 1 } }))).toEqual([
+        ['targets.f80', 'not_increasing']
+      ]);
+      expect(codesOf(withOverrides({ targets: { f33: 0.3, f80: 0.8, f100: 0.8 } }))).toEqual([
+        ['targets.f100', 'not_increasing']
+      ]);
+    });
+
+    it('should reject targets outside (0, 1]', () => {
+      expect(codesOf(withOverrides({ targets: { f33: 0, f80: 0.8, f100: 1.2 } }))).toEqual([
+        ['targets.f33', 'out_of_range'],
+        ['targets.f100', 'out_of_range']
+      ]);
+    });
+
+    it('should flag target fields dropped by a partial targets object', () => {
+      // Hand-written params that bypass resolveEmissionsParams can lack fields
+      expect(codesOf(withOverrides({ targets: { f33: 0.3 } }))).toEqual([
+        ['targets.f80', 'missing'],
+        ['targets.f100', 'missing']
+      ]);
+      expect(codesOf(withOverrides({ targets: null }))).toEqual([['targets', 'invalid_type']]);
+    });
+
+    it('should report every violation at once, in field order, with messages', () => {
+      const violations = validateEmissionsParams(
+        withOverrides({ cap: 0n, epochsPerYear: 0, shapeTail: -1000 })
+      );
+      expect(violations).toEqual([
+        { path: 'cap', code: 'not_positive', message: 'cap must be positive' },
+        { path: 'epochsPerYear', code: 'not_positive', message: 'epochsPerYear must be positive' },
+        { path: 'shapeTail', code: 'out_of_range', message: 'shapeTail must be >= -512' }
+      ]);
+    });
+  });
+
+  describe('validatePhasedEmissionsParams', () => {
+    const phased = (phases: unknown) =>
+      ({ cap: 1000n, epochsPerYear: 12, phases }) as PhasedEmissionsParams;
+    const phasedCodes = (phases: unknown) =>
+      validatePhasedEmissionsParams(phased(phases)).map(v => [v.path, v.code]);
+
+    it('should accept any number of increasing phases', () => {
+      expect(
+        phasedCodes([
+          { years: 1, targetFraction: 0.2, shape: 2 },
+          { years: 2, targetFraction: 0.5, shape: 1 },
+          { years: 3, targetFraction: 0.9, shape: 0 },
+          { years: 4, targetFraction: 1.0, shape: 0.5 }
+        ])
+      ).toEqual([]);
+    });
+
+    it('should reject a missing, non-array or empty phases list', () => {
+      expect(phasedCodes(undefined)).toEqual([['phases', 'missing']]);
+      expect(phasedCodes({})).toEqual([['phases', 'invalid_type']]);
+      expect(phasedCodes([])).toEqual([['phases', 'out_of_range']]);
+    });
+
+    it('should report per-phase violations with indexed paths', () => {
+      expect(
+        phasedCodes([
+          { years: 0, targetFraction: 0.5, shape: 1 },
+          { years: 1, targetFraction: 0.4, shape: -1000 },
+          null,
+          { years: 1, targetFraction: 1.5 }
+        ])
+      ).toEqual([
+        ['phases[0].years', 'not_positive'],
+        ['phases[1].targetFraction', 'not_increasing'],
+        ['phases[1].shape', 'out_of_range'],
+        ['phases[2]', 'invalid_type'],
+        ['phases[3].targetFraction', 'out_of_range'],
+        ['phases[3].shape', 'missing']
+      ]);
+    });
+
+    it('should check cap and cadence like the three-phase validator', () => {
+      const params = { cap: 0n, epochsPerYear: 0, phases: [{ years: 1, targetFraction: 1, shape: 1 }] };
+      expect(() => assertValidPhasedEmissionsParams(params)).toThrow(EmissionsParamsError);
+      expect(validatePhasedEmissionsParams(params).map(v => v.path)).toEqual(['cap', 'epochsPerYear']);
+    });
+  });
+
+  describe('assertValidEmissionsParams / EmissionsParamsError', () => {
+    it('should not throw for valid params', () => {
+      expect(() => assertValidEmissionsParams(DEFAULT_EMISSIONS_PARAMS)).not.toThrow();
+    });
+
+    it('should throw an EmissionsParamsError carrying the violations', () => {
+      let caught: unknown;
+      try {
+        assertValidEmissionsParams(withOverrides({ cap: 0n, shapeEarly: -1000 }));
+      } catch (err) {
+        caught = err;
+      }
+      expect(caught).toBeInstanceOf(EmissionsParamsError);
+      expect(caught).toBeInstanceOf(Error);
+      const error = caught as EmissionsParamsError;
+      expect(error.name).toBe('EmissionsParamsError');
+      expect(error.message).toBe(
+        'Invalid: emissions params (cap must be positive; shapeEarly must be >= -512)'
+      );
+      expect(error.violations.map(v => v.path)).toEqual(['cap', 'shapeEarly']);
+    });
+  });
+
+  describe('strict mode in schedule builders', () => {
+    it('should build the same schedule as non-strict mode for valid params', () => {
+      const strict = buildEmissionsSchedule({ epochsPerYear: 12 }, { strict: true });
+      const lax = buildEmissionsSchedule({ epochsPerYear: 12 });
+      expect(strict.emissions).toEqual(lax.emissions);
+    });
+
+    it('should throw on invalid params in strict mode', () => {
+      expect(() => buildEmissionsSchedule({ epochsPerYear: 0 }, { strict: true })).toThrow(
+        EmissionsParamsError
+      );
+      expect(() =>
+        buildEmissionsSchedule({ targets: { f33: 0.9 } }, { strict: true })
+      ).toThrow('Invalid: emissions params (targets.f80 must be greater than targets.f33)');
+    });
+
+    it('should keep accepting invalid params when strict is off (backwards compatible)', () => {
+      expect(buildEmissionsSchedule({ epochsPerYear: 0 }).totalEpochs).toBe(3);
+    });
+
+    it('should pass strict through the integer builder', () => {
+      expect(() =>
+        buildIntegerEmissionsSchedule({ cap: 0n }, { strict: true, decimals: 0 })
+      ).toThrow(EmissionsParamsError);
+    });
+  });
+});
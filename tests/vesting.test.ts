@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { buildIntegerEmissionsSchedule } from '../src/emissions/integerSchedule';
+import {
+  projectUnlockedSupply,
+  releasableBetween,
+  totalVesting,
+  vestedAt,
+  vestingEndEpoch,
+  type VestingSchedule
+} from '../src/vesting/vesting';
+
+const TOKEN = 10n ** 18n;
+
+describe('Vesting Schedules', () => {
+  describe('cliff', () => {
+    const cliff: VestingSchedule = { kind: 'cliff', total: 1_000n * TOKEN, start: 10, cliffEpochs: 52 };
+
+    it('should unlock everything at the cliff', () => {
+      expect(vestedAt(cliff, 9)).toBe(0n);
+      expect(vestedAt(cliff, 60)).toBe(0n);
+      expect(vestedAt(cliff, 61)).toBe(1_000n * TOKEN);
+      expect(vestingEndEpoch(cliff)).toBe(61);
+    });
+  });
+
+  describe('linear', () => {
+    const linear: VestingSchedule = { kind: 'linear', total: 1_000n, start: 1, durationEpochs: 100 };
+
+    it('should vest linearly and reach the total at the end', () => {
+      expect(vestedAt(linear, 0)).toBe(0n);
+      expect(vestedAt(linear, 1)).toBe(10n);
+      expect(vestedAt(linear, 50)).toBe(500n);
+      expect(vestedAt(linear, 100)).toBe(1_000n);
+      expect(vestedAt(linear, 500)).toBe(1_000n);
+      expect(vestingEndEpoch(linear)).toBe(100);
+    });
+
+    it('should round down and still vest exactly the total', () => {
+      const odd: VestingSchedule = { kind: 'linear', total: 10n, start: 5, durationEpochs: 3 };
+      expect([5, 6, 7].map(e => vestedAt(odd, e))).toEqual([3n, 6n, 10n]);
+    });
+
+    it('should release the accrued amount at the cliff', () => {
+      const withCliff: VestingSchedule = { kind: 'linear', total: 1_000n, start: 1, durationEpochs: 100, cliffEpochs: 25 };
+      expect(vestedAt(withCliff, 24)).toBe(0n);
+      expect(vestedAt(withCliff, 25)).toBe(250n);
+      expect(releasableBetween(withCliff, 1, 25)).toBe(250n);
+    });
+  });
+
+  describe('graded', () => {
+    it('should unlock equal tranches per completed period', () => {
+      const graded: VestingSchedule = { kind: 'graded', total: 1_200n, start: 1, periods: 12, periodEpochs: 4 };
+      expect(vestedAt(graded, 3)).toBe(0n);
+      expect(vestedAt(graded, 4)).toBe(100n);
+      expect(vestedAt(graded, 7)).toBe(100n);
+      expect(vestedAt(graded, 8)).toBe(200n);
+      expect(vestedAt(graded, 48)).toBe(1_200n);
+      expect(vestingEndEpoch(graded)).toBe(48);
+    });
+
+    it('should handle fractional period lengths (monthly on weekly epochs)', () => {
+      const monthly: VestingSchedule = { kind: 'graded', total: 12n, start: 1, periods: 12, periodEpochs: 52 / 12 };
+      const unlockEpochs: number[] = [];
+      for (let e = 1; e <= 60; e++) {
+        if (releasableBetween(monthly, e, e) > 0n) unlockEpochs.push(e);
+      }
+      expect(unlockEpochs).toEqual([5, 9, 13, 18, 22, 26, 31, 35, 39, 44, 48, 52]);
+      expect(vestingEndEpoch(monthly)).toBe(52);
+      expect(vestedAt(monthly, 52)).toBe(12n);
+    });
+
+    it('should hold tranches until the cliff', () => {
+      const graded: VestingSchedule = {
+        kind: 'graded',
+        total: 48n,
+        start: 1,
+        periods: 48,
+        periodEpochs: 1,
+        cliffEpochs: 12
+      };
+      expect(vestedAt(graded, 11)).toBe(0n);
+      expect(vestedAt(graded, 12)).toBe(12n);
+    });
+  });
+
+  describe('steps', () => {
+    const steps: VestingSchedule = {
+      kind: 'steps',
+      steps: [
+        { epoch: 52, amount: 100n },
+        { epoch: 10, amount: 50n },
+        { epoch: 104, amount: 250n }
+      ]
+    };
+
+    it('should unlock custom amounts at absolute epochs', () => {
+      expect(vestedAt(steps, 9)).toBe(0n);
+      expect(vestedAt(steps, 10)).toBe(50n);
+      expect(vestedAt(steps, 60)).toBe(150n);
+      expect(totalVesting(steps)).toBe(400n);
+      expect(vestingEndEpoch(steps)).toBe(104);
+      expect(releasableBetween(steps, 11, 104)).toBe(350n);
+    });
+  });
+
+  describe('invariants', () => {
+    const schedules: VestingSchedule[] = [
+      { kind: 'cliff', total: 777n, start: 3, cliffEpochs: 0 },
+      { kind: 'linear', total: 10n ** 24n + 1n, start: 7, durationEpochs: 156, cliffEpochs: 52 },
+      { kind: 'graded', total: 999_999n, start: 2, periods: 36, periodEpochs: 52 / 12, cliffEpochs: 13 },
+      { kind: 'steps', steps: [{ epoch: 1, amount: 5n }, { epoch: 3, amount: 0n }, { epoch: 99, amount: 8n }] }
+    ];
+
+    it('should be non-decreasing and vest exactly the total by the end epoch', () => {
+      for (const schedule of schedules) {
+        let previous = 0n;
+        const end = vestingEndEpoch(schedule);
+        for (let e = 0; e <= end + 5; e++) {
+          const vested = vestedAt(schedule, e);
+          expect(vested >= previous).toBe(true);
+          previous = vested;
+        }
+        expect(vestedAt(schedule, end)).toBe(totalVesting(schedule));
+        expect(releasableBetween(schedule, 1, end)).toBe(totalVesting(schedule));
+      }
+    });
+  });
+
+  describe('projectUnlockedSupply', () => {
+    it('should add vested allocations to cumulative emissions', () => {
+      const emissions = buildIntegerEmissionsSchedule();
+      const team: VestingSchedule = { kind: 'linear', total: 10n ** 27n, start: 1, durationEpochs: 208, cliffEpochs: 52 };
+      const investors: VestingSchedule = { kind: 'cliff', total: 5n * 10n ** 26n, start: 1, cliffEpochs: 26 };
+      const projection = projectUnlockedSupply(emissions, [team, investors]);
+      expect(projection.horizon).toBe(emissions.totalEpochs);
+      expect(projection.emitted).toEqual(emissions.cumulative);
+      expect(projection.vested[25]).toBe(5n * 10n ** 26n);
+      expect(projection.unlocked[51]).toBe(emissions.cumulative[51] + 5n * 10n ** 26n + 10n ** 27n / 4n);
+      expect(projection.unlocked[projection.horizon - 1]).toBe(emissions.totalSupply + 15n * 10n ** 26n);
+    });
+
+    it('should extend the horizon to the last vesting end', () => {
+      const emissions = buildIntegerEmissionsSchedule({ earlyYears: 1, midYears: 1, tailYears: 1 });
+      const projection = projectUnlockedSupply(emissions, [{ kind: 'cliff', total: 1n, start: 200, cliffEpochs: 1 }]);
+      expect(projection.horizon).toBe(200);
+      expect(projection.emitted[199]).toBe(emissions.totalSupply);
+      expect(projectUnlockedSupply(emissions, [], 10).horizon).toBe(10);
+    });
+  });
+
+  describe('input validation', () => {
+    it('should reject invalid schedules', () => {
+      expect(() => vestedAt({ kind: 'linear', total: 1n, start: 1, durationEpochs: 0 }, 1)).toThrow(
+        'Invalid: durationEpochs must be a positive integer'
+      );
+      expect(() => vestedAt({ kind: 'cliff', total: -1n, start: 1, cliffEpochs: 1 }, 1)).toThrow(
+        'Invalid: total must be non-negative'
+      );
+      expect(() => vestedAt({ kind: 'cliff', total: 1n, start: 0, cliffEpochs: 1 }, 1)).toThrow(
+        'Invalid: start must be a positive integer'
+      );
+      expect(() => vestedAt({ kind: 'graded', total: 1n, start: 1, periods: 2, periodEpochs: 0 }, 1)).toThrow(
+        'Invalid: periodEpochs must be positive and finite'
+      );
+      expect(() => vestedAt({ kind: 'steps', steps: [{ epoch: 1.5, amount: 1n }] }, 1)).toThrow(
+        'Invalid: step epochs must be positive integers'
+      );
+      expect(() => releasableBetween({ kind: 'steps', steps: [] }, 5, 4)).toThrow(
+        'Invalid: range end must not precede its start'
+      );
+    });
+  });
+});
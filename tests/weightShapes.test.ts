@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WEIGHT_SHAPE_KINDS,
+  constantWeights,
+  halvingWeights,
+  linearWeights,
+  logisticTaperWeights,
+  powerLawWeights,
+  shapeWeights,
+  weightsForShape,
+  exponentialShapeForFirstWeight,
+  type WeightShape
+} from '../src/emissions/weightShapes';
+import {
+  DEFAULT_EMISSIONS_PARAMS,
+  buildEmissionsSchedule,
+  buildPhasedEmissionsSchedule,
+  resolveEmissionsParams
+} from '../src/emissions/emissionsSchedule';
+import golden from './goldens/emissions.golden.json';
+
+/** Sum with plain left-to-right accumulation (matches kernel + generator). */
+function sum(xs: number[]): number {
+  return xs.reduce((acc, x) => acc + x, 0);
+}
+
+const TAGGED_SHAPES: WeightShape[] = [
+  { kind: 'linear' },
+  { kind: 'powerLaw', exponent: 1.5 },
+  { kind: 'logistic', steepness: 8, midpoint: 0.5 },
+  { kind: 'constant' },
+  { kind: 'halving', periods: 4 },
+  { kind: 'exponential', shape: 1.5 }
+];
+
+describe('Emissions Weight Shapes', () => {
+  describe('golden vectors', () => {
+    it('should match the weight-shape golden vectors bit-exactly', () => {
+      const det = { deterministic: true };
+      const cases: Array<[number[], number[]]> = [
+        [linearWeights(5), golden.weightShapes['linear_n5']],
+        [constantWeights(3), golden.weightShapes['constant_n3']],
+        [powerLawWeights(5, 1.5, det), golden.weightShapes['powerLaw_n5_exponent1.5']],
+        [
+          logisticTaperWeights(6, 8, 0.5, det),
+          golden.weightShapes['logistic_n6_steepness8_midpoint0.5']
+        ],
+        [halvingWeights(8, 4), golden.weightShapes['halving_n8_periods4']]
+      ];
+      for (const [actual, expected] of cases) {
+        expect(actual).toHaveLength(expected.length);
+        actual.forEach((w, i) => expect(Object.is(w, expected[i])).toBe(true));
+      }
+    });
+
+    it('should match the halving-early schedule golden vector bit-exactly', () => {
+      const g = golden.halvingEarlySchedule;
+      const s = buildEmissionsSchedule(
+        { shapeEarly: { kind: 'halving', periods: 4 } },
+        { deterministic: true }
+      );
+      expect(s.totalEpochs).toBe(g.totalEpochs);
+      expect(s.milestones).toEqual(g.milestones);
+      for (const [epochStr, expected] of Object.entries(g.emissionsAtEpochs)) {
+        expect(Object.is(s.emissions[Number(epochStr) - 1], expected)).toBe(true);
+      }
+      for (const [epochStr, expected] of Object.entries(g.cumulativeAtEpochs)) {
+        expect(Object.is(s.cumulative[Number(epochStr) - 1], expected)).toBe(true);
+      }
+    });
+  });
+
+  describe('normalization', () => {
+    it('should sum to exactly 1 (left-to-right float64) for every tagged shape across sizes', () => {
+      for (let n = 1; n <= 300; n++) {
+        for (const shape of TAGGED_SHAPES) {
+          const weights = weightsForShape(n, shape);
+          expect(weights).toHaveLength(n);
+          expect(sum(weights)).toBe(1);
+        }
+      }
+    });
+
+    it('should return [] for n <= 0 and [1] for n === 1', () => {
+      for (const shape of TAGGED_SHAPES) {
+        expect(weightsForShape(0, shape)).toEqual([]);
+        expect(weightsForShape(1, shape)).toEqual([1]);
+      }
+    });
+
+    it('should produce only strictly positive weights', () => {
+      for (const shape of TAGGED_SHAPES) {
+        expect(weightsForShape(157, shape).every(w => w > 0)).toBe(true);
+      }
+    });
+  });
+
+  describe('shape behavior', () => {
+    it('linear should ramp down by a constant step to 1/n of the first weight', () => {
+      const w = linearWeights(10);
+      for (let i = 1; i < 10; i++) {
+        expect(w[i - 1] - w[i]).toBeCloseTo(w[0] / 10, 14);
+      }
+      expect(w[9] / w[0]).toBeCloseTo(0.1, 14);
+    });
+
+    it('powerLaw should follow (i + 1)^-exponent ratios and be constant at exponent 0', () => {
+      const w = powerLawWeights(20, 2);
+      expect(w[1] / w[0]).toBeCloseTo(0.25, 12);
+      expect(w[9] / w[0]).toBeCloseTo(0.01, 12);
+      expect(powerLawWeights(4, 0)).toEqual(constantWeights(4));
+    });
+
+    it('logistic should taper around its midpoint', () => {
+      const w = logisticTaperWeights(101, 12, 0.5);
+      for (let i = 1; i < 101; i++) {
+        expect(w[i]).toBeLessThan(w[i - 1]);
+      }
+      // The half-height point of the taper is the midpoint epoch
+      const ratio = w[50] / (w[0] * (1 + Math.exp(-6)));
+      expect(ratio).toBeCloseTo(0.5, 12);
+    });
+
+    it('halving should halve the per-epoch weight at each block boundary', () => {
+      const w = halvingWeights(12, 3);
+      expect(w[0]).toBe(w[3]);
+      expect(w[4] / w[3]).toBe(0.5);
+      expect(w[8] / w[7]).toBe(0.5);
+      expect(w[7]).toBe(w[4]);
+    });
+
+    it('halving should spread uneven block lengths across the phase', () => {
+      const w = halvingWeights(10, 4);
+      const levels = [...new Set(w.slice(0, 9))];
+      expect(levels).toHaveLength(4);
+    });
+
+    it('halving should clamp periods to one block per epoch', () => {
+      expect(halvingWeights(3, 10)).toEqual(halvingWeights(3, 3));
+      const w = halvingWeights(5, 8);
+      for (let i = 1; i < 5; i++) {
+        // The last weight absorbs the unit-sum rounding
+        expect(w[i] / w[i - 1]).toBeCloseTo(0.5, 12);
+      }
+    });
+  });
+
+  describe('weightsForShape', () => {
+    it('should treat a number exactly like shapeWeights and { kind: "exponential" } up to unit-sum rounding', () => {
+      expect(weightsForShape(50, 1.5)).toEqual(shapeWeights(50, 1.5));
+      const tagged = weightsForShape(50, { kind: 'exponential', shape: 1.5 });
+      const plain = shapeWeights(50, 1.5);
+      tagged.forEach((w, i) => expect(Math.abs(w - plain[i]) / plain[i]).toBeLessThanOrEqual(1e-13));
+    });
+
+    it('should dispatch to the tagged generators', () => {
+      expect(weightsForShape(7, { kind: 'linear' })).toEqual(linearWeights(7));
+      expect(weightsForShape(7, { kind: 'halving', periods: 2 })).toEqual(halvingWeights(7, 2));
+    });
+
+    it('should reject invalid shape parameters and unknown kinds', () => {
+      expect(() => powerLawWeights(5, -1)).toThrow('Invalid: exponent must be finite and non-negative');
+      expect(() => logisticTaperWeights(5, 1, 1.5)).toThrow('Invalid: midpoint must be in [0, 1]');
+      expect(() => logisticTaperWeights(5, -1, 0.5)).toThrow('Invalid: steepness must be finite and non-negative');
+      expect(() => halvingWeights(5, 0)).toThrow('Invalid: periods must be a positive integer');
+      expect(() => weightsForShape(5, { kind: 'sawtooth' } as unknown as WeightShape)).toThrow(
+        'Invalid: unknown weight shape kind'
+      );
+    });
+
+    it('should list every supported kind', () => {
+      expect([...WEIGHT_SHAPE_KINDS].sort()).toEqual(
+        ['constant', 'exponential', 'halving', 'linear', 'logistic', 'powerLaw']
+      );
+    });
+  });
+
+  describe('exponentialShapeForFirstWeight', () => {
+    it('should invert the first exponential weight', () => {
+      for (const [n, shape] of [[10, 2], [208, 0.3], [1300, -1.5], [52, 7]] as const) {
+        const first = shapeWeights(n, shape)[0];
+        const solved = exponentialShapeForFirstWeight(n, first);
+        expect(Math.abs(shapeWeights(n, solved)[0] - first) / first).toBeLessThanOrEqual(1e-14);
+        expect(solved).toBeCloseTo(shape, 9);
+      }
+    });
+
+    it('should return 0 for a uniform first weight', () => {
+      expect(exponentialShapeForFirstWeight(8, 1 / 8)).toBeCloseTo(0, 12);
+    });
+
+    it('should reject unsolvable inputs', () => {
+      expect(() => exponentialShapeForFirstWeight(1, 0.5)).toThrow('Invalid: n must be an integer of at least 2');
+      expect(() => exponentialShapeForFirstWeight(5, 1)).toThrow('Invalid: firstWeight must be in (0, 1)');
+      expect(() => exponentialShapeForFirstWeight(5, 0)).toThrow('Invalid: firstWeight must be in (0, 1)');
+    });
+  });
+
+  describe('schedules with tagged shapes', () => {
+    it('should keep milestones and the cap for every shape in every phase', () => {
+      for (const shape of TAGGED_SHAPES) {
+        const s = buildEmissionsSchedule({ shapeEarly: shape, shapeMid: shape, shapeTail: shape });
+        // Float rounding of the cumulative sum can push a milestone one epoch later
+        expect(s.milestones.epochTo33Pct - 208).toBeGreaterThanOrEqual(0);
+        expect(s.milestones.epochTo33Pct - 208).toBeLessThanOrEqual(1);
+        expect(s.milestones.epochTo80Pct - 1456).toBeGreaterThanOrEqual(0);
+        expect(s.milestones.epochTo80Pct - 1456).toBeLessThanOrEqual(1);
+        expect(Math.abs(s.cumulative[1455] / 86e9 - 0.8)).toBeLessThanOrEqual(1e-12);
+        expect(Math.abs(sum(s.emissions) - 86e9) / 86e9).toBeLessThanOrEqual(1e-12);
+      }
+    });
+
+    it('should replace (not merge) a shape override', () => {
+      const s = buildEmissionsSchedule({ shapeMid: { kind: 'constant' } });
+      expect(s.params.shapeMid).toEqual({ kind: 'constant' });
+      expect(s.emissions[208]).toBe(s.emissions[1000]);
+
+      const base = { ...DEFAULT_EMISSIONS_PARAMS, shapeMid: { kind: 'halving' as const, periods: 4 } };
+      const resolved = resolveEmissionsParams({ shapeMid: { kind: 'linear' } }, base);
+      expect(resolved.params.shapeMid).toEqual({ kind: 'linear' });
+      expect(resolved.overridden).toEqual(['shapeMid']);
+
+      // A partial shape of the same kind still replaces, never merges
+      const logistic = { ...DEFAULT_EMISSIONS_PARAMS, shapeTail: { kind: 'logistic' as const, steepness: 8, midpoint: 0.5 } };
+      const partial = resolveEmissionsParams(
+        { shapeTail: { steepness: 4 } } as unknown as Parameters<typeof resolveEmissionsParams>[0],
+        logistic
+      );
+      expect(partial.params.shapeTail).toEqual({ steepness: 4 });
+      expect(partial.overridden).toEqual(['shapeTail']);
+    });
+
+    it('should accept tagged shapes in N-phase params', () => {
+      const s = buildPhasedEmissionsSchedule(
+        {
+          cap: 21_000_000n,
+          epochsPerYear: 1,
+          phases: [{ years: 32, targetFraction: 1, shape: { kind: 'halving', periods: 8 } }]
+        },
+        { strict: true }
+      );
+      expect(s.emissions[0]).toBeCloseTo(s.emissions[4] * 2, 6);
+      expect(s.emissions[31]).toBeCloseTo(s.emissions[0] / 128, 6);
+    });
+  });
+});